@@ -3,16 +3,37 @@ import { RepoProvider, useRepo } from './contexts/RepoContext';
 import { ExplanationProvider } from './contexts/ExplanationContext';
 import FileTree from './components/FileTree';
 import ExplanationDisplay from './components/ExplanationDisplay';
+import RefPicker from './components/RefPicker';
+import SourceHostSettings from './components/SourceHostSettings';
+import LocalSourcePicker from './components/LocalSourcePicker';
+import PullRequestFiles from './components/PullRequestFiles';
+import GitHubQuotaBadge from './components/GitHubQuotaBadge';
+import RecentRepositories from './components/RecentRepositories';
+import AIProviderSettings from './components/AIProviderSettings';
+import PromptTemplateSettings from './components/PromptTemplateSettings';
+import ExplanationStyleSettings from './components/ExplanationStyleSettings';
+import SchedulerSettings from './components/SchedulerSettings';
+import UsagePanel from './components/UsagePanel';
+import { LLMSettings, createLLMProvider, getLLMSettings, getProviderOption } from './services/llm';
+import { ExplanationSettings, explanationSettingsKey, getExplanationSettings } from './services/explanationSettings';
 
 const AppContent: React.FC = () => {
-  const { repo, loading, error, fetchRepo, resetRepo } = useRepo();
+  const { repo, provider, pullRequest, workspace, loading, error, fetchRepo, resetRepo } = useRepo();
   const [repoUrl, setRepoUrl] = useState('');
   const [apiKey, setApiKey] = useState('');
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(() => getLLMSettings());
+  const llmOption = getProviderOption(llmSettings.provider);
+  // A local Ollama works without a key
+  const keyRequired = createLLMProvider(llmSettings).requiresApiKey;
+  const llmReady = !!apiKey || !keyRequired;
+  const [accessToken, setAccessToken] = useState('');
+  const [explanationSettings, setExplanationSettings] = useState<ExplanationSettings>(() => getExplanationSettings());
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (repoUrl.trim()) {
-      fetchRepo(repoUrl);
+      // The token goes to whichever provider serves the URL
+      fetchRepo(repoUrl, accessToken);
     }
   };
 
@@ -80,7 +101,8 @@ const AppContent: React.FC = () => {
               </h1>
             </button>
             <div className="flex items-center space-x-4">
-              {!apiKey ? (
+              <GitHubQuotaBadge />
+              {!llmReady ? (
                 <div className="flex items-center px-4 py-2 rounded-full glass-input text-amber-300 border-amber-500/30 text-xs font-medium backdrop-blur-md">
                   <span className="w-2 h-2 bg-amber-500 rounded-full mr-2 animate-pulse"></span>
                   API Key Required
@@ -112,24 +134,38 @@ const AppContent: React.FC = () => {
                   </span>
                 </h2>
                 <p className="text-gray-400 text-lg md:text-xl max-w-2xl mx-auto leading-relaxed">
-                  Drop a GitHub link and get instant explanations, architectural diagrams, and deep insights. No more README fatigue.
+                  Drop a GitHub, GitLab or Gitea link (or a pull request) and get instant explanations, architectural diagrams, and deep insights. No more README fatigue.
                 </p>
               </div>
 
               <div className="glass-panel p-2 rounded-2xl shadow-2xl backdrop-blur-xl">
                 <form onSubmit={handleSubmit} className="space-y-2">
-                  {/* Gemini API Key Input */}
+                  {/* LLM API Key Input */}
                   <div className="relative group">
                     <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
                       <span className="text-lg">🔑</span>
                     </div>
                     <input
                       type="password"
-                      placeholder="Enter Gemini API Key (keep it safe)"
+                      placeholder={!keyRequired ? `${llmOption.label} needs no API key` : `Enter ${llmOption.label} API Key (keep it safe)`}
                       value={apiKey}
                       onChange={(e) => setApiKey(e.target.value)}
                       className="w-full pl-12 pr-4 py-4 bg-github-dark-bg/50 border border-transparent rounded-xl text-white placeholder-gray-500 focus:outline-none focus:bg-github-dark-bg focus:border-blue-500/50 transition-all duration-300 font-mono text-sm"
-                      required
+                      required={keyRequired}
+                    />
+                  </div>
+
+                  {/* Access Token Input (optional) */}
+                  <div className="relative group">
+                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                      <span className="text-lg">🔐</span>
+                    </div>
+                    <input
+                      type="password"
+                      placeholder="GitHub / GitLab / Gitea token (optional: private repos & higher rate limits)"
+                      value={accessToken}
+                      onChange={(e) => setAccessToken(e.target.value)}
+                      className="w-full pl-12 pr-4 py-4 bg-github-dark-bg/50 border border-transparent rounded-xl text-white placeholder-gray-500 focus:outline-none focus:bg-github-dark-bg focus:border-blue-500/50 transition-all duration-300 font-mono text-sm"
                     />
                   </div>
 
@@ -153,8 +189,8 @@ const AppContent: React.FC = () => {
 
                     <button
                       type="submit"
-                      disabled={!repoUrl || !apiKey}
-                      className={`px-8 py-4 rounded-xl font-bold text-white shadow-lg transition-all duration-300 flex items-center justify-center gap-2 whitespace-nowrap ${!repoUrl || !apiKey
+                      disabled={!repoUrl || !llmReady}
+                      className={`px-8 py-4 rounded-xl font-bold text-white shadow-lg transition-all duration-300 flex items-center justify-center gap-2 whitespace-nowrap ${!repoUrl || !llmReady
                         ? 'bg-gray-800 cursor-not-allowed opacity-50'
                         : 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 hover:shadow-blue-500/25 transform hover:-translate-y-0.5'
                         }`}
@@ -168,10 +204,24 @@ const AppContent: React.FC = () => {
                 </form>
               </div>
 
+              <LocalSourcePicker disabled={!llmReady} />
+
+              <RecentRepositories />
+
               <div className="mt-8 text-center">
-                <p className="text-gray-500 text-sm">
-                  Need an API Key? <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline transition-colors">Get one for free</a>
+                {llmOption.keyUrl && (
+                  <p className="text-gray-500 text-sm">
+                    Need an API Key? <a href={llmOption.keyUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline transition-colors">Get one from {llmOption.label}</a>
+                  </p>
+                )}
+                <p className="text-gray-500 text-sm mt-2">
+                  Private repo? <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline transition-colors">Create a GitHub token</a> with read access to its contents
                 </p>
+                <AIProviderSettings settings={llmSettings} onChange={setLlmSettings} />
+                <SchedulerSettings />
+                <ExplanationStyleSettings settings={explanationSettings} onChange={setExplanationSettings} />
+                <SourceHostSettings />
+                <PromptTemplateSettings />
               </div>
 
               {error && (
@@ -186,7 +236,17 @@ const AppContent: React.FC = () => {
           </div>
         ) : (
           // Main app view with sidebar and content
-          <ExplanationProvider apiKey={apiKey} repoName={`${repo.owner}/${repo.name}`}>
+          // Keyed by commit so switching refs starts from a clean explanation state
+          <ExplanationProvider
+            key={repo.commit_sha}
+            apiKey={apiKey}
+            repoName={`${repo.owner}/${repo.name}`}
+            commitSha={repo.commit_sha || repo.default_branch || 'main'}
+            pullRequest={pullRequest}
+            snapshotRepo={provider?.kind === 'local' ? null : repo}
+            workspace={workspace}
+            outputStyle={explanationSettingsKey(explanationSettings)}
+          >
             <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
               {/* Sidebar - File Tree */}
               <div className="w-full md:w-80 lg:w-96 flex flex-col border-r border-gray-800 bg-[#0d1117]">
@@ -197,16 +257,25 @@ const AppContent: React.FC = () => {
                     </div>
                     <div className="flex-1 min-w-0">
                       <h2 className="text-sm font-bold text-gray-200 truncate">
-                        {repo.owner}/{repo.name}
+                        {repo.owner === 'local' ? repo.name : `${repo.owner}/${repo.name}`}
                       </h2>
-                      <p className="text-xs text-gray-500 font-mono">master • {repo.default_branch || 'main'}</p>
+                      <RefPicker />
                     </div>
                   </div>
                 </div>
 
+                <PullRequestFiles />
+
                 <div className="flex-1 overflow-auto p-2 scrollbar-thin scrollbar-thumb-gray-800 scrollbar-track-transparent">
                   <FileTree />
                 </div>
+
+                <div className="border-t border-gray-800 px-3 pb-3">
+                  <ExplanationStyleSettings settings={explanationSettings} onChange={setExplanationSettings} />
+                  <SchedulerSettings />
+                </div>
+
+                <UsagePanel />
               </div>
 
               {/* Main Content Area */}
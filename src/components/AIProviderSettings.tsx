@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { LLMProviderKind, LLMSettings, LLM_PROVIDER_OPTIONS, defaultSettingsFor, getProviderOption, saveLLMSettings } from '../services/llm';
+
+interface AIProviderSettingsProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}
+
+// Picks the model backend (Gemini, an OpenAI-compatible gateway, Anthropic or a
+// local Ollama), its model and endpoint; saved in this browser
+const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const option = getProviderOption(settings.provider);
+
+  const update = (next: LLMSettings) => {
+    saveLLMSettings(next);
+    onChange(next);
+  };
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {open ? '▾' : '▸'} AI provider: {option.label} · <span className="font-mono">{settings.model}</span>
+      </button>
+
+      {open && (
+        <div className="mt-3 glass-panel p-4 rounded-xl border border-gray-700/50 space-y-3 animate-fade-in">
+          <div className="flex gap-2">
+            <select
+              value={settings.provider}
+              // Each backend starts from its own model and endpoint
+              onChange={(e) => update(defaultSettingsFor(e.target.value as LLMProviderKind))}
+              className="px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50"
+            >
+              {LLM_PROVIDER_OPTIONS.map(opt => (
+                <option key={opt.kind} value={opt.kind}>{opt.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              list="llm-model-suggestions"
+              value={settings.model}
+              onChange={(e) => update({ ...settings, model: e.target.value })}
+              placeholder={option.defaultModel}
+              className="flex-1 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+            />
+            <datalist id="llm-model-suggestions">
+              {option.models.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <span className="text-xs text-gray-500 whitespace-nowrap">Endpoint</span>
+            <input
+              type="text"
+              value={settings.baseUrl}
+              onChange={(e) => update({ ...settings, baseUrl: e.target.value })}
+              placeholder={option.defaultBaseUrl}
+              className="flex-1 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+            />
+            {settings.baseUrl !== option.defaultBaseUrl && (
+              <button
+                type="button"
+                onClick={() => update({ ...settings, baseUrl: option.defaultBaseUrl })}
+                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                title="Use the default endpoint"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {settings.provider === 'ollama'
+              ? 'Ollama needs no key. Start it with OLLAMA_ORIGINS set to this site so the browser may call it.'
+              : settings.provider === 'openai'
+                ? 'Any gateway that speaks the OpenAI Chat Completions API works; point the endpoint at its /v1 root.'
+                : 'Requests go straight from your browser to the provider with the key you enter above.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderSettings;
@@ -2,20 +2,43 @@ import React, { useEffect, useRef, useState } from 'react';
 import mermaid from 'mermaid';
 import { useRepo } from '../contexts/RepoContext';
 import { useExplanations } from '../contexts/ExplanationContext';
-import { fetchCompleteRepoStructure, fetchGitHubFileContent } from '../services/githubApi';
 import { architectureGenerator } from '../services/architectureGenerator';
 import { staticAnalysisService } from '../services/staticAnalysis';
+import { githubClient, RateLimitBudget } from '../services/githubClient';
+import { findTreeNode } from '../services/treeLoader';
+import { getLLMProvider } from '../services/llm';
+import { describePackages, getPackageScope, scopeTree } from '../services/workspaces';
+import { isAbortError } from '../services/abort';
 
 interface ArchitectureDiagramProps {
   apiKey: string;
 }
 
+// Where packages of a monorepo usually start, relative to the package directory
+const PACKAGE_ENTRY_POINTS = [
+  'src/index.ts', 'src/index.tsx', 'src/main.ts', 'src/main.tsx', 'src/App.tsx', 'index.ts', 'index.js',
+  'src/lib.rs', 'src/main.rs', 'main.go',
+];
+// Monorepos get one manifest and one entry point per package, up to this many files
+const MAX_PACKAGE_FILES = 10;
+
 const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) => {
-  const { repo } = useRepo();
-  const { architectureDiagram, setArchitectureDiagram } = useExplanations();
+  const { repo, provider, workspace, packageScope } = useRepo();
+  const { architectureDiagram: repoDiagram, setArchitectureDiagram, packageDiagrams, setPackageDiagram } = useExplanations();
+  // A package scope has a diagram of its own
+  const architectureDiagram = packageScope ? packageDiagrams[packageScope] || null : repoDiagram;
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const diagramRef = useRef<HTMLDivElement>(null);
+  // Aborted by the Cancel button and when the view unmounts
+  const controllerRef = useRef<AbortController | null>(null);
+  const [budget, setBudget] = useState<RateLimitBudget | null>(() => githubClient.getBudget());
+
+  useEffect(() => githubClient.subscribe(setBudget), []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancelDiagram = () => controllerRef.current?.abort();
 
   // Zoom & Pan State
   const [zoom, setZoom] = useState(1);
@@ -72,61 +95,85 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
   }, []);
 
   const generateDiagram = async () => {
-    if (!repo) {
+    if (!repo || !provider) {
       setError('No repository loaded');
       return;
     }
 
-    if (!apiKey) {
-      setError('Gemini API key is required. Please enter your API key above.');
+    const llm = getLLMProvider();
+    if (llm.requiresApiKey && !apiKey) {
+      setError(`${llm.label} API key is required. Please enter your API key above.`);
       return;
     }
 
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      // 1. Fetch complete repo structure
+      // 1. Reuse the recursive tree loaded with the repo
       console.log('ArchitectureDiagram: Starting diagram generation...');
-      const structure = await fetchCompleteRepoStructure(repo.owner, repo.name, '', 3, 0);
-
-      if (!structure || !structure.children || structure.children.length === 0) {
+      // Diagram inputs are background fetches: with a low rate-limit budget
+      // they wait for the reset rather than fail halfway through
+      const tree = repo.tree || await provider.getTree(repo, repo.commit_sha || repo.default_branch || 'main', { priority: 'background', signal });
+      if (!tree.root || !tree.root.children || tree.root.children.length === 0) {
         throw new Error('Repository appears to be empty or inaccessible');
       }
 
+      // In a monorepo the diagram covers every package, or the scoped
+      // package and the packages that depend on it
+      const packages = workspace ? (packageScope ? getPackageScope(workspace, packageScope) : workspace.packages) : [];
+      const structure = packageScope && packages.length > 0 ? scopeTree(tree.root, packages) : tree.root;
+
       // 2. Identification of Key Files for Static Analysis
       const keyFilesToAnalyze = ['package.json', 'tsconfig.json'];
       const searchPaths = ['src/App.tsx', 'src/App.js', 'src/index.tsx', 'src/main.tsx', 'App.tsx', 'index.js'];
 
-      const filesToFetch: { name: string; url: string; path: string }[] = [];
+      const filesToFetch: { name: string; path: string }[] = [];
 
       // Helper to traverse and find files
       const findFile = (node: any, path: string) => {
         if (node.type === 'file') {
           if (keyFilesToAnalyze.includes(node.name) || searchPaths.includes(node.path)) {
-            filesToFetch.push({ name: node.name, url: node.download_url, path: node.path });
+            filesToFetch.push({ name: node.name, path: node.path });
           }
         } else if (node.children) {
           node.children.forEach((child: any) => findFile(child, child.path));
         }
       };
 
-      findFile(structure, '');
-
-      // Limit to 5 files to avoid rate limits
-      const selectedFiles = filesToFetch.slice(0, 5);
+      let selectedFiles: { name: string; path: string }[];
+      if (packages.length > 0) {
+        // Entry points live inside each package, not at the repository root
+        const packageFiles = packages.flatMap(pkg => {
+          const entry = PACKAGE_ENTRY_POINTS.map(rel => findTreeNode(tree.root, pkg.path ? `${pkg.path}/${rel}` : rel))
+            .find(node => node && node.type === 'file');
+          return [
+            { name: pkg.manifest.split('/').pop() || pkg.manifest, path: pkg.manifest },
+            ...(entry ? [{ name: entry.name, path: entry.path }] : []),
+          ];
+        });
+        selectedFiles = packageFiles.slice(0, MAX_PACKAGE_FILES);
+      } else {
+        findFile(structure, '');
+        // Limit to 5 files to avoid rate limits
+        selectedFiles = filesToFetch.slice(0, 5);
+      }
       console.log('Fetching content for analysis:', selectedFiles.map(f => f.path));
 
       // 3. Fetch File Contents
       const fileContents: Record<string, string> = {};
       await Promise.all(selectedFiles.map(async (file) => {
-        if (file.url) {
-          try {
-            const content = await fetchGitHubFileContent(file.url);
-            fileContents[file.path] = content;
-          } catch (e) {
-            console.warn(`Failed to fetch content for ${file.path}`, e);
-          }
+        try {
+          const content = await provider.readFile(repo, file.path, repo.commit_sha, { priority: 'background', signal });
+          fileContents[file.path] = content;
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+          console.warn(`Failed to fetch content for ${file.path}`, e);
         }
       }));
 
@@ -136,11 +183,18 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
 
       // 5. Generate Diagram via Architecture Service
       console.log('Generating Architecture Diagram...');
-      const diagram = await architectureGenerator.generateDiagram(repo.name, structure, analysis, apiKey);
+      const diagram = await architectureGenerator.generateDiagram(
+        repo.name, structure, analysis, apiKey, packages.length > 0 ? describePackages(packages) : undefined, signal
+      );
 
       console.log('ArchitectureDiagram: Diagram generated successfully');
-      setArchitectureDiagram(diagram);
+      if (packageScope) {
+        setPackageDiagram(packageScope, diagram);
+      } else {
+        setArchitectureDiagram(diagram);
+      }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('ArchitectureDiagram: Error occurred:', err);
 
       let errorMessage = 'Failed to generate architecture diagram';
@@ -149,17 +203,20 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
         errorMessage = err.message;
 
         if (err.message.includes('rate limit')) {
-          errorMessage += '\n\nTip: GitHub has a rate limit for unauthenticated requests.';
+          errorMessage += '\n\nTip: GitHub has a rate limit for unauthenticated requests. Adding an access token raises it.';
         } else if (err.message.includes('404')) {
-          errorMessage += '\n\nPlease verify the repository exists and is public.';
+          errorMessage += '\n\nPlease verify the repository exists and that your access token can read it.';
         } else if (err.message.includes('API key')) {
-          errorMessage += '\n\nCheck that your Gemini API key is valid.';
+          errorMessage += '\n\nCheck that your AI provider API key is valid.';
         }
       }
 
       setError(errorMessage);
     } finally {
-      setLoading(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
@@ -294,7 +351,7 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
           <div className="text-6xl mb-4 font-mono">{ }</div>
           <h3 className="text-xl font-bold text-github-dark-text mb-3">Generate Architecture Diagram</h3>
           <p className="text-github-dark-text-secondary mb-4 max-w-2xl mx-auto">
-            Analyze repository structure and visualize:
+            {packageScope ? `Analyze the ${packageScope} package and its internal dependents and visualize:` : 'Analyze repository structure and visualize:'}
           </p>
           <ul className="text-left text-github-dark-text mb-6 max-w-xl mx-auto space-y-2">
             <li className="flex items-start gap-2">
@@ -329,9 +386,15 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
           <div className="flex items-center mb-3">
             <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-400 mr-3"></div>
             <span className="text-blue-300 font-semibold text-lg">Analyzing repository structure...</span>
+            <button
+              onClick={cancelDiagram}
+              className="ml-auto px-3 py-1 text-xs rounded bg-github-dark-bg bg-opacity-50 hover:bg-opacity-80 text-blue-200 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
           <div className="text-sm text-blue-200 space-y-2">
-            <p>• Fetching directory structure (up to 3 levels deep)</p>
+            <p>• Reading the full repository tree</p>
             <p>• Mapping actual files and their relationships</p>
             <p>• Identifying dependencies between components</p>
             <p>• Generating visual diagram with real file paths</p>
@@ -340,6 +403,12 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
             <span className="mr-2">⟳</span>
             This may take 10-15 seconds...
           </div>
+          {budget && budget.deferred > 0 && (
+            <div className="mt-2 flex items-center text-xs text-amber-300 bg-github-dark-bg bg-opacity-50 px-3 py-2 rounded font-mono">
+              <span className="mr-2">⏳</span>
+              GitHub quota is nearly used up; waiting for it to reset at {new Date(budget.resetAt).toLocaleTimeString()}
+            </div>
+          )}
         </div>
       )}
 
@@ -379,6 +448,7 @@ const ArchitectureDiagram: React.FC<ArchitectureDiagramProps> = ({ apiKey }) =>
             <h3 className="text-lg font-semibold text-github-dark-text flex items-center gap-2">
               <span>🏛️</span>
               Architecture Overview
+              {packageScope && <span className="text-sm font-normal text-github-dark-text-secondary font-mono">📦 {packageScope} + dependents</span>}
             </h3>
             <button
               onClick={generateDiagram}
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { useExplanations } from '../contexts/ExplanationContext';
+import { FileInfo, LfsPointer, formatBytes, getImageMimeType, parseLfsPointer } from '../services/fileKinds';
+import { listTreeChildren } from '../services/treeLoader';
+import { SourceFile } from '../services/providers/types';
+import MarkdownContent from './MarkdownContent';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+interface BinaryFileViewProps {
+  file: SourceFile;
+  info: FileInfo;
+}
+
+const KIND_LABELS: Record<FileInfo['kind'], { icon: string; title: string; note: string }> = {
+  text: { icon: '📄', title: 'Text file', note: '' },
+  image: { icon: '🖼️', title: 'Image', note: 'Images are shown as they are and never sent to the AI.' },
+  binary: { icon: '📦', title: 'Binary file', note: 'Binary content cannot be explained line by line.' },
+  lfs: { icon: '🗄️', title: 'Git LFS object', note: 'The repository only stores a pointer; the file itself lives in LFS storage.' },
+  oversized: { icon: '📚', title: 'Very large file', note: 'The file is too large to load as text in the browser.' },
+};
+
+// Images inline, everything else as a metadata panel with an explanation
+// inferred from the file's name, size and neighbours
+const BinaryFileView: React.FC<BinaryFileViewProps> = ({ file, info }) => {
+  const { repo, provider } = useRepo();
+  const { explanations, isGenerating, generateMetadataExplanation } = useExplanations();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  // Image paths that turn out to hold an LFS pointer
+  const [lfsPointer, setLfsPointer] = useState<LfsPointer | null>(null);
+
+  const explaining = isGenerating(file.path);
+  const mimeType = info.kind === 'image' ? getImageMimeType(file.path) : null;
+
+  useEffect(() => {
+    if (!repo || !provider || !mimeType) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    // Leaving the image stops its download
+    const controller = new AbortController();
+    setImageUrl(null);
+    setImageError(null);
+    setLfsPointer(null);
+
+    provider.readFileBlob(repo, file.path, repo.commit_sha, { signal: controller.signal })
+      .then(async blob => {
+        if (cancelled) return;
+        const pointer = blob.size < 200 ? parseLfsPointer(await blob.text()) : null;
+        if (cancelled) return;
+        if (pointer) {
+          setLfsPointer(pointer);
+          return;
+        }
+        // Raw endpoints often answer with a generic content type
+        objectUrl = URL.createObjectURL(new Blob([blob], { type: mimeType }));
+        setImageUrl(objectUrl);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setImageError(err instanceof Error ? err.message : 'Could not load the image');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [repo, provider, file.path, mimeType]);
+
+  const effectiveInfo: FileInfo = lfsPointer ? { kind: 'lfs', size: lfsPointer.size, lfs: lfsPointer } : info;
+  const label = KIND_LABELS[effectiveInfo.kind];
+  const explanation = explanations[file.path];
+
+  const explain = () => {
+    const parent = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+    const siblings = repo?.tree
+      ? (listTreeChildren(repo.tree, parent) || []).map(child => child.name).filter(name => name !== file.name)
+      : [];
+    generateMetadataExplanation(file, effectiveInfo, siblings);
+  };
+
+  return (
+    <div className="space-y-6">
+      {mimeType && !lfsPointer && (
+        <div className="glass-panel rounded-xl border border-gray-700/50 bg-[#0d1117] p-6 flex items-center justify-center min-h-[12rem]">
+          {imageUrl ? (
+            <img src={imageUrl} alt={file.name} className="max-w-full max-h-[60vh] object-contain" />
+          ) : imageError ? (
+            <p className="text-sm text-red-300">{imageError}</p>
+          ) : (
+            <div className="w-8 h-8 border-2 border-gray-700 border-t-blue-500 rounded-full animate-spin"></div>
+          )}
+        </div>
+      )}
+
+      <div className="glass-panel p-5 rounded-xl border border-gray-700/50">
+        <div className="flex items-start gap-4">
+          <span className="text-3xl">{label.icon}</span>
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-semibold text-white">{label.title}</h3>
+            <p className="text-sm text-gray-400 mt-1">{label.note}</p>
+            <dl className="mt-4 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs font-mono">
+              <dt className="text-gray-500">size</dt>
+              <dd className="text-gray-300">{effectiveInfo.size !== undefined ? formatBytes(effectiveInfo.size) : 'unknown'}</dd>
+              {mimeType && (
+                <>
+                  <dt className="text-gray-500">type</dt>
+                  <dd className="text-gray-300">{mimeType}</dd>
+                </>
+              )}
+              {effectiveInfo.lfs && (
+                <>
+                  <dt className="text-gray-500">lfs oid</dt>
+                  <dd className="text-gray-300 truncate" title={effectiveInfo.lfs.oid}>sha256:{effectiveInfo.lfs.oid}</dd>
+                </>
+              )}
+            </dl>
+          </div>
+        </div>
+      </div>
+
+      {explanation?.error ? (
+        <GenerationErrorNotice error={explanation.error} onRetry={explain} />
+      ) : explanation ? (
+        <div className="prose prose-invert max-w-none prose-headings:font-bold prose-headings:tracking-tight prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+          <MarkdownContent content={explanation.content} />
+        </div>
+      ) : (
+        <button
+          onClick={explain}
+          disabled={explaining}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${explaining
+            ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+            : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+            }`}
+        >
+          {explaining ? 'Thinking...' : 'Explain from metadata'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BinaryFileView;
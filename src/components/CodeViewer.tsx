@@ -1,12 +1,16 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { generateBatchFunctionExplanations } from '../services/geminiApi';
+import { isAbortError } from '../services/abort';
 import { useRepo } from '../contexts/RepoContext';
+import { LineRange } from '../services/providers/types';
+import { findTreeNode, treeNodeToFile } from '../services/treeLoader';
 
 interface CodeViewerProps {
   fileName: string;
   filePath: string;
   content: string;
   apiKey: string;
+  highlightRange?: LineRange;
 }
 
 interface FunctionInfo {
@@ -19,11 +23,14 @@ interface FunctionInfo {
   importPath?: string;
 }
 
-const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, apiKey }) => {
+const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, apiKey, highlightRange }) => {
   const [hoveredFunction, setHoveredFunction] = useState<string | null>(null);
+  const highlightStartRef = useRef<HTMLDivElement>(null);
   const [functionExplanations, setFunctionExplanations] = useState<Record<string, string>>({});
   const [loadingBatch, setLoadingBatch] = useState(false);
-  const { repo, fetchFileContent } = useRepo();
+  // Stops the batch when it is cancelled or the file changes
+  const batchController = useRef<AbortController | null>(null);
+  const { repo, provider, fetchFileContent, fetchDirectoryContents } = useRepo();
 
   // Extract function code from lines starting at given index
   const extractFunctionCode = useCallback((lines: string[], startIndex: number): string => {
@@ -247,10 +254,12 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
 
   // Batch load all function explanations on mount
   useEffect(() => {
+    const controller = new AbortController();
+    batchController.current = controller;
+
     const loadAllExplanations = async () => {
       if (localFunctions.length === 0) return;
       if (Object.keys(functionExplanations).length > 0) return;
-      if (loadingBatch) return;
 
       setLoadingBatch(true);
 
@@ -261,21 +270,39 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
 
         if (functionsToExplain.length > 0) {
           console.log('Loading explanations for', functionsToExplain.length, 'functions in batch...');
-          const explanations = await generateBatchFunctionExplanations(functionsToExplain, apiKey);
+          const explanations = await generateBatchFunctionExplanations(functionsToExplain, apiKey, filePath, controller.signal);
           setFunctionExplanations(explanations);
           console.log('Batch explanations loaded successfully');
         }
       } catch (error) {
-        console.error('Failed to generate batch function explanations:', error);
+        if (!isAbortError(error)) {
+          console.error('Failed to generate batch function explanations:', error);
+        }
       } finally {
-        setLoadingBatch(false);
+        // A newer batch owns the flag once this one was replaced
+        if (batchController.current === controller) {
+          setLoadingBatch(false);
+        }
       }
     };
 
     loadAllExplanations();
+    return () => controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [localFunctions.length, apiKey]);
 
+  const cancelBatch = () => {
+    batchController.current?.abort();
+    setLoadingBatch(false);
+  };
+
+  // Bring deep-linked lines into view
+  useEffect(() => {
+    if (highlightRange) {
+      highlightStartRef.current?.scrollIntoView?.({ block: 'center' });
+    }
+  }, [highlightRange, content]);
+
   // Handle function hover
   const handleFunctionHover = useCallback((func: FunctionInfo) => {
     setHoveredFunction(func.name);
@@ -312,74 +339,39 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
       
       const basePath = pathParts.join('/');
       console.log('Resolved base path:', basePath);
-      
-      // Try common file extensions
-      const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '.py'];
-      
-      for (const ext of extensions) {
-        const potentialPath = basePath + ext;
-        console.log('Trying path:', potentialPath);
-        
-        try {
-          // Try to fetch the file directly from GitHub API
-          const response = await fetch(`https://api.github.com/repos/${repo.owner}/${repo.name}/contents/${potentialPath}`);
-          
-          if (response.ok) {
-            const data = await response.json();
-            
-            if (data.type === 'file' && data.download_url) {
-              console.log('Found file:', potentialPath);
-              
-              const file: any = {
-                name: data.name,
-                path: data.path,
-                type: 'file',
-                size: data.size,
-                download_url: data.download_url,
-                sha: data.sha,
-                url: data.url
-              };
-              
-              await fetchFileContent(file);
-              return;
-            }
+
+      const candidates = ['', '.ts', '.tsx', '.js', '.jsx', '.py', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+      // Resolve against the loaded tree first; no network needed
+      if (repo.tree) {
+        for (const ext of candidates) {
+          const node = findTreeNode(repo.tree.root, basePath + ext);
+          if (node && node.type === 'file') {
+            console.log('Found file in tree:', node.path);
+            await fetchFileContent(treeNodeToFile(node));
+            return;
           }
-        } catch (error) {
-          console.log('Error fetching:', potentialPath, error);
         }
       }
-      
-      // Try index files
-      const indexExtensions = ['/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-      for (const ext of indexExtensions) {
-        const potentialPath = basePath + ext;
-        console.log('Trying index:', potentialPath);
-        
-        try {
-          const response = await fetch(`https://api.github.com/repos/${repo.owner}/${repo.name}/contents/${potentialPath}`);
-          
-          if (response.ok) {
-            const data = await response.json();
-            
-            if (data.type === 'file' && data.download_url) {
-              console.log('Found index file:', potentialPath);
-              
-              const file: any = {
-                name: data.name,
-                path: data.path,
-                type: 'file',
-                size: data.size,
-                download_url: data.download_url,
-                sha: data.sha,
-                url: data.url
-              };
-              
-              await fetchFileContent(file);
-              return;
-            }
+
+      // A truncated tree may be missing the directory: list the candidate
+      // parent directories through the provider instead
+      if (!repo.tree || repo.tree.truncated) {
+        const parentDir = basePath.substring(0, basePath.lastIndexOf('/'));
+        const listings = await Promise.all([
+          fetchDirectoryContents({ name: parentDir.split('/').pop() || parentDir, path: parentDir, type: 'dir' }),
+          // Only a directory for index imports; usually a 404, which is no error here
+          provider ? provider.listDir(repo, basePath, repo.commit_sha).catch(() => []) : []
+        ]);
+        const entries = listings.flat();
+
+        for (const ext of candidates) {
+          const file = entries.find(entry => entry.path === basePath + ext && entry.type === 'file');
+          if (file) {
+            console.log('Found file:', file.path);
+            await fetchFileContent(file);
+            return;
           }
-        } catch (error) {
-          console.log('Error fetching index:', potentialPath, error);
         }
       }
       
@@ -388,7 +380,7 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
     } else {
       console.log('Skipping non-relative import:', importPath);
     }
-  }, [repo, filePath, fetchFileContent]);
+  }, [repo, provider, filePath, fetchFileContent, fetchDirectoryContents]);
 
   return (
     <div className="space-y-4">
@@ -401,6 +393,15 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
               <h3 className="text-sm font-semibold text-blue-400 mb-3 flex items-center">
                 <span className="mr-2">🔧</span>
                 Defined Functions ({localFunctions.length})
+                {loadingBatch && (
+                  <button
+                    onClick={cancelBatch}
+                    className="ml-auto text-xs font-normal text-github-dark-text-secondary hover:text-github-dark-text transition-colors"
+                    title="Stop loading the function summaries"
+                  >
+                    Cancel
+                  </button>
+                )}
               </h3>
               <div className="space-y-2 ">
                 {localFunctions.map((func, idx) => (
@@ -493,11 +494,13 @@ const CodeViewer: React.FC<CodeViewerProps> = ({ fileName, filePath, content, ap
               {content.split('\n').map((line, index) => {
                 const lineNum = index + 1;
                 const hasFunction = functions.find(f => f.line === lineNum);
+                const isHighlighted = !!highlightRange && lineNum >= highlightRange.start && lineNum <= highlightRange.end;
                 
                 return (
                   <div
                     key={index}
-                    className={`flex ${hasFunction && !hasFunction.isImported ? 'bg-blue-900 bg-opacity-20' : ''}`}
+                    ref={highlightRange && lineNum === highlightRange.start ? highlightStartRef : undefined}
+                    className={`flex ${isHighlighted ? 'bg-yellow-500/10 border-l-2 border-yellow-400' : hasFunction && !hasFunction.isImported ? 'bg-blue-900 bg-opacity-20' : ''}`}
                   >
                     <span className="inline-block w-12 text-right pr-4 text-github-dark-text-secondary select-none">
                       {lineNum}
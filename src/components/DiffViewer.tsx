@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { parsePatch } from '../services/diffParser';
+
+interface DiffViewerProps {
+  fileName: string;
+  patch?: string;
+  additions: number;
+  deletions: number;
+  // Shown in the header for renamed files
+  previousPath?: string;
+}
+
+const LINE_STYLES = {
+  hunk: 'bg-blue-900 bg-opacity-20 text-blue-300',
+  add: 'bg-green-900 bg-opacity-30',
+  del: 'bg-red-900 bg-opacity-30',
+  context: '',
+};
+
+const LINE_MARKERS = { hunk: '', add: '+', del: '-', context: ' ' };
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ fileName, patch, additions, deletions, previousPath }) => {
+  const lines = useMemo(() => (patch ? parsePatch(patch) : []), [patch]);
+
+  return (
+    <div className="bg-github-dark-bg-tertiary rounded-lg border border-github-dark-border overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-github-dark-bg-secondary border-b border-github-dark-border">
+        <span className="text-sm font-mono text-github-dark-text truncate">
+          {previousPath && <span className="text-github-dark-text-secondary">{previousPath} → </span>}
+          {fileName}
+        </span>
+        <span className="text-xs font-mono ml-4 whitespace-nowrap">
+          <span className="text-green-400">+{additions}</span>{' '}
+          <span className="text-red-400">-{deletions}</span>
+        </span>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="p-6 text-sm text-github-dark-text-secondary text-center">
+          No textual diff available. The file is binary or its diff is too large to display.
+        </p>
+      ) : (
+        <pre className="p-4 overflow-x-auto text-sm overflow-y-auto" style={{ maxHeight: "calc(100vh - 300px)" }}>
+          <code className="text-github-dark-text font-mono">
+            {lines.map((line, index) => (
+              <div key={index} className={`flex ${LINE_STYLES[line.type]}`}>
+                <span className="inline-block w-12 text-right pr-2 text-github-dark-text-secondary select-none">
+                  {line.oldLine ?? ''}
+                </span>
+                <span className="inline-block w-12 text-right pr-4 text-github-dark-text-secondary select-none">
+                  {line.newLine ?? ''}
+                </span>
+                <span className="inline-block w-4 text-github-dark-text-secondary select-none">{LINE_MARKERS[line.type]}</span>
+                <span className="flex-1 whitespace-pre">{line.content}</span>
+              </div>
+            ))}
+          </code>
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DiffViewer;
@@ -1,54 +1,106 @@
 import React, { useState } from 'react';
-import ReactMarkdown from 'react-markdown';
 import { useRepo } from '../contexts/RepoContext';
 import { useExplanations } from '../contexts/ExplanationContext';
 import CodeViewer from './CodeViewer';
+import DiffViewer from './DiffViewer';
+import MarkdownContent from './MarkdownContent';
 import ArchitectureDiagram from './ArchitectureDiagram';
+import PullRequestOverview from './PullRequestOverview';
+import FileHistory from './FileHistory';
+import BinaryFileView from './BinaryFileView';
+import RepoOverview from './RepoOverview';
+import RepoQuestions from './RepoQuestions';
+import SourceRanges from './SourceRanges';
+import QuestionThread from './QuestionThread';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import { LARGE_FILE_BYTES, formatBytes } from '../services/fileKinds';
+import { estimateFileExplanationTokens } from '../services/geminiApi';
 
 interface ExplanationDisplayProps {
   apiKey: string;
 }
 
 const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
-  const { selectedFile, fileContents } = useRepo();
-  const { explanations, generateExplanation, generating, error, architectureDiagram, generateQuestionResponse } = useExplanations();
-  const [activeTab, setActiveTab] = useState<'explanation' | 'code' | 'architecture'>('explanation');
+  const { selectedFile, fileContents, fileInfo, target, pullRequest, provider } = useRepo();
+  const {
+    explanations, generateExplanation, generating, isGenerating, queuePositions, architectureDiagram, threads, askInThread,
+    cancelGeneration, discardExplanation, prReviews, generatePullRequestReview
+  } = useExplanations();
+  const [activeTab, setActiveTab] = useState<'explanation' | 'code' | 'diff' | 'history' | 'architecture'>('explanation');
 
   /* New State for Question - Moved to top level */
   const [question, setQuestion] = useState('');
+  // Large files the user agreed to send for explanation
+  const [confirmedLarge, setConfirmedLarge] = useState<Record<string, boolean>>({});
 
   const handleAsk = () => {
     if (!question.trim() || !selectedFile) return;
     const currentContent = fileContents[selectedFile.path] || '';
-    generateQuestionResponse(question, selectedFile.path, currentContent);
+    askInThread(selectedFile.path, question, currentContent);
     setQuestion('');
   };
 
-  // Helper to get questions for this file - Moved to top level
-  // Note: We need to be careful with access to selectedFile if it's null, but filter handles undefined checks safely usually.
-  // We can just keep it here or compute it inline. Or use useMemo.
-  // For safety against selectedFile being null, let's just make it safe.
-  const fileQuestions = Object.entries(explanations).filter(([key]) => key.startsWith(`${selectedFile?.path || ''}_question_`));
+  // The selected file's entry in the pull request under review, if it changed there
+  const prFile = pullRequest && selectedFile ? pullRequest.files.find(f => f.path === selectedFile.path) : undefined;
 
+  // Files above the threshold wait for an explicit go-ahead
+  const needsConfirmation = (path: string, content: string) =>
+    content.length > LARGE_FILE_BYTES && !confirmedLarge[path];
+
+  // Leaving a file (or the overview) drops its requests, queued or in flight,
+  // so they neither hold the queue nor land late. A layout effect, so it runs
+  // before any effect here or in a child starts the new file's requests.
+  React.useLayoutEffect(() => {
+    cancelGeneration(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFile?.path]);
+
+  // Keyed on what decides whether to explain, not on the context's functions:
+  // those change on every provider render, queue position updates included
+  const selectedContent = selectedFile ? fileContents[selectedFile.path] : undefined;
+  const hasExplanation = Boolean(selectedFile && explanations[selectedFile.path]);
   React.useEffect(() => {
-    if (selectedFile) {
-      const content = fileContents[selectedFile.path];
-      if (content && !explanations[selectedFile.path]) {
-        generateExplanation(selectedFile, content);
+    // While reviewing a PR the diff tab comes first; the full-file
+    // explanation is only generated once its tab is opened
+    if (selectedFile && !(prFile && activeTab === 'diff')) {
+      if (selectedContent && !hasExplanation && !needsConfirmation(selectedFile.path, selectedContent)) {
+        generateExplanation(selectedFile, selectedContent);
       }
     }
-  }, [selectedFile, fileContents, explanations, generateExplanation]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFile?.path, selectedContent, hasExplanation, prFile, activeTab, confirmedLarge]);
+
+  React.useEffect(() => {
+    if (prFile && activeTab === 'diff') {
+      generatePullRequestReview(prFile);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prFile, activeTab]);
+
+  // Line range from a deep link, only while its file is the one selected
+  const highlightRange = target && selectedFile && target.path === selectedFile.path ? target.lineRange : undefined;
 
   // Reset to explanation tab when file changes (not when tab changes!)
+  // Deep links with a line range open straight into the code view instead.
   React.useEffect(() => {
-    if (selectedFile && activeTab !== 'architecture') {
+    if (selectedFile && highlightRange) {
+      setActiveTab('code');
+    } else if (prFile) {
+      setActiveTab('diff');
+    } else if (selectedFile && activeTab !== 'architecture' && activeTab !== 'history') {
       setActiveTab('explanation');
     }
-  }, [selectedFile]); // Only depend on selectedFile, not activeTab
+    // Only on a new file or deep link, not when the tab changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFile, highlightRange]);
+
+  if (!selectedFile && pullRequest) {
+    return <PullRequestOverview />;
+  }
 
   if (!selectedFile) {
     return (
-      <div className="p-8 h-full flex flex-col items-center justify-center">
+      <div className="p-8 h-full flex flex-col items-center overflow-auto">
         <div className="max-w-md w-full glass-panel p-10 rounded-2xl border border-gray-700/50 text-center relative overflow-hidden group">
           {/* Ambient Background Glow */}
           <div className="absolute -top-10 -right-10 w-40 h-40 bg-blue-500/20 rounded-full blur-3xl group-hover:bg-blue-500/30 transition-colors duration-500"></div>
@@ -68,15 +120,21 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
             </div>
           </div>
         </div>
+        <RepoOverview />
+        <RepoQuestions />
       </div>
     );
   }
 
   const explanation = explanations[selectedFile.path];
   const content = fileContents[selectedFile.path];
+  // Images, binaries, LFS pointers and oversized files have no text content
+  const info = fileInfo[selectedFile.path];
+  const nonText = info && info.kind !== 'text' ? info : null;
+  const explaining = isGenerating(selectedFile.path);
 
   // Show generating state with file preview for better UX
-  if (generating && !explanation) {
+  if (explaining && !explanation && !prFile) {
     return (
       <div className="p-8 max-w-5xl mx-auto">
         <div className="mb-8 p-6 glass-panel rounded-2xl border border-gray-700/50 relative overflow-hidden">
@@ -92,22 +150,20 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
             </div>
           </div>
 
-          <div className="mt-8 space-y-4">
+          {/* The explanation replaces this as soon as its first tokens stream in */}
+          <div className="mt-8 flex items-center justify-between gap-3">
             <div className="flex items-center gap-3 text-blue-300 text-sm font-medium animate-pulse">
               <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
-              Analyzing File...
-            </div>
-
-            <div className="space-y-3">
-              <div className="h-2 bg-blue-900/30 rounded-full w-full overflow-hidden">
-                <div className="h-full bg-blue-500/50 rounded-full animate-progress origin-left w-full"></div>
-              </div>
-              <div className="flex justify-between text-xs text-gray-500 font-mono">
-                <span>Parsing AST...</span>
-                <span>Identifying Dependencies...</span>
-                <span>Generating Insights...</span>
-              </div>
+              {queuePositions[selectedFile.path]
+                ? `Waiting in the request queue (#${queuePositions[selectedFile.path]})...`
+                : 'Waiting for the model to start answering...'}
             </div>
+            <button
+              onClick={() => cancelGeneration()}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700 transition-all"
+            >
+              Cancel
+            </button>
           </div>
         </div>
 
@@ -125,7 +181,8 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
     );
   }
 
-  if (!content && !generating) {
+  // Files deleted by the pull request only exist in its diff
+  if (!content && !nonText && !explaining && prFile?.status !== 'removed') {
     return (
       <div className="p-8 flex flex-col items-center justify-center text-center">
         <div className="w-16 h-16 border-4 border-gray-700 border-t-blue-500 rounded-full animate-spin mb-4"></div>
@@ -134,20 +191,6 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
     );
   }
 
-  if (error) {
-    return (
-      <div className="p-8">
-        <div className="glass-panel p-6 rounded-2xl border-l-4 border-l-red-500 bg-red-900/10">
-          <h3 className="text-xl font-bold text-red-200 mb-2">Generation Failed</h3>
-          <p className="text-red-300">{error}</p>
-        </div>
-      </div>
-    );
-  }
-
-
-
-
   return (
     <div className="p-6 md:p-8 h-full overflow-hidden flex flex-col max-w-7xl mx-auto">
       {/* Header */}
@@ -174,44 +217,52 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
           </div>
           <input
             type="text"
-            placeholder={`Ask AI about ${selectedFile.name}...`}
+            placeholder={threads[selectedFile.path]?.messages.length ? 'Ask a follow-up...' : `Ask AI about ${selectedFile.name}...`}
             className="w-full pl-12 pr-24 py-3 bg-[#161b22] border border-gray-700 rounded-xl text-gray-200 placeholder-gray-500 focus:outline-none focus:bg-[#0d1117] transition-all font-sans"
             value={question}
             onChange={(e) => setQuestion(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleAsk()}
           />
-          <button
-            onClick={handleAsk}
-            disabled={generating || !question.trim()}
-            className={`absolute right-2 top-2 px-4 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide transition-all ${generating || !question.trim()
-              ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
-              : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/30'
-              }`}
-          >
-            {generating ? 'Thinking...' : 'Ask'}
-          </button>
+          {generating ? (
+            <button
+              onClick={() => cancelGeneration()}
+              className="absolute right-2 top-2 px-4 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide transition-all bg-gray-800 hover:bg-gray-700 text-gray-300"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleAsk}
+              disabled={!question.trim()}
+              className={`absolute right-2 top-2 px-4 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide transition-all ${!question.trim()
+                ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/30'
+                }`}
+            >
+              Ask
+            </button>
+          )}
         </div>
       </div>
 
-      {/* AI Q&A Responses Area - If any exist for this file */}
-      {fileQuestions.length > 0 && (
-        <div className="mb-8 space-y-4">
-          {fileQuestions.map(([key, response]) => (
-            <div key={key} className="glass-panel p-5 rounded-xl border border-blue-500/20 bg-blue-900/5 relative overflow-hidden animate-fade-in">
-              <div className="absolute top-0 left-0 w-1 h-full bg-blue-500"></div>
-              <h4 className="text-sm font-semibold text-blue-300 mb-2 flex items-center gap-2">
-                <span className="text-lg">🤖</span> AI Answer
-              </h4>
-              <p className="text-gray-300 text-sm leading-relaxed">{response.content}</p>
-            </div>
-          ))}
-        </div>
-      )}
+      {/* The conversation about this file, kept while browsing other files */}
+      <QuestionThread filePath={selectedFile.path} fileContent={fileContents[selectedFile.path] || ''} />
 
       {/* Modern Tabs (Pills) */}
       <div className="flex p-1 bg-gray-900/50 backdrop-blur rounded-xl border border-gray-800 w-fit mb-8 shadow-inner">
         {/* ... (rest of tabs code same as before) ... */}
-        {selectedFile && selectedFile.type === 'file' && content && (
+        {prFile && (
+          <button
+            onClick={() => setActiveTab('diff')}
+            className={`px-5 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'diff'
+              ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/20'
+              : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+              }`}
+          >
+            PR Changes
+          </button>
+        )}
+        {selectedFile && selectedFile.type === 'file' && (content || nonText) && (
           <>
             <button
               onClick={() => setActiveTab('explanation')}
@@ -220,8 +271,9 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
                 : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
                 }`}
             >
-              AI Explanation
+              {nonText ? 'Overview' : 'AI Explanation'}
             </button>
+            {content && (
             <button
               onClick={() => setActiveTab('code')}
               className={`px-5 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'code'
@@ -231,6 +283,18 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
             >
               Code View
             </button>
+            )}
+            {provider?.listFileCommits && (
+              <button
+                onClick={() => setActiveTab('history')}
+                className={`px-5 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${activeTab === 'history'
+                  ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/20'
+                  : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'
+                  }`}
+              >
+                History
+              </button>
+            )}
           </>
         )}
         <button
@@ -250,44 +314,79 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
           <div className="glass-panel rounded-2xl border border-gray-700/50 overflow-hidden bg-[#0d1117]">
             <ArchitectureDiagram apiKey={apiKey} />
           </div>
+        ) : activeTab === 'history' ? (
+          <FileHistory filePath={selectedFile.path} />
+        ) : activeTab === 'diff' && prFile ? (
+          <div className="space-y-6">
+            <div className="glass-panel p-5 rounded-xl border border-blue-500/20 bg-blue-900/5">
+              {prReviews[prFile.path]?.error ? (
+                <GenerationErrorNotice error={prReviews[prFile.path].error!} onRetry={() => generatePullRequestReview(prFile, true)} />
+              ) : prReviews[prFile.path] ? (
+                <div className="prose prose-invert max-w-none prose-headings:font-bold prose-headings:tracking-tight prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+                  <MarkdownContent content={prReviews[prFile.path].content} />
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 text-blue-300 text-sm font-medium">
+                  <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                  {isGenerating(`#review:${prFile.path}`) ? 'Reviewing this change...' : 'Waiting to review this change...'}
+                </div>
+              )}
+            </div>
+            <DiffViewer
+              fileName={prFile.path}
+              patch={prFile.patch}
+              additions={prFile.additions}
+              deletions={prFile.deletions}
+              previousPath={prFile.previous_path}
+            />
+          </div>
+        ) : activeTab === 'explanation' && nonText ? (
+          <BinaryFileView file={selectedFile} info={nonText} />
         ) : activeTab === 'explanation' ? (
           explanation ? (
             <div className="prose prose-invert max-w-none prose-headings:font-bold prose-headings:tracking-tight prose-p:text-gray-300 prose-a:text-blue-400 hover:prose-a:text-blue-300 prose-code:text-blue-300 prose-strong:text-white">
-              <ReactMarkdown
-                components={{
-                  // Custom styled code blocks
-                  code: ({ node, className, children, ...props }) => {
-                    const isInline = typeof children === 'string' && !children.includes('\n');
-                    return isInline ? (
-                      <code className="bg-blue-500/10 text-blue-300 px-1.5 py-0.5 rounded text-sm font-mono border border-blue-500/20" {...props}>
-                        {children}
-                      </code>
-                    ) : (
-                      <div className="relative group my-6">
-                        <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity blur"></div>
-                        <code className="block bg-[#161b22] text-gray-300 p-5 rounded-xl border border-gray-700/50 overflow-x-auto text-sm font-mono shadow-sm relative" {...props}>
-                          {children}
-                        </code>
-                      </div>
-                    );
-                  },
-                  // Styling other elements
-                  h1: (props) => <h1 className="text-3xl border-b border-gray-800 pb-2 mb-6" {...props} />,
-                  h2: (props) => <h2 className="text-2xl mt-8 mb-4 flex items-center gap-2" {...props} />,
-                  ul: (props) => <ul className="space-y-2 my-4" {...props} />,
-                  li: (props) => (
-                    <li className="flex items-start gap-2" {...props}>
-                      <span className="mt-1.5 w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0"></span>
-                      <div>{props.children}</div>
-                    </li>
-                  ),
-                  blockquote: (props) => (
-                    <blockquote className="border-l-4 border-blue-500 bg-blue-500/5 px-4 py-2 rounded-r-lg my-6 not-italic" {...props} />
-                  )
-                }}
-              >
-                {explanation.content}
-              </ReactMarkdown>
+              {explanation.content && <MarkdownContent content={explanation.content} />}
+
+              {explanation.sources && (
+                <SourceRanges
+                  filePath={selectedFile.path}
+                  ranges={explanation.sources}
+                  label={`Too long to read at once; explained from ${explanation.sources.length} sections:`}
+                />
+              )}
+
+              {explanation.streaming && (
+                <div className="flex items-center gap-3 mt-4 text-xs text-blue-300">
+                  <div className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                  Still writing...
+                  <button onClick={() => cancelGeneration()} className="text-gray-500 hover:text-gray-300 transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {explanation.error && (
+                <GenerationErrorNotice
+                  error={explanation.error}
+                  partial={!!explanation.content}
+                  onRetry={() => discardExplanation(selectedFile.path)}
+                />
+              )}
+
+              {/* Cancelled: nothing was cached, so a retry asks again */}
+              {explanation.incomplete && !explanation.error && (
+                <div className="flex items-center gap-3 mt-6 p-3 rounded-lg border border-amber-500/30 bg-amber-900/10 text-sm text-amber-200">
+                  <span className="flex-1">
+                    {explanation.content ? 'This explanation is incomplete.' : 'The explanation was cancelled.'}
+                  </span>
+                  <button
+                    onClick={() => discardExplanation(selectedFile.path)}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-all"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
 
               {/* Separated Code Examples if any */}
               {explanation.codeSnippets && explanation.codeSnippets.length > 0 && (
@@ -308,6 +407,29 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
                 </div>
               )}
             </div>
+          ) : content && needsConfirmation(selectedFile.path, content) ? (
+            <div className="glass-panel p-6 rounded-xl border border-amber-500/30 bg-amber-900/10 max-w-xl mx-auto mt-10 text-center">
+              <h3 className="text-lg font-semibold text-amber-200 mb-2">Large file</h3>
+              <p className="text-sm text-gray-300 mb-1">
+                {selectedFile.name} is {formatBytes(content.length)} ({content.split('\n').length.toLocaleString()} lines).
+              </p>
+              <p className="text-sm text-gray-400 mb-5">
+                Explaining it will use about {estimateFileExplanationTokens(content).toLocaleString()} tokens.
+              </p>
+              <button
+                onClick={() => setConfirmedLarge(prev => ({ ...prev, [selectedFile.path]: true }))}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all"
+              >
+                Explain anyway
+              </button>
+            </div>
+          ) : explaining ? (
+            <div className="flex items-center justify-center gap-3 py-20 text-blue-300 text-sm font-medium">
+              <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+              {queuePositions[selectedFile.path]
+                ? `Waiting in the request queue (#${queuePositions[selectedFile.path]})...`
+                : 'Analyzing File...'}
+            </div>
           ) : (
             <div className="text-center py-20">
               <p className="text-gray-500">Explanation content unavailable.</p>
@@ -321,6 +443,7 @@ const ExplanationDisplay: React.FC<ExplanationDisplayProps> = ({ apiKey }) => {
                 filePath={selectedFile.path}
                 content={content}
                 apiKey={apiKey}
+                highlightRange={highlightRange}
               />
             </div>
           ) : (
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  AUDIENCE_OPTIONS,
+  ExplanationSettings,
+  LANGUAGE_SUGGESTIONS,
+  VERBOSITY_OPTIONS,
+  saveExplanationSettings
+} from '../services/explanationSettings';
+
+interface ExplanationStyleSettingsProps {
+  settings: ExplanationSettings;
+  onChange: (settings: ExplanationSettings) => void;
+}
+
+// Audience, length and output language of every explanation and answer;
+// saved in this browser
+const ExplanationStyleSettings: React.FC<ExplanationStyleSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [language, setLanguage] = useState(settings.language);
+
+  const update = (next: ExplanationSettings) => {
+    saveExplanationSettings(next);
+    onChange(next);
+  };
+
+  // Applied when the field is left, not on every keystroke
+  const applyLanguage = () => {
+    const trimmed = language.trim();
+    if (!trimmed) {
+      setLanguage(settings.language);
+    } else if (trimmed !== settings.language) {
+      update({ ...settings, language: trimmed });
+    }
+  };
+
+  const labelOf = <T extends string>(options: Array<{ value: T; label: string }>, value: T) =>
+    options.find(option => option.value === value)?.label || value;
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {open ? '▾' : '▸'} Explanations: {labelOf(AUDIENCE_OPTIONS, settings.audience)} · {labelOf(VERBOSITY_OPTIONS, settings.verbosity)} · {settings.language}
+      </button>
+
+      {open && (
+        <div className="mt-3 glass-panel p-4 rounded-xl border border-gray-700/50 space-y-3 animate-fade-in">
+          <div className="space-y-1.5">
+            <span className="text-xs text-gray-500">Written for</span>
+            <div className="flex gap-1.5">
+              {AUDIENCE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => update({ ...settings, audience: option.value })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-colors ${settings.audience === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-gray-500">Length</span>
+            <div className="flex gap-1.5">
+              {VERBOSITY_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => update({ ...settings, verbosity: option.value })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs transition-colors ${settings.verbosity === option.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <span className="text-xs text-gray-500 whitespace-nowrap">Language</span>
+            <input
+              type="text"
+              list="explanation-language-suggestions"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              onBlur={applyLanguage}
+              onKeyDown={(e) => e.key === 'Enter' && applyLanguage()}
+              placeholder="English"
+              className="flex-1 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50"
+            />
+            <datalist id="explanation-language-suggestions">
+              {LANGUAGE_SUGGESTIONS.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Changing these explains the open file again; answers for each combination are cached separately. Code and identifiers stay as written.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExplanationStyleSettings;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { useExplanations } from '../contexts/ExplanationContext';
+import { FileCommit, PullRequestFile } from '../services/providers/types';
+import DiffViewer from './DiffViewer';
+import MarkdownContent from './MarkdownContent';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+interface FileHistoryProps {
+  filePath: string;
+}
+
+// How many of the newest commits get their diffs sent with the summary prompt
+const RECENT_DIFFS_FOR_SUMMARY = 2;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+const FileHistory: React.FC<FileHistoryProps> = ({ filePath }) => {
+  const { repo, provider } = useRepo();
+  const { historySummaries, generateHistorySummary } = useExplanations();
+  const [commits, setCommits] = useState<FileCommit[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSha, setSelectedSha] = useState<string | null>(null);
+  // Diffs by commit SHA; null when the commit didn't change this path
+  const [diffs, setDiffs] = useState<Record<string, PullRequestFile | null>>({});
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  const supported = !!provider?.listFileCommits && !!provider?.getCommitFileDiff;
+
+  useEffect(() => {
+    if (!repo || !provider?.listFileCommits) return;
+
+    let cancelled = false;
+    setCommits(null);
+    setSelectedSha(null);
+    setDiffs({});
+    setError(null);
+    setLoading(true);
+
+    provider.listFileCommits(repo, filePath, repo.commit_sha || repo.default_branch || 'main')
+      .then(result => {
+        if (!cancelled) setCommits(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the file history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repo, provider, filePath]);
+
+  const summarize = (retry = false) => {
+    if (!repo || !provider?.getCommitFileDiff || !commits || commits.length === 0) return;
+
+    // The commit that introduced the file plus the latest changes
+    const keyCommits = Array.from(new Set([...commits.slice(0, RECENT_DIFFS_FOR_SUMMARY), commits[commits.length - 1]]));
+
+    generateHistorySummary(filePath, commits, async () => {
+      const results = await Promise.all(keyCommits.map(async commit => ({
+        commit,
+        diff: await provider.getCommitFileDiff!(repo, commit.sha, filePath, { priority: 'background' }),
+      })));
+      return results.filter((r): r is { commit: FileCommit; diff: PullRequestFile } => r.diff !== null);
+    }, retry);
+  };
+
+  useEffect(() => {
+    summarize();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commits]);
+
+  const selectCommit = async (sha: string) => {
+    setSelectedSha(sha);
+    if (!repo || !provider?.getCommitFileDiff || sha in diffs) return;
+
+    setLoadingDiff(true);
+    try {
+      const diff = await provider.getCommitFileDiff(repo, sha, filePath);
+      setDiffs(prev => ({ ...prev, [sha]: diff }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the diff');
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  if (!supported) {
+    return (
+      <div className="text-center py-20 text-gray-500">
+        <p>No git history is available for this source.</p>
+      </div>
+    );
+  }
+
+  const summary = historySummaries[filePath];
+  const selectedDiff = selectedSha ? diffs[selectedSha] : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel p-5 rounded-xl border border-blue-500/20 bg-blue-900/5">
+        <h3 className="text-sm font-semibold text-blue-300 mb-3 flex items-center gap-2">
+          <span className="text-lg">🕰️</span> How this file evolved
+        </h3>
+        {summary?.error ? (
+          <GenerationErrorNotice error={summary.error} onRetry={() => summarize(true)} />
+        ) : summary ? (
+          <div className="prose prose-invert max-w-none prose-headings:font-bold prose-headings:tracking-tight prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+            <MarkdownContent content={summary.content} />
+          </div>
+        ) : commits && commits.length === 0 ? (
+          <p className="text-sm text-gray-500">No commits found for this file.</p>
+        ) : (
+          <div className="flex items-center gap-3 text-blue-300 text-sm font-medium">
+            <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+            Reading the history...
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="px-4 py-2 text-sm text-red-300 bg-red-900/20 rounded-lg">{error}</p>
+      )}
+
+      {loading && (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+          Loading commits...
+        </div>
+      )}
+
+      {commits && commits.length > 0 && (
+        <div className="bg-github-dark-bg-secondary rounded-lg border border-github-dark-border divide-y divide-gray-800">
+          {commits.map(commit => (
+            <button
+              key={commit.sha}
+              onClick={() => selectCommit(commit.sha)}
+              className={`w-full flex items-start gap-3 px-4 py-3 text-left transition-colors ${selectedSha === commit.sha ? 'bg-blue-500/10' : 'hover:bg-gray-800/60'}`}
+            >
+              <span className="font-mono text-xs text-blue-400 mt-0.5">{commit.sha.substring(0, 7)}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-gray-200 truncate">{commit.message.split('\n')[0]}</span>
+                <span className="block text-xs text-gray-500 mt-0.5">
+                  {commit.author} • {formatDate(commit.date)}
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedSha && (
+        loadingDiff && selectedDiff === undefined ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+            Loading diff...
+          </div>
+        ) : selectedDiff ? (
+          <DiffViewer
+            fileName={selectedDiff.path}
+            patch={selectedDiff.patch}
+            additions={selectedDiff.additions}
+            deletions={selectedDiff.deletions}
+            previousPath={selectedDiff.previous_path}
+          />
+        ) : selectedDiff === null ? (
+          <p className="text-sm text-gray-500">This commit has no changes to show for this file.</p>
+        ) : null
+      )}
+    </div>
+  );
+};
+
+export default FileHistory;
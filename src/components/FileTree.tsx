@@ -1,16 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { GitHubFile } from '../services/githubApi';
+import { SourceFile } from '../services/providers/types';
 import { useRepo } from '../contexts/RepoContext';
+import { findTreeNode, treeNodeToFile } from '../services/treeLoader';
+import { WorkspacePackage, getDependents, getPackageScope } from '../services/workspaces';
 
 interface FileTreeItemProps {
-  file: GitHubFile;
+  file: SourceFile;
   level: number;
   expandedDirs: Set<string>;
   loadingDirs: Set<string>;
-  dirContents: Record<string, GitHubFile[]>;
-  onToggle: (file: GitHubFile) => void;
-  onFileClick: (file: GitHubFile) => void;
-  selectedFile: GitHubFile | null;
+  dirContents: Record<string, SourceFile[]>;
+  onToggle: (file: SourceFile) => void;
+  onFileClick: (file: SourceFile) => void;
+  selectedFile: SourceFile | null;
+  // Package root directories, marked with a package icon
+  packageRoots?: Set<string>;
+  // Shown instead of the file name, e.g. a package name
+  label?: string;
+  actions?: React.ReactNode;
 }
 
 const FileTreeItem: React.FC<FileTreeItemProps> = ({
@@ -22,14 +29,18 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
   onToggle,
   onFileClick,
   selectedFile,
+  packageRoots,
+  label,
+  actions,
 }) => {
   const isExpanded = expandedDirs.has(file.path);
   const isLoading = loadingDirs.has(file.path);
   const isSelected = selectedFile?.path === file.path;
 
-  const getIcon = (file: GitHubFile) => {
+  const getIcon = (file: SourceFile) => {
     if (file.type === 'dir') {
       if (isLoading) return '⏳';
+      if (packageRoots?.has(file.path)) return '📦';
       return isExpanded ? '📂' : '📁';
     }
 
@@ -88,8 +99,9 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
           {getIcon(file)}
         </span>
         <span className={`text-sm truncate flex-1 font-medium ${isSelected ? 'text-blue-400' : ''}`}>
-          {file.name}
+          {label || file.name}
         </span>
+        {actions}
         {isLoading && (
           <div className="ml-auto flex items-center space-x-1">
             <div className="w-1 h-1 bg-blue-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
@@ -122,6 +134,7 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
               onToggle={onToggle}
               onFileClick={onFileClick}
               selectedFile={selectedFile}
+              packageRoots={packageRoots}
             />
           ))}
         </div>
@@ -141,18 +154,51 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
 };
 
 const FileTree: React.FC = () => {
-  const { repo, selectedFile, fetchDirectoryContents, fetchFileContent } = useRepo();
+  const { repo, selectedFile, target, workspace, packageScope, setPackageScope, fetchDirectoryContents, fetchFileContent } = useRepo();
   const [expandedDirs, setExpandedDirs] = useState<Set<string>>(new Set());
   const [loadingDirs, setLoadingDirs] = useState<Set<string>>(new Set());
-  const [dirContents, setDirContents] = useState<Record<string, GitHubFile[]>>({});
+  const [dirContents, setDirContents] = useState<Record<string, SourceFile[]>>({});
 
   useEffect(() => {
     if (repo) {
+      // A new repo or ref means a new snapshot: drop what was expanded before
       setDirContents({ '': repo.files });
+      setExpandedDirs(new Set());
     }
   }, [repo]);
 
-  const toggleDir = async (dir: GitHubFile) => {
+  // Expand down to a deep-linked path and open it if it is a file
+  useEffect(() => {
+    if (!repo || !target) return;
+
+    const segments = target.path.split('/');
+    const ancestors = segments.slice(0, -1).map((_, i) => segments.slice(0, i + 1).join('/'));
+    const dirsToOpen = target.type === 'dir' ? [...ancestors, target.path] : ancestors;
+
+    const reveal = async () => {
+      const loaded: Record<string, SourceFile[]> = {};
+      for (const dirPath of dirsToOpen) {
+        loaded[dirPath] = await fetchDirectoryContents({ name: dirPath.split('/').pop() || dirPath, path: dirPath, type: 'dir' });
+      }
+
+      setDirContents(prev => ({ ...prev, ...loaded }));
+      setExpandedDirs(prev => {
+        const newSet = new Set(prev);
+        dirsToOpen.forEach(dirPath => newSet.add(dirPath));
+        return newSet;
+      });
+
+      if (target.type === 'file') {
+        const node = repo.tree ? findTreeNode(repo.tree.root, target.path) : null;
+        await fetchFileContent(node ? treeNodeToFile(node) : { name: segments[segments.length - 1], path: target.path, type: 'file' });
+      }
+    };
+
+    reveal();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo, target]);
+
+  const toggleDir = async (dir: SourceFile) => {
     console.log('Toggle directory:', dir.path, 'Currently expanded:', expandedDirs.has(dir.path));
 
     if (expandedDirs.has(dir.path)) {
@@ -190,9 +236,66 @@ const FileTree: React.FC = () => {
     return null;
   }
 
+  const packageRoots = new Set((workspace?.packages || []).map(pkg => pkg.path));
+  // While scoped, only the package and its dependents are listed
+  const listedPackages = workspace && packageScope ? getPackageScope(workspace, packageScope) : workspace?.packages || [];
+
+  const renderPackage = (pkg: WorkspacePackage) => {
+    const isScope = pkg.name === packageScope;
+    const dependents = workspace ? getDependents(workspace, pkg.name).length : 0;
+
+    return (
+      <FileTreeItem
+        key={`package:${pkg.path}`}
+        file={{ name: pkg.path.split('/').pop() || repo.name, path: pkg.path, type: 'dir' }}
+        level={0}
+        expandedDirs={expandedDirs}
+        loadingDirs={loadingDirs}
+        dirContents={dirContents}
+        onToggle={toggleDir}
+        onFileClick={fetchFileContent}
+        selectedFile={selectedFile}
+        packageRoots={packageRoots}
+        label={pkg.name}
+        actions={
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setPackageScope(isScope ? null : pkg.name);
+            }}
+            className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-mono border transition-colors ${isScope
+              ? 'bg-blue-500/20 text-blue-300 border-blue-500/30'
+              : 'text-gray-500 border-gray-700 opacity-0 group-hover:opacity-100 hover:text-gray-300'
+              }`}
+            title={isScope ? 'Show the whole repository again' : `Scope explanations and the diagram to ${pkg.name} and its ${dependents} internal dependents`}
+          >
+            {isScope ? 'scoped' : 'scope'}
+          </button>
+        }
+      />
+    );
+  };
+
   return (
     <div className="select-none">
-      {rootFiles.map((file) => (
+      {workspace && (
+        <div className="mb-3 pb-3 border-b border-gray-800">
+          <div className="flex items-center justify-between px-3 py-1">
+            <span className="text-xs uppercase tracking-wide text-gray-500 font-semibold">
+              Packages <span className="normal-case font-normal font-mono">· {workspace.tools.join(', ')}</span>
+            </span>
+            {packageScope && (
+              <button onClick={() => setPackageScope(null)} className="text-xs text-blue-400 hover:text-blue-300">
+                Show all
+              </button>
+            )}
+          </div>
+          {listedPackages.map(renderPackage)}
+        </div>
+      )}
+
+      {/* The full tree is hidden while a package scope is active */}
+      {!packageScope && rootFiles.map((file) => (
         <FileTreeItem
           key={file.path}
           file={file}
@@ -203,6 +306,7 @@ const FileTree: React.FC = () => {
           onToggle={toggleDir}
           onFileClick={fetchFileContent}
           selectedFile={selectedFile}
+          packageRoots={packageRoots}
         />
       ))}
     </div>
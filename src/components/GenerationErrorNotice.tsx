@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { GenerationErrorKind, GenerationFailure } from '../services/llm';
+
+interface GenerationErrorNoticeProps {
+  error: GenerationFailure;
+  onRetry: () => void;
+  // Whether text arrived before the failure (and is shown above the notice)
+  partial?: boolean;
+}
+
+const NOTICES: Record<GenerationErrorKind, { title: string; hint: string }> = {
+  rate_limited: {
+    title: 'Rate limited',
+    hint: 'The AI provider is receiving too many requests from this key. Requests are paced, so waiting a moment usually fixes it.',
+  },
+  quota_exhausted: {
+    title: 'Quota used up',
+    hint: 'The API key has used its quota or credit. Wait for it to reset, raise it with the provider, or switch provider on the home screen.',
+  },
+  invalid_key: {
+    title: 'API key rejected',
+    hint: 'The provider did not accept the API key, or it has no access to the selected model.',
+  },
+  safety_blocked: {
+    title: 'Blocked by safety filters',
+    hint: 'The provider refused to answer. Rephrasing the question or choosing another model may help.',
+  },
+  network: {
+    title: 'Could not reach the AI provider',
+    hint: 'Check your connection. A local Ollama must be running and allow this origin (OLLAMA_ORIGINS).',
+  },
+  malformed: {
+    title: 'Unreadable response',
+    hint: 'The model answered, but not in a usable form. Trying again usually works.',
+  },
+  budget_exceeded: {
+    title: 'Daily token budget reached',
+    hint: 'Raise or clear the budget in the usage panel at the bottom of the sidebar.',
+  },
+  unknown: {
+    title: 'Generation failed',
+    hint: 'Something went wrong while generating.',
+  },
+};
+
+// What went wrong with an AI request and how to recover, in place of the
+// answer. Nothing failed is cached, so Retry always asks the model again.
+const GenerationErrorNotice: React.FC<GenerationErrorNoticeProps> = ({ error, onRetry, partial }) => {
+  const { resetRepo } = useRepo();
+  const notice = NOTICES[error.kind];
+  const retryAt = error.retryAfter !== null ? error.at + error.retryAfter * 1000 : 0;
+  const [now, setNow] = useState(() => Date.now());
+  const wait = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+  // Counts down to the time the provider asked us to wait for
+  useEffect(() => {
+    if (retryAt <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-red-500/30 bg-red-900/10 text-sm">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-red-200">
+            {notice.title}{partial && <span className="font-normal text-red-300/80"> — the answer above was cut off</span>}
+          </p>
+          <p className="mt-1 text-gray-300">{notice.hint}</p>
+          <p className="mt-2 text-xs text-gray-500 font-mono break-words">{error.message}</p>
+        </div>
+        <div className="flex flex-col gap-2 shrink-0">
+          <button
+            onClick={onRetry}
+            disabled={wait > 0}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-500 transition-all"
+          >
+            {wait > 0 ? `Retry in ${wait}s` : 'Retry'}
+          </button>
+          {error.kind === 'invalid_key' && (
+            <button
+              onClick={() => resetRepo()}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-800 hover:bg-gray-700 text-gray-300 transition-all"
+            >
+              Change key
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationErrorNotice;
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { githubClient, RateLimitBudget } from '../services/githubClient';
+
+// Remaining GitHub API quota, shown in the header once the first response has reported it
+const GitHubQuotaBadge: React.FC = () => {
+  const [budget, setBudget] = useState<RateLimitBudget | null>(() => githubClient.getBudget());
+
+  useEffect(() => githubClient.subscribe(setBudget), []);
+
+  if (!budget) {
+    return null;
+  }
+
+  const ratio = budget.limit > 0 ? budget.remaining / budget.limit : 0;
+  const tone = ratio > 0.25
+    ? 'text-gray-300 border-gray-600/40'
+    : ratio > 0.05
+      ? 'text-amber-300 border-amber-500/30'
+      : 'text-red-300 border-red-500/30';
+  const resetTime = new Date(budget.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div
+      className={`flex items-center px-4 py-2 rounded-full glass-input text-xs font-medium font-mono backdrop-blur-md ${tone}`}
+      title={`GitHub API requests left this hour. Resets at ${resetTime}.`}
+    >
+      GitHub {budget.remaining.toLocaleString()}/{budget.limit.toLocaleString()}
+      {budget.deferred > 0 && (
+        <span className="ml-2 text-amber-300">• {budget.deferred} waiting until {resetTime}</span>
+      )}
+    </div>
+  );
+};
+
+export default GitHubQuotaBadge;
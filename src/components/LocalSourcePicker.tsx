@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { createProviderFromDrop, createProviderFromFileList, createProviderFromZip } from '../services/localSource';
+
+interface LocalSourcePickerProps {
+  disabled: boolean;
+}
+
+// Drop zone and pickers for code that isn't on any host. Files are read in
+// the browser; only the snippets sent for explanation leave the machine.
+const LocalSourcePicker: React.FC<LocalSourcePickerProps> = ({ disabled }) => {
+  const { openLocalSource } = useRepo();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  // webkitdirectory is not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    folderInputRef.current?.setAttribute('directory', '');
+  }, []);
+
+  const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (fileList && fileList.length > 0) {
+      openLocalSource(async () => createProviderFromFileList(fileList));
+    }
+    e.target.value = '';
+  };
+
+  const handleZip = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const zipFile = e.target.files?.[0];
+    if (zipFile) {
+      openLocalSource(() => createProviderFromZip(zipFile));
+    }
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+
+    // The drop's entries are only readable during this event, so the
+    // provider starts reading them right away
+    const loading = createProviderFromDrop(e.dataTransfer);
+    openLocalSource(() => loading);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`mt-4 p-5 rounded-2xl border-2 border-dashed text-center transition-colors ${dragging
+        ? 'border-blue-500/60 bg-blue-500/5'
+        : 'border-gray-700/60'
+        } ${disabled ? 'opacity-50' : ''}`}
+    >
+      <p className="text-sm text-gray-400">
+        No remote? Drop a folder or a <span className="font-mono">.zip</span> here
+      </p>
+      <p className="text-xs text-gray-600 mt-1">Unpacked in your browser; only the code being explained is sent to the AI</p>
+
+      <div className="mt-4 flex justify-center gap-2">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => folderInputRef.current?.click()}
+          className="px-4 py-2 rounded-lg text-xs font-semibold bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:cursor-not-allowed disabled:hover:bg-gray-800 transition-colors"
+        >
+          📁 Choose folder
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => zipInputRef.current?.click()}
+          className="px-4 py-2 rounded-lg text-xs font-semibold bg-gray-800 hover:bg-gray-700 text-gray-200 disabled:cursor-not-allowed disabled:hover:bg-gray-800 transition-colors"
+        >
+          🗜️ Upload .zip
+        </button>
+      </div>
+
+      <input ref={folderInputRef} type="file" multiple onChange={handleFolder} className="hidden" />
+      <input ref={zipInputRef} type="file" accept=".zip,application/zip" onChange={handleZip} className="hidden" />
+
+      {disabled && (
+        <p className="text-xs text-amber-300/80 mt-3">Enter your AI provider API key first</p>
+      )}
+    </div>
+  );
+};
+
+export default LocalSourcePicker;
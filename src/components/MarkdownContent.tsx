@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import { Citation } from '../services/geminiApi';
+
+type CodeProps = React.ComponentPropsWithoutRef<'code'> & ExtraProps;
+
+// Custom styled code blocks
+const CodeElement: React.FC<CodeProps> = ({ node, className, children, ...props }) => {
+  const isInline = typeof children === 'string' && !children.includes('\n');
+  return isInline ? (
+    <code className="bg-blue-500/10 text-blue-300 px-1.5 py-0.5 rounded text-sm font-mono border border-blue-500/20" {...props}>
+      {children}
+    </code>
+  ) : (
+    <div className="relative group my-6">
+      <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity blur"></div>
+      <code className="block bg-[#161b22] text-gray-300 p-5 rounded-xl border border-gray-700/50 overflow-x-auto text-sm font-mono shadow-sm relative" {...props}>
+        {children}
+      </code>
+    </div>
+  );
+};
+
+// `path:start-end` (or `path:line`) as the repo-wide answers cite code
+const CITATION_PATTERN = /^([^\s:]+):(\d+)(?:\s*[-–]\s*(\d+))?$/;
+
+const parseCitation = (text: string): Citation | null => {
+  const match = text.trim().match(CITATION_PATTERN);
+  if (!match) return null;
+  const start = parseInt(match[2], 10);
+  return { path: match[1], start, end: match[3] ? Math.max(start, parseInt(match[3], 10)) : start };
+};
+
+// Element styling shared by every AI-generated markdown response
+const markdownComponents: Components = {
+  code: CodeElement,
+  // Styling other elements
+  h1: (props) => <h1 className="text-3xl border-b border-gray-800 pb-2 mb-6" {...props} />,
+  h2: (props) => <h2 className="text-2xl mt-8 mb-4 flex items-center gap-2" {...props} />,
+  ul: (props) => <ul className="space-y-2 my-4" {...props} />,
+  li: (props) => (
+    <li className="flex items-start gap-2" {...props}>
+      <span className="mt-1.5 w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0"></span>
+      <div>{props.children}</div>
+    </li>
+  ),
+  blockquote: (props) => (
+    <blockquote className="border-l-4 border-blue-500 bg-blue-500/5 px-4 py-2 rounded-r-lg my-6 not-italic" {...props} />
+  )
+};
+
+interface MarkdownContentProps {
+  content: string;
+  // Files the answer may cite; inline `path:start-end` code naming one of
+  // them becomes a link handled by onCite
+  citedPaths?: string[];
+  onCite?: (citation: Citation) => void;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, citedPaths, onCite }) => {
+  const components = useMemo<Components>(() => {
+    if (!citedPaths || !onCite) return markdownComponents;
+    return {
+      ...markdownComponents,
+      code: (props: CodeProps) => {
+        const citation = typeof props.children === 'string' ? parseCitation(props.children) : null;
+        if (!citation || !citedPaths.includes(citation.path)) {
+          return <CodeElement {...props} />;
+        }
+        return (
+          <button
+            type="button"
+            onClick={() => onCite(citation)}
+            className="bg-blue-500/10 text-blue-300 hover:text-blue-200 hover:bg-blue-500/20 px-1.5 py-0.5 rounded text-sm font-mono border border-blue-500/30 transition-colors"
+            title="Show these lines in the code view"
+          >
+            {props.children}
+          </button>
+        );
+      },
+    };
+  }, [citedPaths, onCite]);
+
+  return <ReactMarkdown components={components}>{content}</ReactMarkdown>;
+};
+
+export default MarkdownContent;
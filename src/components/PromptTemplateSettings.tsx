@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import {
+  DEFAULT_EXTENSION_TEMPLATES,
+  INSTRUCTION_TEMPLATE_IDS,
+  InstructionTemplateId,
+  PROMPT_TEMPLATES,
+  PromptTemplateId,
+  exportPromptLibrary,
+  getCustomExtensionTemplates,
+  getPromptTemplate,
+  getTemplateOverrides,
+  getTemplateText,
+  importPromptLibrary,
+  saveCustomExtensionTemplates,
+  saveTemplateOverride
+} from '../services/promptTemplates';
+
+const templateLabel = (id: PromptTemplateId) => getPromptTemplate(id).label.replace(/^Instructions: /, '');
+
+// Placeholders in the text that the template does not fill
+const unknownVariables = (id: PromptTemplateId, text: string): string[] => {
+  const known = getPromptTemplate(id).variables;
+  const found = (text.match(/\{([A-Za-z][A-Za-z0-9]*)\}/g) || []).map(match => match.slice(1, -1));
+  return Array.from(new Set(found.filter(name => !(name in known))));
+};
+
+// Built-in extensions grouped by the instructions they map to
+const defaultMappingGroups = INSTRUCTION_TEMPLATE_IDS
+  .map(id => ({ id, extensions: Object.keys(DEFAULT_EXTENSION_TEMPLATES).filter(ext => DEFAULT_EXTENSION_TEMPLATES[ext] === id) }))
+  .filter(group => group.extensions.length > 0);
+
+// View and override the prompt sent for each kind of request, map file
+// extensions to the instructions used for them, and move both between browsers
+const PromptTemplateSettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [overrides, setOverrides] = useState(() => getTemplateOverrides());
+  const [selected, setSelected] = useState<PromptTemplateId>('file');
+  const [draft, setDraft] = useState(() => getTemplateText('file'));
+  const [mappings, setMappings] = useState(() => getCustomExtensionTemplates());
+  const [extension, setExtension] = useState('');
+  const [mappedTo, setMappedTo] = useState<InstructionTemplateId>('instructions_code');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const template = getPromptTemplate(selected);
+  const customized = overrides[selected] !== undefined;
+  const dirty = draft !== getTemplateText(selected);
+  const unknown = unknownVariables(selected, draft);
+
+  const select = (id: PromptTemplateId) => {
+    setSelected(id);
+    setDraft(getTemplateText(id));
+  };
+
+  const saveTemplate = (text: string | null) => {
+    saveTemplateOverride(selected, text);
+    setOverrides(getTemplateOverrides());
+    setDraft(getTemplateText(selected));
+  };
+
+  const updateMappings = (next: Record<string, InstructionTemplateId>) => {
+    saveCustomExtensionTemplates(next);
+    setMappings(getCustomExtensionTemplates());
+  };
+
+  const handleAddMapping = () => {
+    const ext = extension.trim().replace(/^\./, '').toLowerCase();
+    if (!ext) return;
+    updateMappings({ ...mappings, [ext]: mappedTo });
+    setExtension('');
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportPromptLibrary()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'explainhub-prompts.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importPromptLibrary(await file.text());
+      setOverrides(getTemplateOverrides());
+      setMappings(getCustomExtensionTemplates());
+      setDraft(getTemplateText(selected));
+      setNotice(`Imported ${result.templates} template${result.templates === 1 ? '' : 's'} and ${result.extensions} extension mapping${result.extensions === 1 ? '' : 's'}${result.skipped.length > 0 ? `; skipped ${result.skipped.join(', ')}` : ''}.`);
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Import failed.');
+    }
+  };
+
+  const customCount = Object.keys(overrides).length + Object.keys(mappings).length;
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {open ? '▾' : '▸'} Prompt templates {customCount > 0 && `(${customCount} customized)`}
+      </button>
+
+      {open && (
+        <div className="mt-3 glass-panel p-4 rounded-xl border border-gray-700/50 space-y-4 animate-fade-in">
+          <div className="space-y-2">
+            <select
+              value={selected}
+              onChange={(e) => select(e.target.value as PromptTemplateId)}
+              className="w-full px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50"
+            >
+              {PROMPT_TEMPLATES.map(t => (
+                <option key={t.id} value={t.id}>
+                  {t.label}{overrides[t.id] !== undefined ? ' (customized)' : ''}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">{template.description}</p>
+            {Object.keys(template.variables).length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(template.variables).map(([name, description]) => (
+                  <code
+                    key={name}
+                    title={description}
+                    className="px-1.5 py-0.5 rounded bg-gray-800/70 text-[11px] text-blue-300 cursor-help"
+                  >
+                    {`{${name}}`}
+                  </code>
+                ))}
+              </div>
+            )}
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={12}
+              spellCheck={false}
+              className="w-full px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50 font-mono leading-relaxed"
+            />
+            {unknown.length > 0 && (
+              <p className="text-xs text-amber-300">
+                Not a variable of this template, sent as written: {unknown.map(name => `{${name}}`).join(', ')}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => saveTemplate(draft)}
+                disabled={!dirty}
+                className="px-4 py-2 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-500 transition-colors"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => saveTemplate(null)}
+                disabled={!customized && !dirty}
+                className="px-4 py-2 rounded-lg text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:text-gray-600 disabled:hover:bg-gray-800 transition-colors"
+              >
+                Reset to built-in
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-gray-800">
+            <p className="text-xs text-gray-400">File explanations use the instructions mapped to the file extension</p>
+
+            {Object.entries(mappings).map(([ext, id]) => (
+              <div key={ext} className="flex items-center justify-between px-3 py-2 rounded-lg bg-github-dark-bg/50 text-xs">
+                <span className="font-mono text-gray-300 truncate">
+                  .{ext} <span className="text-gray-500">→</span> <span className="text-blue-400">{templateLabel(id)}</span>
+                  {DEFAULT_EXTENSION_TEMPLATES[ext] && (
+                    <span className="text-gray-600"> (instead of {templateLabel(DEFAULT_EXTENSION_TEMPLATES[ext])})</span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateMappings(Object.fromEntries(Object.entries(mappings).filter(([key]) => key !== ext)))}
+                  className="ml-3 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Remove mapping"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={extension}
+                onChange={(e) => setExtension(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddMapping()}
+                placeholder=".ext"
+                className="w-24 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+              />
+              <select
+                value={mappedTo}
+                onChange={(e) => setMappedTo(e.target.value as InstructionTemplateId)}
+                className="flex-1 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50"
+              >
+                {INSTRUCTION_TEMPLATE_IDS.map(id => (
+                  <option key={id} value={id}>{templateLabel(id)}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAddMapping}
+                disabled={!extension.trim()}
+                className="px-4 py-2 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-500 transition-colors"
+              >
+                Map
+              </button>
+            </div>
+
+            <details className="text-xs text-gray-500">
+              <summary className="cursor-pointer hover:text-gray-300">Built-in mappings</summary>
+              <ul className="mt-2 space-y-1">
+                {defaultMappingGroups.map(group => (
+                  <li key={group.id}>
+                    <span className="text-gray-400">{templateLabel(group.id)}:</span>{' '}
+                    <span className="font-mono">{group.extensions.map(ext => `.${ext}`).join(' ')}</span>
+                  </li>
+                ))}
+                <li><span className="text-gray-400">{templateLabel('instructions_default')}:</span> everything else</li>
+              </ul>
+            </details>
+          </div>
+
+          <div className="flex items-center gap-2 pt-3 border-t border-gray-800">
+            <button
+              type="button"
+              onClick={handleExport}
+              className="px-3 py-1.5 rounded-lg text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+            >
+              Export
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 rounded-lg text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+            >
+              Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            <span className="text-xs text-gray-600">Exports hold your changes only; imports merge into them.</span>
+          </div>
+          {notice && <p className="text-xs text-gray-400">{notice}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { PullRequestFile, SourceFile } from '../services/providers/types';
+
+const STATUS_BADGES: Record<PullRequestFile['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  modified: { label: 'M', className: 'text-amber-400' },
+  removed: { label: 'D', className: 'text-red-400' },
+  renamed: { label: 'R', className: 'text-blue-400' },
+};
+
+// Sidebar list of the files a pull request changes, above the full tree
+const PullRequestFiles: React.FC = () => {
+  const { pullRequest, selectedFile, setSelectedFile, fetchFileContent } = useRepo();
+
+  if (!pullRequest) {
+    return null;
+  }
+
+  const openFile = (file: PullRequestFile) => {
+    const sourceFile: SourceFile = { name: file.path.split('/').pop() || file.path, path: file.path, type: 'file' };
+
+    // Deleted files are gone at the head commit; their diff is all there is
+    if (file.status === 'removed') {
+      setSelectedFile(sourceFile);
+    } else {
+      fetchFileContent(sourceFile);
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-800 p-2">
+      <button
+        onClick={() => setSelectedFile(null)}
+        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-sm transition-colors ${!selectedFile
+          ? 'bg-blue-500/10 text-blue-300'
+          : 'text-gray-300 hover:bg-gray-800'
+          }`}
+      >
+        <span>🔀</span>
+        <span className="truncate font-medium">#{pullRequest.number} {pullRequest.title}</span>
+      </button>
+
+      <p className="px-2 pt-3 pb-1 text-[10px] uppercase tracking-wide text-gray-600 font-semibold">
+        Changed files ({pullRequest.files.length})
+      </p>
+
+      <div className="max-h-64 overflow-auto scrollbar-thin scrollbar-thumb-gray-800">
+        {pullRequest.files.map(file => {
+          const badge = STATUS_BADGES[file.status];
+          return (
+            <button
+              key={file.path}
+              onClick={() => openFile(file)}
+              title={file.previous_path ? `${file.previous_path} → ${file.path}` : file.path}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs font-mono transition-colors ${selectedFile?.path === file.path
+                ? 'bg-blue-500/10 text-blue-300'
+                : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'
+                }`}
+            >
+              <span className={`w-3 font-bold ${badge.className}`}>{badge.label}</span>
+              <span className="flex-1 truncate">{file.path}</span>
+              <span className="text-green-500/80">+{file.additions}</span>
+              <span className="text-red-500/80">-{file.deletions}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PullRequestFiles;
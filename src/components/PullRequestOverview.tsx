@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { useExplanations } from '../contexts/ExplanationContext';
+import MarkdownContent from './MarkdownContent';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+// Landing view of pull request review mode: what the PR is and the AI narrative
+const PullRequestOverview: React.FC = () => {
+  const { pullRequest } = useRepo();
+  const { prNarrative, reviewing, generatePullRequestOverview } = useExplanations();
+
+  useEffect(() => {
+    if (pullRequest && !prNarrative) {
+      generatePullRequestOverview();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pullRequest, prNarrative]);
+
+  if (!pullRequest) {
+    return null;
+  }
+
+  const additions = pullRequest.files.reduce((sum, f) => sum + f.additions, 0);
+  const deletions = pullRequest.files.reduce((sum, f) => sum + f.deletions, 0);
+
+  return (
+    <div className="p-6 md:p-8 max-w-5xl mx-auto">
+      <div className="mb-8 p-6 glass-panel rounded-2xl border border-gray-700/50">
+        <div className="flex items-start gap-4">
+          <div className="w-12 h-12 rounded-xl bg-blue-500/20 flex items-center justify-center text-2xl border border-blue-500/30">
+            🔀
+          </div>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold text-white mb-1">
+              {pullRequest.title} <span className="text-gray-500 font-normal">#{pullRequest.number}</span>
+            </h2>
+            <p className="text-sm text-gray-400">
+              <span className="text-gray-200">{pullRequest.author}</span> wants to merge{' '}
+              <span className="font-mono text-blue-300 bg-blue-900/20 px-1.5 py-0.5 rounded">{pullRequest.head_ref}</span> into{' '}
+              <span className="font-mono text-blue-300 bg-blue-900/20 px-1.5 py-0.5 rounded">{pullRequest.base_ref}</span>
+            </p>
+            <p className="mt-2 text-xs text-gray-500 font-mono">
+              {pullRequest.files.length} files • <span className="text-green-400">+{additions}</span>{' '}
+              <span className="text-red-400">-{deletions}</span> • head {pullRequest.head_sha.substring(0, 7)} •{' '}
+              <a href={pullRequest.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+                open on host
+              </a>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {prNarrative?.error ? (
+        <GenerationErrorNotice error={prNarrative.error} onRetry={() => generatePullRequestOverview(true)} />
+      ) : prNarrative ? (
+        <div className="prose prose-invert max-w-none prose-headings:font-bold prose-headings:tracking-tight prose-p:text-gray-300 prose-a:text-blue-400 hover:prose-a:text-blue-300 prose-code:text-blue-300 prose-strong:text-white">
+          <MarkdownContent content={prNarrative.content} />
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-blue-300 text-sm font-medium animate-pulse">
+          <div className="w-5 h-5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+          {reviewing ? 'Reading the pull request...' : 'Preparing the review...'}
+        </div>
+      )}
+
+      <p className="mt-10 text-xs text-gray-500">
+        Pick a changed file in the sidebar for its change summary, risk assessment and diff.
+      </p>
+    </div>
+  );
+};
+
+export default PullRequestOverview;
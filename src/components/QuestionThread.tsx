@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useExplanations } from '../contexts/ExplanationContext';
+import MarkdownContent from './MarkdownContent';
+import SourceRanges from './SourceRanges';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+interface QuestionThreadProps {
+  filePath: string;
+  fileContent: string;
+}
+
+// The conversation about one file: questions can be edited and answers
+// regenerated, which drops the turns after them
+const QuestionThread: React.FC<QuestionThreadProps> = ({ filePath, fileContent }) => {
+  const { threads, generating, queuePositions, editThreadMessage, regenerateThreadMessage, clearThread } = useExplanations();
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const thread = threads[filePath];
+
+  if (!thread || thread.messages.length === 0) return null;
+
+  const saveEdit = () => {
+    if (!editing || !editing.text.trim()) return;
+    editThreadMessage(filePath, editing.id, editing.text.trim(), fileContent);
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-8 glass-panel p-5 rounded-xl border border-blue-500/20 bg-blue-900/5 relative overflow-hidden animate-fade-in">
+      <div className="absolute top-0 left-0 w-1 h-full bg-blue-500"></div>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-semibold text-blue-300 flex items-center gap-2">
+          <span className="text-lg">🤖</span> Conversation
+          {thread.summary && (
+            <span
+              className="text-xs font-normal text-gray-500"
+              title={thread.summary.content}
+            >
+              · the first {thread.summary.count} messages are sent as a summary
+            </span>
+          )}
+        </h4>
+        <button
+          onClick={() => clearThread(filePath)}
+          disabled={generating}
+          className="text-xs text-gray-500 hover:text-gray-300 disabled:text-gray-700 transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {thread.messages.map((message, index) => {
+          const last = index === thread.messages.length - 1;
+
+          if (message.role === 'user') {
+            return editing?.id === message.id ? (
+              <div key={message.id} className="space-y-2">
+                <textarea
+                  value={editing.text}
+                  onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+                  rows={2}
+                  autoFocus
+                  className="w-full px-3 py-2 bg-[#161b22] border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none focus:border-blue-500/50"
+                />
+                <div className="flex gap-2 text-xs">
+                  <button
+                    onClick={saveEdit}
+                    disabled={!editing.text.trim() || generating}
+                    className="px-3 py-1 rounded-lg font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-500 transition-colors"
+                  >
+                    Ask again
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-3 py-1 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  {!last && <span className="self-center text-gray-500">The answers after this question will be replaced.</span>}
+                </div>
+              </div>
+            ) : (
+              <div key={message.id} className="group flex items-start gap-2">
+                <p className="flex-1 text-sm text-white font-medium whitespace-pre-wrap">{message.content}</p>
+                {!generating && (
+                  <button
+                    onClick={() => setEditing({ id: message.id, text: message.content })}
+                    className="text-xs text-gray-500 hover:text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+            );
+          }
+
+          return (
+            <div key={message.id} className="pl-4 border-l border-gray-700/60">
+              {(message.content || !message.error) && (
+                <div className="prose prose-invert prose-sm max-w-none prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+                  <MarkdownContent
+                    content={message.content || (message.streaming
+                      ? queuePositions[message.id] ? `_Waiting in the request queue (#${queuePositions[message.id]})..._` : '_Thinking..._'
+                      : '_Stopped before any answer arrived._')}
+                  />
+                </div>
+              )}
+              {message.error && (
+                <GenerationErrorNotice
+                  error={message.error}
+                  partial={!!message.content}
+                  onRetry={() => regenerateThreadMessage(filePath, message.id, fileContent)}
+                />
+              )}
+              {message.sources && (
+                <SourceRanges filePath={filePath} ranges={message.sources} label="Answered from lines" />
+              )}
+              {message.streaming && <span className="inline-block mt-2 w-2 h-2 rounded-full bg-blue-400 animate-pulse"></span>}
+              {!message.streaming && !message.error && !generating && (
+                <button
+                  onClick={() => regenerateThreadMessage(filePath, message.id, fileContent)}
+                  className="mt-2 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                >
+                  {message.incomplete ? 'Cut off; regenerate' : 'Regenerate'}
+                  {!last && ' (replaces the turns after it)'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionThread;
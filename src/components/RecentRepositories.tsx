@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { getProviderById } from '../services/providers';
+import { RepoSnapshot, snapshotStore } from '../services/snapshotStore';
+
+// How many saved sessions the landing screen lists
+const MAX_LISTED = 8;
+
+type Freshness = 'checking' | 'current' | 'stale' | 'unknown';
+
+const FRESHNESS_BADGES: Record<Freshness, { label: string; className: string; title: string }> = {
+  checking: { label: 'checking…', className: 'text-gray-500', title: 'Comparing with the remote head' },
+  current: { label: 'up to date', className: 'text-emerald-400', title: 'The ref still points at this commit' },
+  stale: { label: 'behind remote', className: 'text-amber-300', title: 'The ref has moved on since this snapshot was taken' },
+  unknown: { label: 'offline', className: 'text-gray-500', title: 'Could not reach the host to compare' },
+};
+
+const formatSavedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Sessions saved in IndexedDB; opening one needs no network at all
+const RecentRepositories: React.FC = () => {
+  const { restoreSnapshot } = useRepo();
+  const [snapshots, setSnapshots] = useState<RepoSnapshot[]>([]);
+  const [freshness, setFreshness] = useState<Record<string, Freshness>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    snapshotStore.list().then(all => {
+      if (cancelled) return;
+      const listed = all.slice(0, MAX_LISTED);
+      setSnapshots(listed);
+
+      // Compare each snapshot's commit with where its ref points now
+      listed.forEach(async snapshot => {
+        const { repo } = snapshot;
+        const provider = getProviderById(repo.provider_id);
+        const ref = repo.ref || repo.default_branch;
+
+        // A snapshot pinned to a commit SHA can't go stale
+        if (!provider || !ref || !repo.commit_sha || ref === repo.commit_sha) {
+          setFreshness(prev => ({ ...prev, [snapshot.id]: provider ? 'current' : 'unknown' }));
+          return;
+        }
+
+        setFreshness(prev => ({ ...prev, [snapshot.id]: 'checking' }));
+        try {
+          const head = await provider.resolveRef(repo, ref);
+          if (!cancelled) {
+            setFreshness(prev => ({ ...prev, [snapshot.id]: head === repo.commit_sha ? 'current' : 'stale' }));
+          }
+        } catch (e) {
+          if (!cancelled) {
+            setFreshness(prev => ({ ...prev, [snapshot.id]: 'unknown' }));
+          }
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const removeSnapshot = async (id: string) => {
+    await snapshotStore.remove(id);
+    setSnapshots(prev => prev.filter(s => s.id !== id));
+  };
+
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 text-left">
+      <h3 className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-3 px-1">Recent repositories</h3>
+      <div className="glass-panel rounded-xl border border-gray-700/50 divide-y divide-gray-800">
+        {snapshots.map(snapshot => {
+          const { repo } = snapshot;
+          const badge = FRESHNESS_BADGES[freshness[snapshot.id] || 'checking'];
+          const explained = Object.keys(snapshot.explanations).length;
+
+          return (
+            <div key={snapshot.id} className="flex items-center gap-3 px-4 py-3 hover:bg-gray-800/40 transition-colors">
+              <button onClick={() => restoreSnapshot(snapshot)} className="flex-1 min-w-0 text-left">
+                <span className="block text-sm text-gray-200 font-medium truncate">
+                  {repo.owner}/{repo.name}
+                </span>
+                <span className="block text-xs text-gray-500 font-mono mt-0.5 truncate">
+                  ⎇ {repo.ref || repo.default_branch} • {repo.commit_sha?.substring(0, 7)} • {Object.keys(snapshot.fileContents).length} files, {explained} explanations • {formatSavedAt(snapshot.updatedAt)}
+                </span>
+              </button>
+              <span className={`text-xs whitespace-nowrap ${badge.className}`} title={badge.title}>{badge.label}</span>
+              <button
+                onClick={() => removeSnapshot(snapshot.id)}
+                className="text-gray-600 hover:text-red-400 transition-colors text-xs"
+                title="Forget this snapshot"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RecentRepositories;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { SourceRef } from '../services/providers/types';
+
+const RefPicker: React.FC = () => {
+  const { repo, provider, refs, loadRefs, selectRef } = useRepo();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [loadingRefs, setLoadingRefs] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!repo) {
+    return null;
+  }
+
+  // Local folders and archives have no branches to switch between
+  if (provider?.kind === 'local') {
+    return (
+      <p className="text-xs text-gray-500 font-mono truncate" title="Read from your machine">
+        💻 local files
+      </p>
+    );
+  }
+
+  const currentRef = repo.ref || repo.default_branch || 'main';
+  const shortSha = repo.commit_sha ? repo.commit_sha.substring(0, 7) : '';
+
+  const togglePicker = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    setError(null);
+
+    // Branches and tags are only listed once the picker is first opened
+    if (refs.length === 0) {
+      setLoadingRefs(true);
+      try {
+        await loadRefs();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load branches and tags');
+      } finally {
+        setLoadingRefs(false);
+      }
+    }
+  };
+
+  const chooseRef = async (ref: string) => {
+    setSwitching(true);
+    setError(null);
+
+    try {
+      await selectRef(ref);
+      setOpen(false);
+      setFilter('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to switch to ${ref}`);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const matching = refs.filter(r => r.name.toLowerCase().includes(query));
+  const branches = matching.filter(r => r.type === 'branch');
+  const tags = matching.filter(r => r.type === 'tag');
+  const looksLikeSha = /^[0-9a-f]{7,40}$/i.test(filter.trim());
+
+  const renderRef = (ref: SourceRef) => {
+    const isCurrent = ref.name === currentRef;
+    return (
+      <button
+        key={`${ref.type}:${ref.name}`}
+        onClick={() => chooseRef(ref.name)}
+        disabled={switching}
+        className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-xs rounded transition-colors ${isCurrent
+          ? 'bg-blue-500/10 text-blue-300'
+          : 'text-gray-300 hover:bg-gray-800'
+          }`}
+      >
+        <span className="truncate font-mono">{ref.name}</span>
+        <span className="ml-2 text-gray-600 font-mono">{ref.sha?.substring(0, 7)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={togglePicker}
+        className="flex items-center gap-1 text-xs text-gray-500 font-mono hover:text-gray-300 transition-colors max-w-full"
+        title={repo.commit_sha}
+      >
+        <span>⎇</span>
+        <span className="truncate">{currentRef}</span>
+        {shortSha && <span className="text-gray-600">• {shortSha}</span>}
+        <span className="text-gray-600">{open ? '▴' : '▾'}</span>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-72 z-30 glass-panel bg-[#161b22] border border-gray-700 rounded-lg shadow-2xl p-2">
+          <input
+            type="text"
+            autoFocus
+            placeholder="Filter branches/tags or paste a commit SHA"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="w-full mb-2 px-3 py-1.5 bg-[#0d1117] border border-gray-700 rounded text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+          />
+
+          {error && (
+            <p className="px-2 py-1.5 mb-2 text-xs text-red-300 bg-red-900/20 rounded">{error}</p>
+          )}
+
+          {(loadingRefs || switching) && (
+            <div className="flex items-center gap-2 px-2 py-1.5 text-xs text-gray-400">
+              <div className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+              {switching ? 'Loading tree...' : 'Loading refs...'}
+            </div>
+          )}
+
+          <div className="max-h-72 overflow-auto scrollbar-thin scrollbar-thumb-gray-800">
+            {looksLikeSha && (
+              <button
+                onClick={() => chooseRef(filter.trim())}
+                disabled={switching}
+                className="w-full px-3 py-1.5 text-left text-xs text-blue-300 hover:bg-gray-800 rounded font-mono"
+              >
+                Use commit {filter.trim().substring(0, 12)}
+              </button>
+            )}
+
+            {branches.length > 0 && (
+              <>
+                <p className="px-2 pt-2 pb-1 text-[10px] uppercase tracking-wide text-gray-600 font-semibold">Branches</p>
+                {branches.map(renderRef)}
+              </>
+            )}
+
+            {tags.length > 0 && (
+              <>
+                <p className="px-2 pt-2 pb-1 text-[10px] uppercase tracking-wide text-gray-600 font-semibold">Tags</p>
+                {tags.map(renderRef)}
+              </>
+            )}
+
+            {!loadingRefs && refs.length > 0 && branches.length === 0 && tags.length === 0 && !looksLikeSha && (
+              <p className="px-2 py-1.5 text-xs text-gray-500 italic">No matching refs</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefPicker;
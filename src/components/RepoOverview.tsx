@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { useExplanations } from '../contexts/ExplanationContext';
+import { RepoTreeNode } from '../services/treeLoader';
+import { isCacheable } from '../services/geminiApi';
+import MarkdownContent from './MarkdownContent';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+// Keeps the prompt small on large repositories
+const MAX_OUTLINE_DEPTH = 2;
+const MAX_ENTRIES_PER_DIR = 40;
+
+interface OutlineNode {
+  name: string;
+  type: 'file' | 'dir';
+  children?: OutlineNode[];
+}
+
+const buildOutline = (node: RepoTreeNode, depth: number): OutlineNode[] =>
+  (node.children || []).slice(0, MAX_ENTRIES_PER_DIR).map(child => ({
+    name: child.name,
+    type: child.type,
+    children: child.type === 'dir' && depth < MAX_OUTLINE_DEPTH ? buildOutline(child, depth + 1) : undefined
+  }));
+
+// The whole repository explained from its top-level layout and README,
+// streamed in as the model writes it
+const RepoOverview: React.FC = () => {
+  const { repo, provider } = useRepo();
+  const { repoOverview, generateRepoOverview, cancelGeneration, queuePositions } = useExplanations();
+  const [preparing, setPreparing] = useState(false);
+
+  if (!repo || !provider) return null;
+
+  const explain = async () => {
+    setPreparing(true);
+    try {
+      const outline = repo.tree
+        ? buildOutline(repo.tree.root, 1)
+        : repo.files.map(file => ({ name: file.name, type: file.type }));
+      const readmeFile = repo.files.find(file => file.type === 'file' && /^readme(\.\w+)?$/i.test(file.name));
+      let readme: string | null = null;
+      if (readmeFile) {
+        try {
+          readme = (await provider.readFile(repo, readmeFile.path, repo.commit_sha)).substring(0, 8000);
+        } catch (err) {
+          console.warn('Could not read the README for the overview:', err);
+        }
+      }
+      await generateRepoOverview(outline, readme);
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  if (!repoOverview) {
+    return (
+      <button
+        onClick={explain}
+        disabled={preparing}
+        className={`mt-6 px-4 py-2 rounded-lg text-sm font-medium transition-all ${preparing
+          ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+          : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+          }`}
+      >
+        {preparing ? 'Reading the README...' : 'Explain this repository'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-6 max-w-3xl w-full glass-panel p-6 rounded-2xl border border-gray-700/50 text-left animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Repository overview</h3>
+        {repoOverview.streaming ? (
+          <button onClick={() => cancelGeneration()} className="text-xs text-gray-500 hover:text-gray-300 transition-colors">
+            Cancel
+          </button>
+        ) : !isCacheable(repoOverview) && !repoOverview.error ? (
+          <button onClick={explain} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
+            Retry
+          </button>
+        ) : null}
+      </div>
+      <div className="prose prose-invert max-w-none prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+        {repoOverview.content
+          ? <MarkdownContent content={repoOverview.content} />
+          : !repoOverview.error && <p className="text-sm text-gray-500">{repoOverview.incomplete
+            ? 'Cancelled.'
+            : queuePositions['#overview']
+              ? `Waiting in the request queue (#${queuePositions['#overview']})...`
+              : 'Waiting for the model to start answering...'}</p>}
+      </div>
+      {repoOverview.error && (
+        <GenerationErrorNotice error={repoOverview.error} partial={!!repoOverview.content} onRetry={explain} />
+      )}
+    </div>
+  );
+};
+
+export default RepoOverview;
@@ -0,0 +1,151 @@
+import React, { useCallback, useState } from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { REPO_QUESTION_PREFIX, useExplanations } from '../contexts/ExplanationContext';
+import { Citation } from '../services/geminiApi';
+import MarkdownContent from './MarkdownContent';
+import GenerationErrorNotice from './GenerationErrorNotice';
+
+// Questions about the whole repository ("where is auth handled?"), answered
+// from a local search index over its files. Cited line ranges open in the code view.
+const RepoQuestions: React.FC = () => {
+  const { repoIndex, indexProgress, loadRepoIndex, cancelRepoIndex, setTarget } = useRepo();
+  const { explanations, generating, generateRepoQuestion, cancelGeneration, discardExplanation } = useExplanations();
+  const [question, setQuestion] = useState('');
+
+  const answers = Object.entries(explanations)
+    .filter(([key]) => key.startsWith(REPO_QUESTION_PREFIX))
+    .sort(([a], [b]) => b.localeCompare(a));
+
+  const openCitation = useCallback((citation: Citation) => {
+    setTarget({ path: citation.path, type: 'file', lineRange: { start: citation.start, end: citation.end } });
+  }, [setTarget]);
+
+  const ask = async (asked: string) => {
+    // The index is built the first time a question is asked
+    const index = await loadRepoIndex();
+    if (index) {
+      await generateRepoQuestion(asked, index);
+    }
+  };
+
+  const handleAsk = () => {
+    if (!question.trim() || indexProgress) return;
+    ask(question.trim());
+    setQuestion('');
+  };
+
+  const retry = (key: string, asked: string) => {
+    discardExplanation(key);
+    ask(asked);
+  };
+
+  return (
+    <div className="mt-6 max-w-3xl w-full glass-panel p-6 rounded-2xl border border-gray-700/50 text-left animate-fade-in">
+      <h3 className="text-lg font-semibold text-white mb-1">Ask about the repository</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        {repoIndex
+          ? `Searching ${repoIndex.paths.length}${repoIndex.totalFiles > repoIndex.paths.length ? ` of ${repoIndex.totalFiles}` : ''} files (${repoIndex.chunkCount} sections) indexed in this browser.`
+          : 'The first question indexes the repository\'s files in this browser; the best matching sections are sent with it.'}
+      </p>
+
+      <div className="relative flex">
+        <input
+          type="text"
+          placeholder="Where is authentication handled?"
+          className="w-full pl-4 pr-24 py-3 bg-[#161b22] border border-gray-700 rounded-xl text-gray-200 placeholder-gray-500 focus:outline-none focus:bg-[#0d1117] transition-all"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleAsk()}
+        />
+        {indexProgress || generating ? (
+          <button
+            onClick={() => (indexProgress ? cancelRepoIndex() : cancelGeneration())}
+            className="absolute right-2 top-2 px-4 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide transition-all bg-gray-800 hover:bg-gray-700 text-gray-300"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!question.trim()}
+            className={`absolute right-2 top-2 px-4 py-1.5 rounded-lg text-xs font-semibold uppercase tracking-wide transition-all ${!question.trim()
+              ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+              : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/30'
+              }`}
+          >
+            Ask
+          </button>
+        )}
+      </div>
+
+      {indexProgress && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>Indexing files...</span>
+            <span className="font-mono">{indexProgress.done} / {indexProgress.total}</span>
+          </div>
+          <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${indexProgress.total > 0 ? (indexProgress.done / indexProgress.total) * 100 : 0}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {answers.length > 0 && (
+        <div className="mt-6 space-y-4">
+          {answers.map(([key, response]) => (
+            <div key={key} className="p-4 rounded-xl border border-blue-500/20 bg-blue-900/5">
+              <h4 className="text-sm font-semibold text-blue-300 mb-2 flex items-center gap-2">
+                <span className="truncate">{response.question}</span>
+                {response.streaming && <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse shrink-0"></span>}
+                {!response.streaming && (
+                  <button
+                    onClick={() => discardExplanation(key)}
+                    className="ml-auto text-xs font-normal text-gray-500 hover:text-gray-300 transition-colors shrink-0"
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </h4>
+              {(response.content || !response.error) && (
+                <div className="prose prose-invert prose-sm max-w-none prose-p:text-gray-300 prose-code:text-blue-300 prose-strong:text-white">
+                  <MarkdownContent
+                    content={response.content || (response.streaming ? '_Searching the index..._' : '_Stopped before any answer arrived._')}
+                    citedPaths={response.citations?.map(citation => citation.path)}
+                    onCite={openCitation}
+                  />
+                </div>
+              )}
+              {response.error && (
+                <GenerationErrorNotice
+                  error={response.error}
+                  partial={!!response.content}
+                  onRetry={() => response.question && retry(key, response.question)}
+                />
+              )}
+              {response.citations && response.citations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 mt-4 text-xs">
+                  <span className="text-gray-500">Searched</span>
+                  {response.citations.map(citation => (
+                    <button
+                      key={`${citation.path}:${citation.start}`}
+                      onClick={() => openCitation(citation)}
+                      className="px-2 py-0.5 rounded border border-gray-700 bg-gray-800/50 text-gray-400 hover:text-blue-300 hover:border-blue-500/40 font-mono transition-colors"
+                      title="Show these lines in the code view"
+                    >
+                      {citation.path}:{citation.start}–{citation.end}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepoQuestions;
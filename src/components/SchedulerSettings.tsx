@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_SCHEDULER_SETTINGS,
+  SchedulerSettings as Settings,
+  SchedulerState,
+  llmScheduler,
+  saveSchedulerSettings
+} from '../services/llmScheduler';
+
+const FIELDS: Array<{ key: keyof Settings; label: string; min: number; hint: string }> = [
+  { key: 'rpm', label: 'Requests / min', min: 1, hint: 'Free Gemini keys allow 15' },
+  { key: 'tpm', label: 'Tokens / min', min: 0, hint: '0 for no limit' },
+  { key: 'concurrency', label: 'At once', min: 1, hint: 'Calls in flight' },
+];
+
+// Request pacing for the AI provider: rate limits, parallel calls, and what
+// is waiting right now; saved in this browser
+const SchedulerSettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<Settings>(() => llmScheduler.getSettings());
+  const [state, setState] = useState<SchedulerState>(() => llmScheduler.getState());
+
+  useEffect(() => llmScheduler.subscribe(setState), []);
+
+  const update = (next: Settings) => {
+    saveSchedulerSettings(next);
+    llmScheduler.configure(next);
+    setSettings(next);
+  };
+
+  const queued = state.queued.interactive + state.queued.prefetch + state.queued.batch;
+  const slowed = state.pace < 1 || state.pausedUntil > 0;
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {open ? '▾' : '▸'} Request pacing: {settings.rpm} RPM{settings.tpm > 0 ? ` · ${settings.tpm.toLocaleString()} TPM` : ''} · {settings.concurrency} at once
+        {(state.running > 0 || queued > 0) && <span className="text-blue-400"> · {state.running} running, {queued} queued</span>}
+        {slowed && <span className="text-amber-400"> · slowed down</span>}
+      </button>
+
+      {open && (
+        <div className="mt-3 glass-panel p-4 rounded-xl border border-gray-700/50 space-y-3 animate-fade-in">
+          <div className="grid grid-cols-3 gap-2">
+            {FIELDS.map(field => (
+              <label key={field.key} className="space-y-1" title={field.hint}>
+                <span className="text-xs text-gray-500">{field.label}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  value={settings[field.key]}
+                  onChange={(e) => {
+                    const value = Math.floor(Number(e.target.value));
+                    if (e.target.value !== '' && value >= field.min) {
+                      update({ ...settings, [field.key]: value });
+                    }
+                  }}
+                  className="w-full px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50 font-mono"
+                />
+              </label>
+            ))}
+          </div>
+
+          {queued > 0 && (
+            <p className="text-xs text-gray-400">
+              Waiting: {state.queued.interactive} requested by you, {state.queued.prefetch} background, {state.queued.batch} bulk (diagrams, function summaries).
+            </p>
+          )}
+          {slowed && (
+            <p className="text-xs text-amber-300">
+              The provider answered "too many requests"; sending at {Math.round(state.pace * 100)}% of these limits
+              {state.pausedUntil > 0 && ` after a pause until ${new Date(state.pausedUntil).toLocaleTimeString()}`}, speeding up again as calls succeed.
+            </p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <p className="flex-1 text-xs text-gray-500">
+              What you ask for goes ahead of background work. Paid keys can raise these to their own limits.
+            </p>
+            {(settings.rpm !== DEFAULT_SCHEDULER_SETTINGS.rpm ||
+              settings.tpm !== DEFAULT_SCHEDULER_SETTINGS.tpm ||
+              settings.concurrency !== DEFAULT_SCHEDULER_SETTINGS.concurrency) && (
+              <button
+                type="button"
+                onClick={() => update(DEFAULT_SCHEDULER_SETTINGS)}
+                className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulerSettings;
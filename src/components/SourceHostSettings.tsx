@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { SourceHostConfig, getCustomSourceHosts, saveCustomSourceHosts } from '../services/providers';
+
+// Lets users register self-hosted GitLab/Gitea instances so their URLs are recognized
+const SourceHostSettings: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [hosts, setHosts] = useState<SourceHostConfig[]>(() => getCustomSourceHosts());
+  const [kind, setKind] = useState<SourceHostConfig['kind']>('gitlab');
+  const [baseUrl, setBaseUrl] = useState('');
+
+  const updateHosts = (next: SourceHostConfig[]) => {
+    saveCustomSourceHosts(next);
+    setHosts(getCustomSourceHosts());
+  };
+
+  const handleAdd = () => {
+    if (!baseUrl.trim()) return;
+    updateHosts([...hosts, { kind, baseUrl: baseUrl.trim() }]);
+    setBaseUrl('');
+  };
+
+  return (
+    <div className="mt-4 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+      >
+        {open ? '▾' : '▸'} Self-hosted GitLab or Gitea {hosts.length > 0 && `(${hosts.length})`}
+      </button>
+
+      {open && (
+        <div className="mt-3 glass-panel p-4 rounded-xl border border-gray-700/50 space-y-3 animate-fade-in">
+          <p className="text-xs text-gray-500">
+            github.com, gitlab.com, gitea.com and codeberg.org work out of the box. Add the base URL of any other instance.
+          </p>
+
+          {hosts.map((host, idx) => (
+            <div key={`${host.kind}:${host.baseUrl}`} className="flex items-center justify-between px-3 py-2 rounded-lg bg-github-dark-bg/50 text-xs">
+              <span className="font-mono text-gray-300 truncate">
+                <span className="text-blue-400 mr-2">{host.kind === 'gitlab' ? 'GitLab' : 'Gitea'}</span>
+                {host.baseUrl}
+              </span>
+              <button
+                type="button"
+                onClick={() => updateHosts(hosts.filter((_, i) => i !== idx))}
+                className="ml-3 text-gray-500 hover:text-red-400 transition-colors"
+                title="Remove host"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as SourceHostConfig['kind'])}
+              className="px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500/50"
+            >
+              <option value="gitlab">GitLab</option>
+              <option value="gitea">Gitea</option>
+            </select>
+            <input
+              type="text"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="https://gitlab.example.com"
+              className="flex-1 px-3 py-2 bg-github-dark-bg/50 border border-gray-700 rounded-lg text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!baseUrl.trim()}
+              className="px-4 py-2 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-500 text-white disabled:bg-gray-800 disabled:text-gray-500 transition-colors"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceHostSettings;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { useRepo } from '../contexts/RepoContext';
+import { LineRange } from '../services/providers/types';
+
+interface SourceRangesProps {
+  filePath: string;
+  ranges: LineRange[];
+  label: string;
+}
+
+// Line ranges an answer was built from; each opens the code view on that range
+const SourceRanges: React.FC<SourceRangesProps> = ({ filePath, ranges, label }) => {
+  const { setTarget } = useRepo();
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-4 text-xs">
+      <span className="text-gray-500">{label}</span>
+      {ranges.map(range => (
+        <button
+          key={`${range.start}-${range.end}`}
+          onClick={() => setTarget({ path: filePath, type: 'file', lineRange: range })}
+          className="px-2 py-0.5 rounded border border-gray-700 bg-gray-800/50 text-gray-400 hover:text-blue-300 hover:border-blue-500/40 font-mono transition-colors"
+          title="Show these lines in the code view"
+        >
+          L{range.start}–{range.end}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SourceRanges;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { useExplanations } from '../contexts/ExplanationContext';
+import { USAGE_PURPOSE_LABELS, UsageEntry, UsagePurpose, estimateCost, usageLedger } from '../services/usageLedger';
+
+const MAX_FILES_LISTED = 8;
+
+interface Totals {
+  tokens: number;
+  // Null when no entry had a known price
+  cost: number | null;
+}
+
+const sumEntries = (entries: UsageEntry[]): Totals => entries.reduce<Totals>((totals, entry) => {
+  const cost = estimateCost(entry);
+  return {
+    tokens: totals.tokens + entry.promptTokens + entry.outputTokens,
+    cost: cost === null ? totals.cost : (totals.cost || 0) + cost
+  };
+}, { tokens: 0, cost: null });
+
+const formatTotals = ({ tokens, cost }: Totals) =>
+  `${tokens.toLocaleString()} tokens${cost !== null ? ` · ~$${cost.toFixed(cost < 0.01 ? 4 : 2)}` : ''}`;
+
+// Tokens spent and saved this session, per purpose and per file, and the
+// daily budget that stops new LLM calls once it is used up
+const UsagePanel: React.FC = () => {
+  const { usage } = useExplanations();
+  const [open, setOpen] = useState(false);
+  const [budget, setBudget] = useState<number | null>(() => usageLedger.getDailyBudget());
+  const [budgetInput, setBudgetInput] = useState(() => String(usageLedger.getDailyBudget() || ''));
+  // Re-read with every ledger change; the daily total lives in localStorage
+  const [dailyTotal, setDailyTotal] = useState(() => usageLedger.getDailyTotal());
+
+  useEffect(() => {
+    setDailyTotal(usageLedger.getDailyTotal());
+    setBudget(usageLedger.getDailyBudget());
+  }, [usage]);
+
+  const spent = usage.filter(entry => !entry.cached);
+  const saved = usage.filter(entry => entry.cached);
+  const sessionTotals = sumEntries(spent);
+  const savedTotals = sumEntries(saved);
+  const estimated = spent.some(entry => entry.estimated);
+
+  const byPurpose = Object.entries(
+    spent.reduce<Partial<Record<UsagePurpose, UsageEntry[]>>>((groups, entry) => {
+      groups[entry.purpose] = [...(groups[entry.purpose] || []), entry];
+      return groups;
+    }, {})
+  ).map(([purpose, entries]) => ({ purpose: purpose as UsagePurpose, calls: entries!.length, totals: sumEntries(entries!) }));
+
+  const byFile = Object.entries(
+    spent.reduce<Record<string, UsageEntry[]>>((groups, entry) => {
+      if (entry.path !== undefined) {
+        groups[entry.path] = [...(groups[entry.path] || []), entry];
+      }
+      return groups;
+    }, {})
+  )
+    .map(([path, entries]) => ({ path, totals: sumEntries(entries) }))
+    .sort((a, b) => b.totals.tokens - a.totals.tokens);
+
+  const saveBudget = () => {
+    const value = parseInt(budgetInput.replace(/[^0-9]/g, ''), 10);
+    const next = value > 0 ? value : null;
+    usageLedger.setDailyBudget(next);
+    setBudget(next);
+    setBudgetInput(next ? String(next) : '');
+  };
+
+  const overBudget = budget !== null && dailyTotal >= budget;
+
+  return (
+    <div className="border-t border-gray-800 p-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`text-xs transition-colors ${overBudget ? 'text-red-300 hover:text-red-200' : 'text-gray-500 hover:text-gray-300'}`}
+      >
+        {open ? '▾' : '▸'} Usage: {sessionTotals.tokens.toLocaleString()} tokens this session
+        {overBudget && ' · daily budget reached'}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3 text-xs animate-fade-in">
+          <div>
+            <div className="flex justify-between text-gray-400">
+              <span>Today</span>
+              <span className="font-mono">
+                {dailyTotal.toLocaleString()}{budget !== null && ` / ${budget.toLocaleString()}`}
+              </span>
+            </div>
+            {budget !== null && (
+              <div className="mt-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${overBudget ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, (dailyTotal / budget) * 100)}%` }}
+                ></div>
+              </div>
+            )}
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveBudget()}
+                placeholder="Daily token budget (none)"
+                className="flex-1 px-2 py-1 bg-github-dark-bg/50 border border-gray-700 rounded text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 font-mono"
+              />
+              <button
+                type="button"
+                onClick={saveBudget}
+                className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+              >
+                Set
+              </button>
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-[1fr,auto] gap-x-3 gap-y-1 font-mono">
+            <dt className="text-gray-500">spent</dt>
+            <dd className="text-gray-300 text-right">{formatTotals(sessionTotals)}</dd>
+            <dt className="text-gray-500">saved by cache</dt>
+            <dd className="text-emerald-300 text-right">{formatTotals(savedTotals)}</dd>
+          </dl>
+
+          {byPurpose.length > 0 && (
+            <ul className="space-y-0.5">
+              {byPurpose.map(({ purpose, calls, totals }) => (
+                <li key={purpose} className="flex justify-between gap-2 text-gray-400">
+                  <span>{USAGE_PURPOSE_LABELS[purpose]} ×{calls}</span>
+                  <span className="font-mono">{totals.tokens.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {byFile.length > 0 && (
+            <ul className="space-y-0.5 pt-2 border-t border-gray-800">
+              {byFile.slice(0, MAX_FILES_LISTED).map(({ path, totals }) => (
+                <li key={path} className="flex justify-between gap-2 text-gray-400">
+                  <span className="truncate font-mono" title={path}>{path || '/'}</span>
+                  <span className="font-mono whitespace-nowrap">{totals.tokens.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {estimated && (
+            <p className="text-gray-600">Some counts are estimated; the provider did not report usage for them.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { ExplanationProvider, useExplanations } from './ExplanationContext';
+import { DEFAULT_SCHEDULER_SETTINGS, llmScheduler } from '../services/llmScheduler';
+import { SourceFile } from '../services/providers/types';
+
+const file: SourceFile = { name: 'index.ts', path: 'src/index.ts', type: 'file' };
+
+// Asks for the explanation whenever the context changes, the way a consumer
+// depending on generateExplanation itself would
+const AutoExplain: React.FC = () => {
+  const { explanations, generateExplanation, queuePositions } = useExplanations();
+  useEffect(() => {
+    if (!explanations[file.path]) {
+      generateExplanation(file, 'export const answer = 42;');
+    }
+  }, [explanations, generateExplanation]);
+  return <span data-testid="position">{queuePositions[file.path] ?? 'none'}</span>;
+};
+
+describe('ExplanationProvider', () => {
+  let release: () => void;
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    // The model is never reached while the request waits in the queue
+    global.fetch = jest.fn(() => new Promise<Response>(() => {}));
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    // One slot, held by a job that doesn't finish, so the explanation queues
+    llmScheduler.configure({ rpm: 1000, tpm: 0, concurrency: 1 });
+    llmScheduler.schedule(() => new Promise<void>(resolve => { release = resolve; }));
+  });
+
+  afterEach(async () => {
+    await act(async () => release());
+    llmScheduler.configure(DEFAULT_SCHEDULER_SETTINGS);
+  });
+
+  test('queues one request per file while its queue position updates', async () => {
+    const { unmount } = render(
+      <ExplanationProvider apiKey="test-key" repoName="owner/repo" commitSha="abc1234">
+        <AutoExplain />
+      </ExplanationProvider>
+    );
+    await waitFor(() => expect(screen.getByTestId('position')).toHaveTextContent('1'));
+    expect(llmScheduler.getState().queued.interactive).toBe(1);
+    expect(global.fetch).not.toHaveBeenCalled();
+    unmount();
+  });
+});
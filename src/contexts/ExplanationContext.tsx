@@ -1,22 +1,95 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { GitHubFile } from '../services/githubApi';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { FileCommit, PullRequest, PullRequestFile, SourceFile, SourceRepo } from '../services/providers/types';
 import {
   generateDirectoryExplanation,
   generateFileExplanation,
   generateCodeQuestionResponse,
+  generateRepoQuestionResponse,
+  summarizeConversation,
+  generatePullRequestFileReview,
+  generatePullRequestNarrative,
+  generateFileHistorySummary,
+  generateBinaryFileExplanation,
+  generateRepoExplanation,
+  isCacheable,
+  failedExplanation,
   Explanation
 } from '../services/geminiApi';
+import { cacheService } from '../services/cacheService';
+import { getSnapshotId, snapshotStore } from '../services/snapshotStore';
+import { FileInfo } from '../services/fileKinds';
+import { Workspace, describePackageContext } from '../services/workspaces';
+import { UsageEntry, UsageTag, usageLedger } from '../services/usageLedger';
+import { RepoIndex } from '../services/repoIndex';
+import {
+  Thread,
+  ThreadMessage,
+  emptyThread,
+  formatThreadHistory,
+  formatTranscript,
+  messageId,
+  messagesToSummarize,
+  settledThreads
+} from '../services/conversations';
 
 interface ExplanationContextType {
   explanations: Record<string, Explanation>;
+  // Whether an explanation, answer or conversation turn is in flight
   generating: boolean;
-  error: string | null;
+  // Whether the request for one explanation key is in flight
+  isGenerating: (key: string) => boolean;
+  // Place in the request queue of calls still waiting to be sent, by
+  // explanation key or thread message id; '#overview' for the repo overview
+  queuePositions: Record<string, number>;
   architectureDiagram: string | null;
   setArchitectureDiagram: (diagram: string | null) => void;
-  generateExplanation: (item: GitHubFile, content?: string) => Promise<void>;
-  generateQuestionResponse: (question: string, filePath: string, fileContent: string) => Promise<void>;
+  // Diagrams scoped to one monorepo package and its dependents, by package name
+  packageDiagrams: Record<string, string>;
+  setPackageDiagram: (name: string, diagram: string) => void;
+  generateExplanation: (item: SourceFile, content?: string) => Promise<void>;
+  // Q&A about a file as a conversation, one thread per path, kept across file switches
+  threads: Record<string, Thread>;
+  askInThread: (path: string, question: string, fileContent: string) => Promise<void>;
+  // Replaces a question, drops the turns after it and asks it again
+  editThreadMessage: (path: string, messageId: string, question: string, fileContent: string) => Promise<void>;
+  // Asks again for the answer in an assistant message, dropping the turns after it
+  regenerateThreadMessage: (path: string, messageId: string, fileContent: string) => Promise<void>;
+  clearThread: (path: string) => void;
+  // Questions about the whole repository, answered from the search index;
+  // stored in explanations under REPO_QUESTION_PREFIX
+  generateRepoQuestion: (question: string, index: RepoIndex) => Promise<void>;
+  // Stops every request in flight and drops the queued ones. What has arrived
+  // so far is kept, marked incomplete, unless `discard` is set (navigating away).
+  cancelGeneration: (discard?: boolean) => void;
+  // Drops an explanation or answer so it can be generated again
+  discardExplanation: (key: string) => void;
+  // High-level explanation of the whole repository, shown before a file is picked
+  repoOverview: Explanation | null;
+  generateRepoOverview: (structure: unknown, readme: string | null) => Promise<void>;
+  // Every LLM call this session, with tokens, model and purpose, plus cache hits
+  usage: UsageEntry[];
+  // Images, binaries, LFS pointers and oversized files, explained from path, size and neighbours
+  generateMetadataExplanation: (item: SourceFile, info: FileInfo, siblings: string[]) => Promise<void>;
+  // Pull request review mode: per-file change reviews and the PR narrative
+  prReviews: Record<string, Explanation>;
+  prNarrative: Explanation | null;
+  reviewing: boolean;
+  // `retry` replaces a failed result; otherwise an existing one is kept
+  generatePullRequestReview: (file: PullRequestFile, retry?: boolean) => Promise<void>;
+  generatePullRequestOverview: (retry?: boolean) => Promise<void>;
+  // File history: an evolution summary per path. Key diffs are loaded
+  // through the callback only when the summary isn't cached.
+  historySummaries: Record<string, Explanation>;
+  generateHistorySummary: (
+    path: string,
+    commits: FileCommit[],
+    loadKeyDiffs: () => Promise<Array<{ commit: FileCommit; diff: PullRequestFile }>>,
+    retry?: boolean
+  ) => Promise<void>;
 }
 
+export const REPO_QUESTION_PREFIX = '#repo_question_';
+
 const ExplanationContext = createContext<ExplanationContextType | undefined>(undefined);
 
 export const useExplanations = () => {
@@ -31,33 +104,244 @@ interface ExplanationProviderProps {
   children: ReactNode;
   apiKey: string;
   repoName: string;
+  // Commit the explanations describe; part of every cache key
+  commitSha: string;
+  pullRequest?: PullRequest | null;
+  // Repo whose offline snapshot explanations are restored from and saved to
+  snapshotRepo?: SourceRepo | null;
+  // Monorepo layout; file and directory prompts say which package they are in
+  workspace?: Workspace | null;
+  // explanationSettingsKey of the audience, length and language; what was
+  // explained for another value is dropped when it changes
+  outputStyle?: string;
 }
 
-export const ExplanationProvider: React.FC<ExplanationProviderProps> = ({ children, apiKey, repoName }) => {
+export const ExplanationProvider: React.FC<ExplanationProviderProps> = ({ children, apiKey, repoName, commitSha, pullRequest, snapshotRepo, workspace, outputStyle = '' }) => {
   const [explanations, setExplanations] = useState<Record<string, Explanation>>({});
-  const [generating, setGenerating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Keys of the requests in flight (see startRequest)
+  const [inFlight, setInFlight] = useState<Record<string, true>>({});
+  const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
   const [architectureDiagram, setArchitectureDiagram] = useState<string | null>(null);
+  const [packageDiagrams, setPackageDiagrams] = useState<Record<string, string>>({});
+  const [prReviews, setPrReviews] = useState<Record<string, Explanation>>({});
+  const [prNarrative, setPrNarrative] = useState<Explanation | null>(null);
+  const [historySummaries, setHistorySummaries] = useState<Record<string, Explanation>>({});
+  const [threads, setThreads] = useState<Record<string, Thread>>({});
+  // Saving waits until the snapshot has been read, so an empty state never overwrites it
+  const [snapshotLoaded, setSnapshotLoaded] = useState(false);
+  // The request that owns each key while it runs. Only the owner may store a
+  // result under its key: an abandoned request, or one a newer request for
+  // the same key replaced, settles without touching anything.
+  const owners = useRef(new Map<string, AbortController>());
+  const [repoOverview, setRepoOverview] = useState<Explanation | null>(null);
+  const [usage, setUsage] = useState<UsageEntry[]>(() => usageLedger.getEntries());
+  const styleRef = useRef(outputStyle);
+
+  useEffect(() => usageLedger.subscribe(setUsage), []);
+
+  // A cached answer saves the tokens it cost when it was generated
+  const creditCacheHit = (tag: UsageTag, cached: Explanation) => {
+    if (cached.usage && cached.model) {
+      usageLedger.recordCacheHit(tag, cached.model, cached.usage);
+    }
+  };
+
+
+  useEffect(() => {
+    if (!snapshotRepo) return;
+
+    let cancelled = false;
+    snapshotStore.get(getSnapshotId(snapshotRepo)).then(snapshot => {
+      if (cancelled) return;
+      // Explanations written for another audience or language stay in the snapshot
+      if (snapshot && (snapshot.outputStyle || '') === styleRef.current) {
+        // Anything generated while the snapshot was loading wins
+        setExplanations(prev => ({ ...snapshot.explanations, ...prev }));
+        setArchitectureDiagram(prev => prev || snapshot.architectureDiagram);
+        setPackageDiagrams(prev => ({ ...(snapshot.packageDiagrams || {}), ...prev }));
+      }
+      if (snapshot) {
+        setThreads(prev => ({ ...(snapshot.threads || {}), ...prev }));
+      }
+      setSnapshotLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshotRepo]);
+
+  useEffect(() => {
+    if (!snapshotRepo || !snapshotLoaded) return;
+
+    const timer = setTimeout(() => {
+      // Failure notices and cut-off answers are not worth keeping offline
+      const kept: Record<string, Explanation> = {};
+      Object.entries(explanations).forEach(([key, explanation]) => {
+        if (isCacheable(explanation)) {
+          kept[key] = explanation;
+        }
+      });
+      snapshotStore.update(snapshotRepo, {
+        explanations: kept,
+        architectureDiagram,
+        packageDiagrams,
+        threads: settledThreads(threads),
+        outputStyle
+      });
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [snapshotRepo, snapshotLoaded, explanations, architectureDiagram, packageDiagrams, threads, outputStyle]);
+
+  const setPackageDiagram = (name: string, diagram: string) => {
+    setPackageDiagrams(prev => ({ ...prev, [name]: diagram }));
+  };
+
+  const setQueuePosition = (key: string, position: number | null) => {
+    setQueuePositions(prev => {
+      if ((prev[key] ?? null) === position) return prev;
+      const next = { ...prev };
+      if (position === null) {
+        delete next[key];
+      } else {
+        next[key] = position;
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Registers a cancellable request under `key`: an explanation path, or
+   * '#overview', '#narrative', '#review:<path>', '#history:<path>',
+   * '#thread:<path>'. A request already running for the key is stopped.
+   */
+  const trackRequest = (key: string) => {
+    owners.current.get(key)?.abort();
+    const controller = new AbortController();
+    owners.current.set(key, controller);
+    setInFlight(prev => ({ ...prev, [key]: true }));
+
+    const owns = () => owners.current.get(key) === controller;
+    return {
+      signal: controller.signal,
+      owns,
+      onQueue: (position: number | null) => {
+        if (owns()) setQueuePosition(key, position);
+      },
+      done: () => {
+        if (!owns()) return;
+        owners.current.delete(key);
+        setQueuePosition(key, null);
+        setInFlight(prev => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+      }
+    };
+  };
+
+  // trackRequest for an entry of `explanations`, showing each partial answer
+  const startRequest = (key: string) => {
+    const request = trackRequest(key);
+    return {
+      ...request,
+      onText: (partial: string) => {
+        if (request.owns() && !request.signal.aborted) {
+          setExplanations(prev => ({ ...prev, [key]: { content: partial, streaming: true } }));
+        }
+      }
+    };
+  };
+
+  const cancelGeneration = (discard = false) => {
+    const keys = Array.from(owners.current.keys());
+    owners.current.forEach(controller => controller.abort());
+    if (!discard) return;
+
+    // Abandoned: their partial answers go, and the keys are free for new requests
+    owners.current.clear();
+    setInFlight({});
+    setQueuePositions({});
+    setExplanations(prev => {
+      const next = { ...prev };
+      keys.forEach(key => {
+        if (next[key]?.streaming) delete next[key];
+      });
+      return next;
+    });
+    setRepoOverview(prev => (prev?.streaming ? null : prev));
+  };
+
+  // Nothing may write to state once the provider is gone (repo or commit switched)
+  useEffect(() => () => cancelGeneration(true), []);
+
+  // Another audience, length or language: everything explained so far was
+  // written for the old one and is generated (or read from cache) again.
+  // Conversations and repository answers are kept.
+  useEffect(() => {
+    if (styleRef.current === outputStyle) return;
+    styleRef.current = outputStyle;
+    cancelGeneration(true);
+    setExplanations(prev => {
+      const kept: Record<string, Explanation> = {};
+      Object.entries(prev).forEach(([key, explanation]) => {
+        if (key.startsWith(REPO_QUESTION_PREFIX)) kept[key] = explanation;
+      });
+      return kept;
+    });
+    setRepoOverview(null);
+    setPrReviews({});
+    setPrNarrative(null);
+    setHistorySummaries({});
+    setArchitectureDiagram(null);
+    setPackageDiagrams({});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [outputStyle]);
+
+  const discardExplanation = (key: string) => {
+    setExplanations(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
 
+  // Stores a finished answer, unless its request no longer owns the key
+  const settleExplanation = (key: string, request: { owns: () => boolean }, explanation: Explanation) => {
+    if (request.owns()) {
+      setExplanations(prev => ({ ...prev, [key]: explanation }));
+    }
+  };
 
-  const generateExplanation = async (item: GitHubFile, content?: string) => {
+  const generateExplanation = async (item: SourceFile, content?: string) => {
     // Check cache first - instant return if available
-    if (explanations[item.path]) {
+    // Queued requests have no entry yet; a second one would take another slot
+    if (explanations[item.path] || owners.current.has(item.path)) {
       return;
     }
 
-    setGenerating(true);
-    setError(null);
+    const cacheKey = cacheService.generateKey(repoName, commitSha, item.path, 'explanation');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      console.log(`✨ Using cached explanation for ${item.path}@${commitSha.substring(0, 7)}`);
+      creditCacheHit({ purpose: item.type === 'dir' ? 'directory_explanation' : 'file_explanation', path: item.path }, cached);
+      setExplanations(prev => ({ ...prev, [item.path]: cached }));
+      return;
+    }
 
+    const request = startRequest(item.path);
     try {
       let explanation: Explanation;
+      const packageContext = workspace ? describePackageContext(workspace, item.path) : null;
       
       if (item.type === 'dir') {
-        explanation = await generateDirectoryExplanation(item.path, [], repoName, apiKey);
+        explanation = await generateDirectoryExplanation(item.path, [], repoName, apiKey, packageContext, request.signal);
       } else {
         if (content) {
           const startTime = Date.now();
-          explanation = await generateFileExplanation(item.path, content, repoName, apiKey);
+          explanation = await generateFileExplanation(item.path, content, repoName, apiKey, packageContext, request);
           const duration = Date.now() - startTime;
           console.log(`AI explanation generated in ${duration}ms`);
         } else {
@@ -65,55 +349,338 @@ export const ExplanationProvider: React.FC<ExplanationProviderProps> = ({ childr
         }
       }
 
-      setExplanations(prev => ({
-        ...prev,
-        [item.path]: explanation
-      }));
+      // Don't pin cut-off answers to the commit
+      if ((item.type === 'dir' || content) && isCacheable(explanation)) {
+        cacheService.set(cacheKey, explanation);
+      }
+
+      settleExplanation(item.path, request, explanation);
+    } catch (err) {
+      console.error(err);
+      settleExplanation(item.path, request, failedExplanation(err));
+    } finally {
+      request.done();
+    }
+  };
+
+  const generateMetadataExplanation = async (item: SourceFile, info: FileInfo, siblings: string[]) => {
+    // Only asked for on demand, so a failed one is simply asked again
+    if (explanations[item.path] && !explanations[item.path].error) return;
+
+    const cacheKey = cacheService.generateKey(repoName, commitSha, item.path, 'explanation');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      creditCacheHit({ purpose: 'metadata_explanation', path: item.path }, cached);
+      setExplanations(prev => ({ ...prev, [item.path]: cached }));
+      return;
+    }
+
+    discardExplanation(item.path);
+    const request = startRequest(item.path);
+    try {
+      const explanation = await generateBinaryFileExplanation(item.path, info, siblings, repoName, apiKey, request.signal);
+      if (isCacheable(explanation)) {
+        cacheService.set(cacheKey, explanation);
+      }
+      settleExplanation(item.path, request, explanation);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while generating explanation');
       console.error(err);
+      settleExplanation(item.path, request, failedExplanation(err));
     } finally {
-      setGenerating(false);
+      request.done();
     }
   };
 
-  const generateQuestionResponse = async (question: string, filePath: string, fileContent: string) => {
-    setGenerating(true);
-    setError(null);
+  // Sends `question` after the messages kept from the thread and streams the
+  // answer into a new assistant message. An answer cut off by leaving the file
+  // stays in the thread, marked incomplete, so it can be regenerated.
+  const runThreadTurn = async (thread: Thread, history: ThreadMessage[], question: string, fileContent: string) => {
+    const { path } = thread;
+    // A summary covering turns that were edited away no longer applies
+    let summary = thread.summary && thread.summary.count <= history.length ? thread.summary : null;
+    const answerId = messageId();
+    const setAnswer = (answer: Explanation) => setThreads(prev => {
+      const current = prev[path];
+      if (!current) return prev;
+      const messages = current.messages.map(message =>
+        message.id === answerId ? { ...answer, id: answerId, role: 'assistant' as const } : message
+      );
+      return { ...prev, [path]: { ...current, messages } };
+    });
+
+    setThreads(prev => ({
+      ...prev,
+      [path]: {
+        path,
+        summary,
+        messages: [
+          ...history,
+          { id: messageId(), role: 'user', content: question },
+          { id: answerId, role: 'assistant', content: '', streaming: true }
+        ]
+      }
+    }));
 
+    // Keyed by file, so asking again in the same thread stops the earlier turn
+    const request = trackRequest(`#thread:${path}`);
     try {
       const startTime = Date.now();
-      const explanation = await generateCodeQuestionResponse(
-        question, 
-        filePath, 
-        fileContent, 
-        repoName, 
-        apiKey
+      // Older turns are folded into the summary once the history grows too long
+      const older = messagesToSummarize(history, summary);
+      if (older) {
+        const folded = await summarizeConversation(path, summary?.content || null, formatTranscript(older), repoName, apiKey, request.signal);
+        if (folded.incomplete) {
+          setAnswer({ content: '', incomplete: true });
+          return;
+        }
+        const updated = { content: folded.content, count: (summary?.count || 0) + older.length };
+        summary = updated;
+        setThreads(prev => (prev[path] ? { ...prev, [path]: { ...prev[path], summary: updated } } : prev));
+      }
+
+      const answer = await generateCodeQuestionResponse(
+        question,
+        path,
+        fileContent,
+        repoName,
+        apiKey,
+        formatThreadHistory(history, summary),
+        {
+          signal: request.signal,
+          onText: partial => {
+            if (!request.signal.aborted) setAnswer({ content: partial, streaming: true });
+          },
+          onQueue: position => setQueuePosition(answerId, position)
+        }
       );
-      const duration = Date.now() - startTime;
-      console.log(`Question response generated in ${duration}ms`);
-
-      const questionKey = `${filePath}_question_${Date.now()}`;
-      setExplanations(prev => ({
-        ...prev,
-        [questionKey]: explanation
-      }));
+      console.log(`Question response generated in ${Date.now() - startTime}ms`);
+      setAnswer(answer);
+    } catch (err) {
+      console.error(err);
+      setAnswer(failedExplanation(err));
+    } finally {
+      request.done();
+    }
+  };
+
+  const askInThread = (path: string, question: string, fileContent: string) => {
+    const thread = threads[path] || emptyThread(path);
+    return runThreadTurn(thread, thread.messages, question, fileContent);
+  };
+
+  const editThreadMessage = async (path: string, id: string, question: string, fileContent: string) => {
+    const thread = threads[path];
+    const index = thread ? thread.messages.findIndex(message => message.id === id && message.role === 'user') : -1;
+    if (index === -1) return;
+    await runThreadTurn(thread, thread.messages.slice(0, index), question, fileContent);
+  };
+
+  const regenerateThreadMessage = async (path: string, id: string, fileContent: string) => {
+    const thread = threads[path];
+    const index = thread ? thread.messages.findIndex(message => message.id === id && message.role === 'assistant') : -1;
+    const asked = index > 0 ? thread.messages[index - 1] : null;
+    if (!asked || asked.role !== 'user') return;
+    await runThreadTurn(thread, thread.messages.slice(0, index - 1), asked.content, fileContent);
+  };
+
+  const clearThread = (path: string) => {
+    setThreads(prev => {
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    });
+  };
+
+  const generateRepoQuestion = async (question: string, index: RepoIndex) => {
+    const questionKey = `${REPO_QUESTION_PREFIX}${Date.now()}`;
+    const request = startRequest(questionKey);
+    try {
+      const explanation = await generateRepoQuestionResponse(question, index, repoName, apiKey, request);
+      settleExplanation(questionKey, request, { ...explanation, question });
+    } catch (err) {
+      console.error(err);
+      settleExplanation(questionKey, request, { ...failedExplanation(err), question });
+    } finally {
+      request.done();
+    }
+  };
+
+  const generateRepoOverview = async (structure: unknown, readme: string | null) => {
+    if ((repoOverview && isCacheable(repoOverview)) || owners.current.has('#overview')) return;
+
+    const cacheKey = cacheService.generateKey(repoName, commitSha, '', 'repo_overview');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      creditCacheHit({ purpose: 'repo_overview' }, cached);
+      setRepoOverview(cached);
+      return;
+    }
+
+    const request = trackRequest('#overview');
+    setRepoOverview({ content: '', streaming: true });
+    try {
+      const overview = await generateRepoExplanation(repoName, structure, readme, apiKey, {
+        signal: request.signal,
+        onText: partial => {
+          if (request.owns()) setRepoOverview({ content: partial, streaming: true });
+        },
+        onQueue: request.onQueue
+      });
+      if (isCacheable(overview)) {
+        cacheService.set(cacheKey, overview);
+      }
+      if (request.owns()) setRepoOverview(overview);
+    } catch (err) {
+      console.error(err);
+      if (request.owns()) setRepoOverview(failedExplanation(err));
+    } finally {
+      request.done();
+    }
+  };
+
+  // Reviews are cached per head SHA, so a force-push gets a fresh review
+  const generatePullRequestReview = async (file: PullRequestFile, retry = false) => {
+    const existing = prReviews[file.path];
+    const reviewKey = `#review:${file.path}`;
+    if (!pullRequest || (existing && !(retry && existing.error)) || owners.current.has(reviewKey)) return;
+
+    const cacheKey = cacheService.generateKey(repoName, pullRequest.head_sha, file.path, 'pr_review');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      creditCacheHit({ purpose: 'pr_review', path: file.path }, cached);
+      setPrReviews(prev => ({ ...prev, [file.path]: cached }));
+      return;
+    }
+
+    const request = trackRequest(reviewKey);
+    setPrReviews(prev => {
+      const next = { ...prev };
+      delete next[file.path];
+      return next;
+    });
+    try {
+      const review = await generatePullRequestFileReview(pullRequest, file, repoName, apiKey, request);
+      if (isCacheable(review)) {
+        cacheService.set(cacheKey, review);
+      }
+      if (request.owns()) setPrReviews(prev => ({ ...prev, [file.path]: review }));
+    } catch (err) {
+      console.error(err);
+      if (request.owns()) setPrReviews(prev => ({ ...prev, [file.path]: failedExplanation(err) }));
+    } finally {
+      request.done();
+    }
+  };
+
+  const generatePullRequestOverview = async (retry = false) => {
+    if (!pullRequest || (prNarrative && !(retry && prNarrative.error)) || owners.current.has('#narrative')) return;
+
+    const cacheKey = cacheService.generateKey(repoName, pullRequest.head_sha, `pull_${pullRequest.number}`, 'pr_narrative');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      creditCacheHit({ purpose: 'pr_narrative' }, cached);
+      setPrNarrative(cached);
+      return;
+    }
+
+    const request = trackRequest('#narrative');
+    setPrNarrative(null);
+    try {
+      // File reviews already generated give the narrative better input than raw patches
+      const fileReviews: Record<string, string> = {};
+      Object.entries(prReviews).forEach(([path, review]) => {
+        if (isCacheable(review)) {
+          fileReviews[path] = review.content;
+        }
+      });
+
+      const narrative = await generatePullRequestNarrative(pullRequest, fileReviews, repoName, apiKey, request);
+      if (isCacheable(narrative)) {
+        cacheService.set(cacheKey, narrative);
+      }
+      if (request.owns()) setPrNarrative(narrative);
+    } catch (err) {
+      console.error(err);
+      if (request.owns()) setPrNarrative(failedExplanation(err));
+    } finally {
+      request.done();
+    }
+  };
+
+  const generateHistorySummary = async (
+    path: string,
+    commits: FileCommit[],
+    loadKeyDiffs: () => Promise<Array<{ commit: FileCommit; diff: PullRequestFile }>>,
+    retry = false
+  ) => {
+    const historyKey = `#history:${path}`;
+    const existing = historySummaries[path];
+    if ((existing && !(retry && existing.error)) || owners.current.has(historyKey)) return;
+
+    const cacheKey = cacheService.generateKey(repoName, commitSha, path, 'file_history');
+    const cached = cacheService.get<Explanation>(cacheKey);
+    if (cached) {
+      creditCacheHit({ purpose: 'file_history', path }, cached);
+      setHistorySummaries(prev => ({ ...prev, [path]: cached }));
+      return;
+    }
+
+    const request = trackRequest(historyKey);
+    setHistorySummaries(prev => {
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    });
+    try {
+      const keyDiffs = await loadKeyDiffs();
+      const summary = await generateFileHistorySummary(path, commits, keyDiffs, repoName, apiKey, request);
+      if (isCacheable(summary)) {
+        cacheService.set(cacheKey, summary);
+      }
+      if (request.owns()) setHistorySummaries(prev => ({ ...prev, [path]: summary }));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while generating response');
       console.error(err);
+      if (request.owns()) setHistorySummaries(prev => ({ ...prev, [path]: failedExplanation(err) }));
     } finally {
-      setGenerating(false);
+      request.done();
     }
   };
 
+  // Explanations, answers and conversation turns count as generating; the
+  // overview, reviews and history summaries show their own progress
+  const inFlightKeys = Object.keys(inFlight);
+  const generating = inFlightKeys.some(key => !/^#(overview|narrative|review:|history:)/.test(key));
+  const reviewing = inFlightKeys.some(key => key === '#narrative' || key.startsWith('#review:'));
+
   const value = {
     explanations,
     generating,
-    error,
+    isGenerating: (key: string) => Boolean(inFlight[key]),
+    queuePositions,
     architectureDiagram,
     setArchitectureDiagram,
+    packageDiagrams,
+    setPackageDiagram,
     generateExplanation,
-    generateQuestionResponse
+    threads,
+    askInThread,
+    editThreadMessage,
+    regenerateThreadMessage,
+    clearThread,
+    generateRepoQuestion,
+    cancelGeneration,
+    discardExplanation,
+    repoOverview,
+    generateRepoOverview,
+    usage,
+    generateMetadataExplanation,
+    prReviews,
+    prNarrative,
+    reviewing,
+    generatePullRequestReview,
+    generatePullRequestOverview,
+    historySummaries,
+    generateHistorySummary
   };
 
   return (
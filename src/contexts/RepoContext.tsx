@@ -1,16 +1,51 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { GitHubRepo, GitHubFile, fetchGitHubRepo, fetchGitHubDirContents, fetchGitHubFileContent } from '../services/githubApi';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { PullRequest, RepoTarget, SourceFile, SourceProvider, SourceRef, SourceRepo } from '../services/providers/types';
+import { getProviderById, getProviderForUrl, loadRepository, splitRefAndPath } from '../services/providers';
+import { LocalProvider } from '../services/providers/local';
+import { findTreeNode, listTreeChildren } from '../services/treeLoader';
+import { RepoSnapshot, getSnapshotId, snapshotStore } from '../services/snapshotStore';
+import { FileInfo, classifyByPath, classifyContent } from '../services/fileKinds';
+import { Workspace, detectWorkspace } from '../services/workspaces';
+import { isAbortError } from '../services/abort';
+import { RepoIndex, buildRepoIndex, selectIndexFiles } from '../services/repoIndex';
 
 interface RepoContextType {
-  repo: GitHubRepo | null;
-  selectedFile: GitHubFile | null;
+  repo: SourceRepo | null;
+  // Provider the current repo was loaded from (GitHub, GitLab, Gitea, local files)
+  provider: SourceProvider | null;
+  selectedFile: SourceFile | null;
   fileContents: Record<string, string>;
+  // Kind of every opened file; images, binaries, LFS pointers and oversized
+  // files have no entry in fileContents
+  fileInfo: Record<string, FileInfo>;
+  target: RepoTarget | null;
+  // Set when a pull request URL was opened; the repo is loaded at its head
+  pullRequest: PullRequest | null;
+  // Monorepo packages, once the manifests have been read; null for single-package repos
+  workspace: Workspace | null;
+  // Package that explanations and diagrams are narrowed to, with its internal dependents
+  packageScope: string | null;
+  setPackageScope: (name: string | null) => void;
+  // Search index over the repository's files for repo-wide questions, built on first use
+  repoIndex: RepoIndex | null;
+  // Files read so far while the index is being built
+  indexProgress: { done: number; total: number } | null;
+  // Resolves to the index, or null when building it was cancelled
+  loadRepoIndex: () => Promise<RepoIndex | null>;
+  cancelRepoIndex: () => void;
   loading: boolean;
   error: string | null;
-  setSelectedFile: (file: GitHubFile | null) => void;
-  fetchRepo: (url: string) => Promise<void>;
-  fetchFileContent: (file: GitHubFile) => Promise<void>;
-  fetchDirectoryContents: (dir: GitHubFile) => Promise<GitHubFile[]>;
+  setSelectedFile: (file: SourceFile | null) => void;
+  setTarget: (target: RepoTarget | null) => void;
+  fetchRepo: (url: string, token?: string) => Promise<void>;
+  openLocalSource: (loadProvider: () => Promise<LocalProvider>) => Promise<void>;
+  // Reopens a saved session without touching the network
+  restoreSnapshot: (snapshot: RepoSnapshot) => void;
+  fetchFileContent: (file: SourceFile) => Promise<void>;
+  fetchDirectoryContents: (dir: SourceFile) => Promise<SourceFile[]>;
+  refs: SourceRef[];
+  loadRefs: () => Promise<void>;
+  selectRef: (ref: string) => Promise<void>;
   resetRepo: () => void;
 }
 
@@ -29,18 +64,73 @@ interface RepoProviderProps {
 }
 
 export const RepoProvider: React.FC<RepoProviderProps> = ({ children }) => {
-  const [repo, setRepo] = useState<GitHubRepo | null>(null);
-  const [selectedFile, setSelectedFile] = useState<GitHubFile | null>(null);
+  const [repo, setRepo] = useState<SourceRepo | null>(null);
+  const [provider, setProvider] = useState<SourceProvider | null>(null);
+  const [selectedFile, setSelectedFile] = useState<SourceFile | null>(null);
   const [fileContents, setFileContents] = useState<Record<string, string>>({});
+  const [fileInfo, setFileInfo] = useState<Record<string, FileInfo>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [refs, setRefs] = useState<SourceRef[]>([]);
+  const [target, setTarget] = useState<RepoTarget | null>(null);
+  const [pullRequest, setPullRequest] = useState<PullRequest | null>(null);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [packageScope, setPackageScope] = useState<string | null>(null);
+  const [repoIndex, setRepoIndex] = useState<RepoIndex | null>(null);
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const indexController = useRef<AbortController | null>(null);
+  // Download of the file being opened; opening another one stops it
+  const fileController = useRef<AbortController | null>(null);
 
-  const fetchRepo = async (url: string) => {
+  const fetchRepo = async (url: string, token?: string) => {
     setLoading(true);
     setError(null);
     try {
-      const repoData = await fetchGitHubRepo(url);
+      // The host of the pasted URL decides which provider serves the repo
+      const sourceProvider = getProviderForUrl(url);
+      if (token !== undefined) {
+        sourceProvider.setToken(token);
+      }
+
+      // Deep links (tree/blob URLs) carry a ref, a path and maybe a line range
+      const parsed = sourceProvider.parseUrl(url);
+      const coordinates = { owner: parsed.owner, name: parsed.name };
+      let ref: string | undefined;
+      let targetPath = '';
+      let pull: PullRequest | null = null;
+
+      if (parsed.kind === 'pull' && parsed.pullNumber) {
+        if (!sourceProvider.getPullRequest) {
+          throw new Error(`Pull request review is not supported for ${sourceProvider.label} yet.`);
+        }
+        // Reviews read the code as it is at the PR's head commit
+        pull = await sourceProvider.getPullRequest(coordinates, parsed.pullNumber);
+        ref = pull.head_sha;
+      } else if (parsed.refAndPath.length > 0) {
+        const split = await splitRefAndPath(sourceProvider, coordinates, parsed.refAndPath);
+        ref = split.ref;
+        targetPath = split.path;
+      }
+
+      const repoData = await loadRepository(sourceProvider, coordinates, ref);
+      let urlTarget: RepoTarget | null = null;
+
+      if (targetPath) {
+        // Some URL forms don't say whether they point at a file; the tree does
+        const node = repoData.tree ? findTreeNode(repoData.tree.root, targetPath) : null;
+        const type = parsed.kind === 'blob' ? 'file' : parsed.kind === 'tree' ? 'dir' : node?.type || 'file';
+        urlTarget = { path: targetPath, type, lineRange: parsed.lineRange };
+      }
+
+      // Files read during an earlier visit to this commit come from its snapshot
+      const snapshot = await snapshotStore.get(getSnapshotId(repoData));
+
+      setProvider(sourceProvider);
       setRepo(repoData);
+      setFileContents(snapshot?.fileContents || {});
+      setFileInfo({});
+      setTarget(urlTarget);
+      setPullRequest(pull);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while fetching the repository');
       console.error(err);
@@ -49,36 +139,189 @@ export const RepoProvider: React.FC<RepoProviderProps> = ({ children }) => {
     }
   };
 
-  const fetchFileContent = async (file: GitHubFile) => {
-    if (!repo || !file.download_url) return;
-    
+  // Opens a folder or zip read in the browser; the provider is built by the
+  // caller because reading the files needs the original input or drop event
+  const openLocalSource = async (loadProvider: () => Promise<LocalProvider>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const localProvider = await loadProvider();
+      const repoData = await loadRepository(localProvider, { owner: 'local', name: localProvider.repoName });
+
+      setProvider(localProvider);
+      setRepo(repoData);
+      setFileContents({});
+      setFileInfo({});
+      setTarget(null);
+      setPullRequest(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while reading the local files');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreSnapshot = (snapshot: RepoSnapshot) => {
+    const snapshotProvider = getProviderById(snapshot.repo.provider_id);
+    if (!snapshotProvider) {
+      setError(`The host of ${snapshot.repo.owner}/${snapshot.repo.name} is no longer configured. Add it under self-hosted providers.`);
+      return;
+    }
+
+    setError(null);
+    setProvider(snapshotProvider);
+    setRepo(snapshot.repo);
+    setFileContents(snapshot.fileContents);
+    setFileInfo({});
+    setSelectedFile(null);
+    setTarget(null);
+    setPullRequest(null);
+    setRefs([]);
+  };
+
+  // Workspace manifests are read in the background once the tree is in
+  useEffect(() => {
+    setWorkspace(null);
+    setPackageScope(null);
+    if (!repo?.tree || !provider) return;
+
+    let cancelled = false;
+    detectWorkspace(repo.tree.root, path => provider.readFile(repo, path, repo.commit_sha, { priority: 'background' }))
+      .then(detected => {
+        if (!cancelled) setWorkspace(detected);
+      })
+      .catch(err => console.warn('Workspace detection failed:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repo, provider]);
+
+  // An index belongs to one commit; a build still running for the old one is
+  // stopped, as is a file download
+  useEffect(() => {
+    setRepoIndex(null);
+    return () => {
+      fileController.current?.abort();
+      fileController.current = null;
+      indexController.current?.abort();
+      indexController.current = null;
+      setIndexProgress(null);
+    };
+  }, [repo]);
+
+  const loadRepoIndex = async (): Promise<RepoIndex | null> => {
+    if (repoIndex) return repoIndex;
+    if (!repo || !provider || indexController.current) return null;
+
+    const controller = new AbortController();
+    indexController.current = controller;
+    const root = repo.tree?.root || { name: repo.name, type: 'dir' as const, path: '', children: repo.files };
+    const { files, total } = selectIndexFiles(root);
+    setIndexProgress({ done: 0, total: files.length });
+    try {
+      // Files already open are not read again
+      const index = await buildRepoIndex(
+        files,
+        total,
+        path => fileContents[path] !== undefined
+          ? Promise.resolve(fileContents[path])
+          : provider.readFile(repo, path, repo.commit_sha, { priority: 'background', signal: controller.signal }),
+        done => {
+          if (!controller.signal.aborted) setIndexProgress({ done, total: files.length });
+        },
+        controller.signal
+      );
+      if (controller.signal.aborted) return null;
+      setRepoIndex(index);
+      return index;
+    } catch (err) {
+      // Unreadable files are skipped while building, so this is a cancel
+      if (!isAbortError(err)) console.error(err);
+      return null;
+    } finally {
+      if (indexController.current === controller) {
+        indexController.current = null;
+        setIndexProgress(null);
+      }
+    }
+  };
+
+  const cancelRepoIndex = () => {
+    indexController.current?.abort();
+  };
+
+  // Saves the tree and every file read so far; explanations are saved by
+  // ExplanationContext into the same snapshot. Local sources are not kept.
+  useEffect(() => {
+    if (!repo || !provider || provider.kind === 'local') return;
+
+    const timer = setTimeout(() => snapshotStore.update(repo, { repo, fileContents }), 500);
+    return () => clearTimeout(timer);
+  }, [repo, provider, fileContents]);
+
+  const fetchFileContent = async (file: SourceFile) => {
+    if (!repo || !provider || file.type !== 'file') return;
+
+    fileController.current?.abort();
+    fileController.current = null;
+
     if (fileContents[file.path]) {
       // Content already loaded
       setSelectedFile(file);
       return;
     }
 
+    // Images, binaries and very large files are never read as text
+    const guess = classifyByPath(file.path, file.size);
+    if (guess.kind !== 'text') {
+      setFileInfo(prev => ({ ...prev, [file.path]: guess }));
+      setSelectedFile(file);
+      return;
+    }
+
+    const controller = new AbortController();
+    fileController.current = controller;
     try {
-      const content = await fetchGitHubFileContent(file.download_url);
-      setFileContents(prev => ({
-        ...prev,
-        [file.path]: content
-      }));
+      const content = await provider.readFile(repo, file.path, repo.commit_sha, { signal: controller.signal });
+      const info = classifyContent(file.path, content, file.size);
+      setFileInfo(prev => ({ ...prev, [file.path]: info }));
+      if (info.kind === 'text') {
+        setFileContents(prev => ({
+          ...prev,
+          [file.path]: content
+        }));
+      }
       setSelectedFile(file);
     } catch (err) {
+      // Another file was opened meanwhile
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'An error occurred while fetching file content');
       console.error(err);
+    } finally {
+      if (fileController.current === controller) {
+        fileController.current = null;
+      }
     }
   };
 
-  const fetchDirectoryContents = async (dir: GitHubFile): Promise<GitHubFile[]> => {
-    if (!repo) return [];
+  const fetchDirectoryContents = async (dir: SourceFile): Promise<SourceFile[]> => {
+    if (!repo || !provider) return [];
 
     try {
       // Make sure we're using the correct path format for the API
       const path = dir.path.startsWith('/') ? dir.path.substring(1) : dir.path;
+
+      // Served from the recursive tree loaded with the repo; only a truncated
+      // tree that is missing this directory needs a network call.
+      const fromTree = repo.tree ? listTreeChildren(repo.tree, path) : null;
+      if (fromTree) {
+        return fromTree;
+      }
+
       console.log('RepoContext: Fetching directory contents for:', path);
-      const contents = await fetchGitHubDirContents(repo.owner, repo.name, path);
+      const contents = await provider.listDir(repo, path, repo.commit_sha);
       console.log('RepoContext: Received', contents.length, 'items');
       return contents;
     } catch (err) {
@@ -88,23 +331,68 @@ export const RepoProvider: React.FC<RepoProviderProps> = ({ children }) => {
     }
   };
 
+  const loadRefs = async () => {
+    if (!repo || !provider) return;
+
+    const repoRefs = await provider.listRefs(repo);
+    setRefs(repoRefs);
+  };
+
+  // Re-pins the repo to another branch, tag or commit. Errors are thrown to
+  // the caller (the ref picker) so the current snapshot stays usable.
+  const selectRef = async (ref: string) => {
+    if (!repo || !provider) return;
+
+    const repoData = await loadRepository(provider, repo, ref, repo.default_branch);
+    const snapshot = await snapshotStore.get(getSnapshotId(repoData));
+    setSelectedFile(null);
+    setFileContents(snapshot?.fileContents || {});
+    setFileInfo({});
+    setTarget(null);
+    // Browsing another ref leaves pull request review
+    setPullRequest(null);
+    setRepo(repoData);
+  };
+
   const resetRepo = () => {
     setRepo(null);
+    setProvider(null);
     setSelectedFile(null);
     setFileContents({});
+    setFileInfo({});
+    setRefs([]);
+    setTarget(null);
+    setPullRequest(null);
     setError(null);
   };
 
   const value = {
     repo,
+    provider,
     selectedFile,
     fileContents,
+    fileInfo,
+    target,
+    pullRequest,
+    workspace,
+    packageScope,
+    setPackageScope,
+    repoIndex,
+    indexProgress,
+    loadRepoIndex,
+    cancelRepoIndex,
     loading,
     error,
     setSelectedFile,
+    setTarget,
     fetchRepo,
+    openLocalSource,
+    restoreSnapshot,
     fetchFileContent,
     fetchDirectoryContents,
+    refs,
+    loadRefs,
+    selectRef,
     resetRepo
   };
 
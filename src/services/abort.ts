@@ -0,0 +1,30 @@
+// Shared pieces for cancelling queued and in-flight work with an AbortSignal.
+// Aborts surface as the same 'AbortError' fetch throws, so one check covers both.
+
+export const abortError = (): Error => new DOMException('The request was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+};
+
+// setTimeout as a promise that rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
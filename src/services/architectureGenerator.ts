@@ -7,12 +7,14 @@ class ArchitectureGeneratorService {
         repoName: string,
         repoStructure: any,
         analysis: CodebaseAnalysis,
-        apiKey: string
+        apiKey: string,
+        workspaceNote?: string,
+        signal?: AbortSignal
     ): Promise<string> {
 
         // Phase 1: Get Structured Data from Gemini
         console.log('Phase 1: Extracting Architecture Data...');
-        const architectureData = await extractArchitectureData(repoName, repoStructure, analysis, apiKey);
+        const architectureData = await extractArchitectureData(repoName, repoStructure, analysis, apiKey, workspaceNote, signal);
 
         // Phase 2: Convert to Mermaid
         console.log('Phase 2: Converting to Mermaid...');
@@ -0,0 +1,87 @@
+import { validateArchitectureData } from './architectureSchema';
+
+const component = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: id.toUpperCase(),
+  type: 'service',
+  layer: 'services',
+  responsibilities: ['does things'],
+  ...overrides,
+});
+
+describe('validateArchitectureData', () => {
+  test('accepts well-formed data unchanged', () => {
+    const data = {
+      components: [component('api'), component('db', { type: 'model', layer: 'data' })],
+      relationships: [{ from: 'api', to: 'db', type: 'uses', description: 'reads rows' }],
+      layers: ['Services', 'Data'],
+    };
+
+    expect(validateArchitectureData(data)).toEqual({ errors: [], salvaged: data });
+  });
+
+  test.each([null, 'text', 42, [component('api')]])('rejects %p as not an object', value => {
+    const result = validateArchitectureData(value);
+    expect(result.salvaged).toBeNull();
+    expect(result.errors).toEqual(['The answer must be a JSON object with components, relationships and layers.']);
+  });
+
+  test('reports missing arrays and salvages nothing without components', () => {
+    const result = validateArchitectureData({ components: 'api', layers: 'services' });
+    expect(result.salvaged).toBeNull();
+    expect(result.errors).toEqual([
+      '"components" must be an array.',
+      '"relationships" must be an array.',
+      '"layers" must be an array of layer names.',
+    ]);
+  });
+
+  test('salvages nothing from an empty architecture', () => {
+    const result = validateArchitectureData({ components: [], relationships: [], layers: [] });
+    expect(result.salvaged).toBeNull();
+    expect(result.errors).toEqual(['"components" must list at least one component.']);
+  });
+
+  test('drops invalid entries, keeps the rest and says what was wrong', () => {
+    const result = validateArchitectureData({
+      components: [
+        component('api'),
+        component('api'),
+        component('ui', { type: 'widget' }),
+        component('store', { layer: 'cloud' }),
+        { id: '', name: 'Nameless' },
+        'not an object',
+        component('db', { layer: 'data', responsibilities: ['stores', '', 3] }),
+      ],
+      relationships: [
+        { from: 'api', to: 'db', type: 'calls' },
+        { from: 'api', to: 'ui', type: 'calls' },
+        { from: 'api', to: 'db', type: 'talks_to' },
+      ],
+      layers: ['services'],
+    });
+
+    expect(result.salvaged).toEqual({
+      components: [component('api'), component('db', { layer: 'data', responsibilities: ['stores'] })],
+      relationships: [{ from: 'api', to: 'db', type: 'calls' }],
+      // Layers used by surviving components are added
+      layers: ['services', 'data'],
+    });
+    expect(result.errors).toEqual([
+      'components[1] ("api") duplicates the id "api"; component ids must be unique.',
+      expect.stringContaining('components[2] ("ui") has unknown type "widget"'),
+      expect.stringContaining('components[3] ("store") has unknown layer "cloud"'),
+      'components[4] needs a non-empty "id" and "name".',
+      'components[5] must be an object.',
+      'relationships[1] refers to "ui", which is not a component id.',
+      expect.stringContaining('relationships[2] has unknown type "talks_to"'),
+      '"layers" is missing "data", used by components.',
+    ]);
+  });
+
+  test('fills in the layers of a partial answer that left them out', () => {
+    const result = validateArchitectureData({ components: [component('api')], relationships: [] });
+    expect(result.errors).toEqual(['"layers" must be an array of layer names.']);
+    expect(result.salvaged).toEqual({ components: [component('api')], relationships: [], layers: ['services'] });
+  });
+});
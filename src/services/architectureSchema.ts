@@ -0,0 +1,161 @@
+// JSON schema and runtime validation for the architecture data the model returns.
+// Both come from the enum lists in types/architecture, so the prompt, the
+// structured-output mode and the checks never disagree.
+import {
+  ArchitectureComponent,
+  ArchitectureData,
+  ArchitectureRelationship,
+  COMPONENT_LAYERS,
+  COMPONENT_TYPES,
+  RELATIONSHIP_TYPES
+} from '../types/architecture';
+import { JsonSchema } from './llm';
+
+export const ARCHITECTURE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'unique_snake_case_id' },
+          name: { type: 'string' },
+          type: { type: 'string', enum: COMPONENT_TYPES },
+          layer: { type: 'string', enum: COMPONENT_LAYERS },
+          responsibilities: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['id', 'name', 'type', 'layer', 'responsibilities'],
+        additionalProperties: false
+      }
+    },
+    relationships: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', description: 'id of an entry in components' },
+          to: { type: 'string', description: 'id of an entry in components' },
+          type: { type: 'string', enum: RELATIONSHIP_TYPES },
+          description: { type: 'string' }
+        },
+        required: ['from', 'to', 'type'],
+        additionalProperties: false
+      }
+    },
+    layers: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['components', 'relationships', 'layers'],
+  additionalProperties: false
+};
+
+export interface ArchitectureValidation {
+  // Every problem found, phrased so it can be sent back to the model
+  errors: string[];
+  // What survives once invalid entries are dropped; null when not even the
+  // top-level shape was usable
+  salvaged: ArchitectureData | null;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const oneOf = <T extends string>(allowed: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+export const validateArchitectureData = (value: unknown): ArchitectureValidation => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { errors: ['The answer must be a JSON object with components, relationships and layers.'], salvaged: null };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const components: ArchitectureComponent[] = [];
+  const relationships: ArchitectureRelationship[] = [];
+  const ids = new Set<string>();
+
+  if (!Array.isArray(data.components)) {
+    errors.push('"components" must be an array.');
+  } else if (data.components.length === 0) {
+    errors.push('"components" must list at least one component.');
+  } else {
+    data.components.forEach((raw: any, index) => {
+      const where = `components[${index}]${raw && isString(raw.id) ? ` ("${raw.id}")` : ''}`;
+      if (!raw || typeof raw !== 'object') {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      if (!isString(raw.id) || !isString(raw.name)) {
+        errors.push(`${where} needs a non-empty "id" and "name".`);
+        return;
+      }
+      if (ids.has(raw.id)) {
+        errors.push(`${where} duplicates the id "${raw.id}"; component ids must be unique.`);
+        return;
+      }
+      if (!oneOf(COMPONENT_TYPES, raw.type)) {
+        errors.push(`${where} has unknown type "${raw.type}"; use one of ${COMPONENT_TYPES.join(', ')}.`);
+        return;
+      }
+      if (!oneOf(COMPONENT_LAYERS, raw.layer)) {
+        errors.push(`${where} has unknown layer "${raw.layer}"; use one of ${COMPONENT_LAYERS.join(', ')}.`);
+        return;
+      }
+      ids.add(raw.id);
+      components.push({
+        id: raw.id,
+        name: raw.name,
+        type: raw.type,
+        layer: raw.layer,
+        responsibilities: Array.isArray(raw.responsibilities) ? raw.responsibilities.filter(isString) : []
+      });
+    });
+  }
+
+  if (!Array.isArray(data.relationships)) {
+    errors.push('"relationships" must be an array.');
+  } else {
+    data.relationships.forEach((raw: any, index) => {
+      const where = `relationships[${index}]`;
+      if (!raw || typeof raw !== 'object') {
+        errors.push(`${where} must be an object.`);
+        return;
+      }
+      const dangling = [raw.from, raw.to].filter(id => !isString(id) || !ids.has(id));
+      if (dangling.length > 0) {
+        errors.push(`${where} refers to ${dangling.map(id => `"${id}"`).join(' and ')}, which ${dangling.length > 1 ? 'are' : 'is'} not a component id.`);
+        return;
+      }
+      if (!oneOf(RELATIONSHIP_TYPES, raw.type)) {
+        errors.push(`${where} has unknown type "${raw.type}"; use one of ${RELATIONSHIP_TYPES.join(', ')}.`);
+        return;
+      }
+      relationships.push({
+        from: raw.from,
+        to: raw.to,
+        type: raw.type,
+        ...(isString(raw.description) ? { description: raw.description } : {})
+      });
+    });
+  }
+
+  let layers: string[];
+  if (Array.isArray(data.layers) && data.layers.every(isString)) {
+    layers = data.layers as string[];
+  } else {
+    errors.push('"layers" must be an array of layer names.');
+    layers = [];
+  }
+  // Components are grouped by these names, so every layer in use needs one
+  const used = Array.from(new Set(components.map(c => c.layer)));
+  const missing = used.filter(layer => !layers.some(name => name.toLowerCase() === layer));
+  if (missing.length > 0 && layers.length > 0) {
+    errors.push(`"layers" is missing ${missing.map(layer => `"${layer}"`).join(', ')}, used by components.`);
+  }
+
+  return {
+    errors,
+    salvaged: components.length > 0
+      ? { components, relationships, layers: [...layers, ...missing] }
+      : null
+  };
+};
@@ -1,4 +1,8 @@
 
+import { promptLibraryFingerprint } from './promptTemplates';
+import { explanationSettingsKey, getExplanationSettings } from './explanationSettings';
+import { fnv1a } from './hash';
+
 // Simple LocalStorage Wrapper for Caching AI Responses
 const CACHE_PREFIX = 'gemini_cache_';
 const CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -44,9 +48,17 @@ export const cacheService = {
         }
     },
 
-    // Helper to generate a stable key for repo requests
-    generateKey: (repoName: string, path: string, type: 'explanation' | 'diagram' | 'code_qa'): string => {
+    // Helper to generate a stable key for repo requests.
+    // `ref` should be a commit SHA so cached results stay tied to one snapshot
+    // (the head SHA for pull request reviews).
+    generateKey: (repoName: string, ref: string, path: string, type: 'explanation' | 'diagram' | 'code_qa' | 'pr_review' | 'pr_narrative' | 'file_history' | 'repo_overview'): string => {
         // Sanitize to be safe for keys
-        return `${repoName.replace(/[^a-zA-Z0-9]/g, '_')}_${type}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+        const safe = (value: string) => value.replace(/[^a-zA-Z0-9]/g, '_');
+        // Edited prompt templates get answers of their own
+        const prompts = promptLibraryFingerprint();
+        // ...and so does each audience, length and language; hashed, as
+        // language names may be written in any script
+        const style = explanationSettingsKey(getExplanationSettings());
+        return `${safe(repoName)}_${safe(ref)}_${type}_${safe(path)}${prompts ? `_p${prompts}` : ''}${style ? `_s${fnv1a(style)}` : ''}`;
     }
 };
@@ -0,0 +1,116 @@
+import { chunkBySymbols, formatLineRanges, questionTerms, selectRelevantChunks, terms } from './codeChunks';
+
+const source = [
+  "import { db } from './db';",
+  '',
+  '// Loads one user',
+  'export async function loadUser(id: string) {',
+  '  return db.users.find(id);',
+  '}',
+  '',
+  '/** Saves a user */',
+  '@logged',
+  'export class UserStore {',
+  '  save() {',
+  '    if (this.dirty) {',
+  '      db.write();',
+  '    }',
+  '  }',
+  '}',
+  '',
+  'def parse_config(path):',
+  '    return path',
+].join('\n');
+
+// Every line of the file in exactly one chunk, in order
+const expectContiguous = (content: string, chunks: Array<{ start: number; end: number; text: string }>) => {
+  const lines = content.split('\n');
+  expect(chunks[0].start).toBe(1);
+  expect(chunks[chunks.length - 1].end).toBe(lines.length);
+  chunks.forEach((chunk, i) => {
+    if (i > 0) expect(chunk.start).toBe(chunks[i - 1].end + 1);
+    expect(chunk.text).toBe(lines.slice(chunk.start - 1, chunk.end).join('\n'));
+  });
+};
+
+describe('chunkBySymbols', () => {
+  test('starts each symbol at its leading comments and decorators', () => {
+    const chunks = chunkBySymbols(source, 140);
+    expect(chunks.map(({ start, end, symbols }) => ({ start, end, symbols }))).toEqual([
+      { start: 1, end: 7, symbols: ['loadUser'] },
+      { start: 8, end: 17, symbols: ['UserStore'] },
+      { start: 18, end: 19, symbols: ['parse_config'] },
+    ]);
+    expectContiguous(source, chunks);
+  });
+
+  test('packs whole symbols together up to the size limit without overlap', () => {
+    const chunks = chunkBySymbols(source, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(200));
+    expect(chunks.flatMap(chunk => chunk.symbols)).toEqual(['loadUser', 'UserStore', 'parse_config']);
+    expectContiguous(source, chunks);
+  });
+
+  test('keeps a small file in one chunk', () => {
+    expect(chunkBySymbols(source, 10000)).toEqual([
+      { start: 1, end: 19, text: source, symbols: ['loadUser', 'UserStore', 'parse_config'] },
+    ]);
+  });
+
+  test('splits a symbol larger than the limit at blank lines', () => {
+    const body = Array.from({ length: 6 }, (_, i) => `  const value${i} = ${i};\n`).join('\n');
+    const content = `function big() {\n${body}}`;
+    const chunks = chunkBySymbols(content, 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].symbols).toEqual(['big']);
+    chunks.slice(1).forEach(chunk => expect(chunk.symbols).toEqual([]));
+    // Cuts fall on blank lines, never inside a statement
+    chunks.slice(0, -1).forEach(chunk => expect(chunk.text.endsWith('\n')).toBe(true));
+    expectContiguous(content, chunks);
+  });
+
+  test('never emits an empty chunk, even when every line is over the limit', () => {
+    const chunks = chunkBySymbols(source, 1);
+    chunks.forEach(chunk => expect(chunk.end).toBeGreaterThanOrEqual(chunk.start));
+    expect(chunks.flatMap(chunk => chunk.symbols)).toEqual(['loadUser', 'UserStore', 'parse_config']);
+    expectContiguous(source, chunks);
+  });
+
+  test('does not take control flow for a C-style definition', () => {
+    const chunks = chunkBySymbols('int main(void) {\n  return 0;\n}\nwhile (x) {\n}', 1000);
+    expect(chunks.flatMap(chunk => chunk.symbols)).toEqual(['main']);
+  });
+});
+
+describe('terms', () => {
+  test.each([
+    ['loadUserById', ['load', 'user']],
+    ['parse_config_file', ['parse', 'config', 'file']],
+    ['Where is HTTP auth handled?', ['where', 'http', 'auth', 'handled']],
+  ])('%p', (text, expected) => {
+    expect(terms(text)).toEqual(expected);
+  });
+
+  test('questionTerms drops stop words and duplicates', () => {
+    expect(questionTerms('How does the user store save the user?')).toEqual(['user', 'store', 'save']);
+  });
+});
+
+describe('selectRelevantChunks', () => {
+  const chunks = chunkBySymbols(source, 140);
+
+  test('picks the chunk declaring a named symbol first and returns file order', () => {
+    expect(selectRelevantChunks(chunks, 'What does UserStore do?', 130).map(chunk => chunk.start)).toEqual([8]);
+    expect(selectRelevantChunks(chunks, 'How are users loaded and saved?', 10000).map(chunk => chunk.start)).toEqual([1, 8, 18]);
+  });
+
+  test('always returns at least one chunk', () => {
+    expect(selectRelevantChunks(chunks, 'parse_config', 1)).toHaveLength(1);
+  });
+
+  test('formatLineRanges', () => {
+    expect(formatLineRanges([{ start: 3, end: 3 }, { start: 8, end: 17 }])).toBe('3, 8–17');
+  });
+});
@@ -0,0 +1,194 @@
+// Splits source files along top-level symbol boundaries so large files can be
+// summarized piece by piece, and picks the pieces relevant to a question.
+import { LineRange } from './providers/types';
+
+export interface CodeChunk extends LineRange {
+  // 1-based, inclusive line numbers come from LineRange
+  text: string;
+  // Top-level names declared in the chunk
+  symbols: string[];
+}
+
+// A top-level declaration in the common languages: JS/TS, Python, Go, Rust,
+// Java/C#/Kotlin, Ruby, PHP, C/C++ function definitions
+const DECLARATION_PATTERNS: RegExp[] = [
+  /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/,
+  /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/,
+  /^(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+  /^class\s+([A-Za-z_]\w*)/,
+  /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait|mod)\s+([A-Za-z_]\w*)/,
+  /^impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([A-Za-z_][\w:]*)/,
+  /^(?:public|private|protected|internal)?\s*(?:static\s+|final\s+|abstract\s+|sealed\s+|data\s+)*(?:class|interface|enum|record|object)\s+([A-Za-z_]\w*)/,
+  /^(?:module|class)\s+([A-Z]\w*)/,
+  /^[A-Za-z_][\w\s*&:<>,]*?\b([A-Za-z_]\w*)\s*\([^;]*\)\s*\{?\s*$/,
+];
+
+// Lines that belong to the declaration below them
+const LEADING_PATTERN = /^\s*(?:\/\/|\/\*|\*|#(?!include)|@|\/\/\/|--)/;
+
+// Control flow that the C-style function pattern would otherwise take for a definition
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'try', 'with', 'elif', 'match']);
+
+const declarationName = (line: string): string | null => {
+  // Only unindented lines start a top-level symbol
+  if (!line || /^\s/.test(line)) return null;
+  for (const pattern of DECLARATION_PATTERNS) {
+    const match = line.match(pattern);
+    if (match && !KEYWORDS.has(match[1])) return match[1];
+  }
+  return null;
+};
+
+interface Segment {
+  start: number;
+  end: number;
+  symbol: string | null;
+}
+
+// Line indexes (0-based) where a top-level symbol starts, pulled back over
+// the comments and decorators attached to it
+const findSegments = (lines: string[]): Segment[] => {
+  const starts: Array<{ line: number; symbol: string | null }> = [{ line: 0, symbol: null }];
+  lines.forEach((line, index) => {
+    const name = declarationName(line);
+    if (name === null || index === 0) return;
+    let start = index;
+    while (start > 0 && LEADING_PATTERN.test(lines[start - 1]) && start - 1 > starts[starts.length - 1].line) {
+      start--;
+    }
+    starts.push({ line: start, symbol: name });
+  });
+  starts[0].symbol = declarationName(lines[0]);
+
+  return starts.map((entry, i) => ({
+    start: entry.line,
+    end: (i + 1 < starts.length ? starts[i + 1].line : lines.length) - 1,
+    symbol: entry.symbol
+  }));
+};
+
+// Splits a segment too long for one chunk at blank lines, or at any line
+const splitSegment = (lines: string[], segment: Segment, maxChars: number): Segment[] => {
+  const pieces: Segment[] = [];
+  let start = segment.start;
+  let size = 0;
+  let lastBlank = -1;
+  for (let i = segment.start; i <= segment.end; i++) {
+    size += lines[i].length + 1;
+    if (lines[i].trim() === '') lastBlank = i;
+    if (size > maxChars && i > start) {
+      const cut = lastBlank > start ? lastBlank : i - 1;
+      pieces.push({ start, end: cut, symbol: pieces.length === 0 ? segment.symbol : null });
+      start = cut + 1;
+      size = lines.slice(start, i + 1).reduce((sum, line) => sum + line.length + 1, 0);
+      lastBlank = -1;
+    }
+  }
+  // Nothing is left over when the last cut fell on the segment's last line
+  if (start <= segment.end) {
+    pieces.push({ start, end: segment.end, symbol: pieces.length === 0 ? segment.symbol : null });
+  }
+  return pieces;
+};
+
+/**
+ * Packs whole top-level symbols into chunks of at most `maxChars`; a single
+ * symbol larger than that is split at blank lines.
+ */
+export const chunkBySymbols = (content: string, maxChars: number): CodeChunk[] => {
+  const lines = content.split('\n');
+  const segments = findSegments(lines).flatMap(segment => {
+    const size = lines.slice(segment.start, segment.end + 1).reduce((sum, line) => sum + line.length + 1, 0);
+    return size > maxChars ? splitSegment(lines, segment, maxChars) : [segment];
+  });
+
+  const chunks: CodeChunk[] = [];
+  let current: { start: number; end: number; size: number; symbols: string[] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      start: current.start + 1,
+      end: current.end + 1,
+      text: lines.slice(current.start, current.end + 1).join('\n'),
+      symbols: current.symbols
+    });
+    current = null;
+  };
+
+  segments.forEach(segment => {
+    const size = lines.slice(segment.start, segment.end + 1).reduce((sum, line) => sum + line.length + 1, 0);
+    if (current && current.size + size > maxChars) {
+      flush();
+    }
+    if (!current) {
+      current = { start: segment.start, end: segment.end, size: 0, symbols: [] };
+    }
+    current.end = segment.end;
+    current.size += size;
+    if (segment.symbol) current.symbols.push(segment.symbol);
+  });
+  flush();
+
+  return chunks;
+};
+
+// Words of a question or identifier, with camelCase and snake_case split apart
+export const terms = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 2);
+
+const STOP_WORDS = new Set(['the', 'and', 'does', 'what', 'how', 'why', 'this', 'that', 'with', 'for', 'are', 'from', 'when', 'where', 'which', 'file', 'code', 'function', 'there', 'into', 'can', 'you', 'about']);
+
+// The distinct terms of a question worth searching for
+export const questionTerms = (question: string): string[] =>
+  Array.from(new Set(terms(question).filter(term => !STOP_WORDS.has(term))));
+
+/**
+ * Chunks most relevant to a question, within `maxChars`, in file order.
+ * Relevance is term overlap, with matches on symbol names weighted higher;
+ * the first chunk (imports and setup) wins ties.
+ */
+export const selectRelevantChunks = (chunks: CodeChunk[], question: string, maxChars: number): CodeChunk[] => {
+  const wanted = questionTerms(question);
+  // Identifiers quoted as they appear in the code count in full
+  const identifiers = question.match(/[A-Za-z_$][\w$]{2,}/g) || [];
+
+  const scored = chunks.map((chunk, index) => {
+    const text = chunk.text.toLowerCase();
+    const symbolTerms = chunk.symbols.flatMap(terms);
+    let score = 0;
+    wanted.forEach(term => {
+      const hits = text.split(term).length - 1;
+      score += Math.min(hits, 10);
+      if (symbolTerms.includes(term)) score += 5;
+    });
+    identifiers.forEach(identifier => {
+      if (chunk.symbols.includes(identifier)) score += 20;
+      else if (chunk.text.includes(identifier)) score += 3;
+    });
+    return { chunk, index, score: score + (index === 0 ? 0.5 : 0) };
+  });
+
+  const picked: typeof scored = [];
+  let size = 0;
+  scored
+    .slice()
+    .sort((a, b) => b.score - a.score)
+    .forEach(entry => {
+      if (size + entry.chunk.text.length <= maxChars || picked.length === 0) {
+        picked.push(entry);
+        size += entry.chunk.text.length;
+      }
+    });
+
+  return picked.sort((a, b) => a.index - b.index).map(entry => entry.chunk);
+};
+
+export const formatLineRanges = (ranges: LineRange[]): string =>
+  ranges.map(range => (range.start === range.end ? `${range.start}` : `${range.start}–${range.end}`)).join(', ');
@@ -0,0 +1,79 @@
+// Q&A about a file as a conversation: one thread per file with ordered user
+// and assistant messages. Follow-ups carry the history; once it grows too
+// long, older turns are folded into a running summary.
+import { Explanation } from './geminiApi';
+
+export type ThreadMessage =
+  | { id: string; role: 'user'; content: string }
+  // The answer, with its streaming, error and source state
+  | ({ id: string; role: 'assistant' } & Explanation);
+
+export interface ThreadSummary {
+  content: string;
+  // How many messages from the start of the thread it covers
+  count: number;
+}
+
+export interface Thread {
+  path: string;
+  messages: ThreadMessage[];
+  summary: ThreadSummary | null;
+}
+
+// History sent verbatim before older turns are summarized
+const HISTORY_MAX_CHARS = 6000;
+// The latest messages (two turns) always go out verbatim
+const RECENT_MESSAGES = 4;
+
+let lastId = 0;
+export const messageId = (): string => `${Date.now().toString(36)}-${(lastId++).toString(36)}`;
+
+export const emptyThread = (path: string): Thread => ({ path, messages: [], summary: null });
+
+// Failed or empty answers are left out of what the model sees
+const isUsable = (message: ThreadMessage): boolean =>
+  message.role === 'user' || (!message.error && !message.streaming && message.content.trim() !== '');
+
+export const formatTranscript = (messages: ThreadMessage[]): string =>
+  messages
+    .filter(isUsable)
+    .map(message => `${message.role === 'user' ? 'USER' : 'ASSISTANT'}: ${message.content.trim()}`)
+    .join('\n\n');
+
+/**
+ * The messages to fold into the summary before the next question, or null
+ * while the unsummarized history is still short enough to send as is.
+ */
+export const messagesToSummarize = (messages: ThreadMessage[], summary: ThreadSummary | null): ThreadMessage[] | null => {
+  const from = summary?.count || 0;
+  const size = formatTranscript(messages.slice(from)).length;
+  if (size <= HISTORY_MAX_CHARS || messages.length - from <= RECENT_MESSAGES) {
+    return null;
+  }
+  return messages.slice(from, messages.length - RECENT_MESSAGES);
+};
+
+// The conversation so far as prompt text: the summary, then the turns after it
+export const formatThreadHistory = (messages: ThreadMessage[], summary: ThreadSummary | null): string => {
+  const recent = formatTranscript(messages.slice(summary?.count || 0));
+  const parts = [
+    summary ? `SUMMARY OF THE EARLIER CONVERSATION:\n${summary.content.trim()}` : '',
+    recent ? `RECENT MESSAGES:\n${recent}` : '',
+  ].filter(Boolean);
+  return parts.join('\n\n');
+};
+
+// Threads as saved offline: an answer still streaming is kept as cut off
+export const settledThreads = (threads: Record<string, Thread>): Record<string, Thread> => {
+  const settled: Record<string, Thread> = {};
+  Object.entries(threads).forEach(([path, thread]) => {
+    if (thread.messages.length === 0) return;
+    settled[path] = {
+      ...thread,
+      messages: thread.messages.map(message =>
+        message.role === 'assistant' && message.streaming ? { ...message, streaming: false, incomplete: true } : message
+      ),
+    };
+  });
+  return settled;
+};
@@ -0,0 +1,84 @@
+import { countPatchChanges, extractFileDiff, parsePatch } from './diffParser';
+
+describe('parsePatch', () => {
+  test('numbers lines against the old and the new file across hunks', () => {
+    const patch = [
+      '@@ -10,3 +10,4 @@ function a() {',
+      ' keep',
+      '-old',
+      '+new',
+      '+added',
+      '\\ No newline at end of file',
+      '@@ -40,2 +41,1 @@',
+      ' tail',
+      '-gone',
+      '',
+    ].join('\n');
+
+    expect(parsePatch(patch)).toEqual([
+      { type: 'hunk', content: '@@ -10,3 +10,4 @@ function a() {' },
+      { type: 'context', content: 'keep', oldLine: 10, newLine: 10 },
+      { type: 'del', content: 'old', oldLine: 11 },
+      { type: 'add', content: 'new', newLine: 11 },
+      { type: 'add', content: 'added', newLine: 12 },
+      { type: 'hunk', content: '@@ -40,2 +41,1 @@' },
+      { type: 'context', content: 'tail', oldLine: 40, newLine: 41 },
+      { type: 'del', content: 'gone', oldLine: 41 },
+    ]);
+  });
+
+  test.each([
+    ['@@ -1 +1 @@\n-a\n+b', { additions: 1, deletions: 1 }],
+    ['@@ -0,0 +1,3 @@\n+a\n+b\n+c\n', { additions: 3, deletions: 0 }],
+    ['', { additions: 0, deletions: 0 }],
+  ])('countPatchChanges(%p)', (patch, expected) => {
+    expect(countPatchChanges(patch)).toEqual(expected);
+  });
+});
+
+describe('extractFileDiff', () => {
+  const fullDiff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 111..222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,2 +1,2 @@',
+    ' one',
+    '-two',
+    '+2',
+    'diff --git a/new.txt b/new.txt',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/new.txt',
+    '@@ -0,0 +1 @@',
+    '+hello',
+    'diff --git a/old/name.ts b/lib/name.ts',
+    'similarity index 100%',
+    'rename from old/name.ts',
+    'rename to lib/name.ts',
+    'diff --git a/gone.ts b/gone.ts',
+    'deleted file mode 100644',
+    '--- a/gone.ts',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-bye',
+  ].join('\n');
+
+  test.each([
+    ['src/a.ts', { path: 'src/a.ts', status: 'modified', additions: 1, deletions: 1 }],
+    ['new.txt', { path: 'new.txt', status: 'added', additions: 1, deletions: 0 }],
+    ['lib/name.ts', { path: 'lib/name.ts', previous_path: 'old/name.ts', status: 'renamed', additions: 0, deletions: 0, patch: undefined }],
+    ['old/name.ts', { path: 'lib/name.ts', status: 'renamed' }],
+    ['gone.ts', { path: 'gone.ts', status: 'removed', additions: 0, deletions: 1 }],
+  ])('%p', (path, expected) => {
+    expect(extractFileDiff(fullDiff, path)).toMatchObject(expected);
+  });
+
+  test('keeps only the hunks of the file asked for', () => {
+    expect(extractFileDiff(fullDiff, 'src/a.ts')?.patch).toBe('@@ -1,2 +1,2 @@\n one\n-two\n+2\n');
+  });
+
+  test('returns null for a file the diff does not touch', () => {
+    expect(extractFileDiff(fullDiff, 'missing.ts')).toBeNull();
+  });
+});
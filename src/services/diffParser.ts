@@ -0,0 +1,95 @@
+import { PullRequestFile } from './providers/types';
+
+// Helpers for the unified diff hunks hosts return for pull request files
+
+export interface DiffLine {
+  type: 'hunk' | 'context' | 'add' | 'del';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Splits a patch into lines numbered against the old and the new file
+export const parsePatch = (patch: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  patch.replace(/\n$/, '').split('\n').forEach(raw => {
+    const header = raw.match(HUNK_HEADER);
+    if (header) {
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[2], 10);
+      lines.push({ type: 'hunk', content: raw });
+      return;
+    }
+
+    // "\ No newline at end of file" markers carry no code
+    if (raw.startsWith('\\')) return;
+
+    if (raw.startsWith('+')) {
+      lines.push({ type: 'add', content: raw.substring(1), newLine: newLine++ });
+    } else if (raw.startsWith('-')) {
+      lines.push({ type: 'del', content: raw.substring(1), oldLine: oldLine++ });
+    } else if (lines.length > 0) {
+      lines.push({ type: 'context', content: raw.substring(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+  });
+
+  return lines;
+};
+
+export const countPatchChanges = (patch: string): { additions: number; deletions: number } => {
+  let additions = 0;
+  let deletions = 0;
+
+  parsePatch(patch).forEach(line => {
+    if (line.type === 'add') additions++;
+    if (line.type === 'del') deletions++;
+  });
+
+  return { additions, deletions };
+};
+
+// Picks one file's section out of a full `git diff` (as served by hosts that
+// only return whole-commit diffs) and describes it like a PR file
+export const extractFileDiff = (fullDiff: string, path: string): PullRequestFile | null => {
+  const sections = fullDiff.split(/^(?=diff --git )/m);
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+    const header = hunkStart === -1 ? lines : lines.slice(0, hunkStart);
+
+    const headerPath = (prefix: string) => {
+      const line = header.find(l => l.startsWith(prefix));
+      return line ? line.substring(prefix.length).trim() : undefined;
+    };
+
+    const oldPath = headerPath('rename from ') || headerPath('--- a/');
+    const newPath = headerPath('rename to ') || headerPath('+++ b/');
+    if (newPath !== path && oldPath !== path) continue;
+
+    const status: PullRequestFile['status'] = header.some(l => l.startsWith('new file mode'))
+      ? 'added'
+      : header.some(l => l.startsWith('deleted file mode'))
+        ? 'removed'
+        : header.some(l => l.startsWith('rename from'))
+          ? 'renamed'
+          : 'modified';
+
+    const patch = hunkStart === -1 ? undefined : lines.slice(hunkStart).join('\n');
+
+    return {
+      path: newPath || path,
+      previous_path: status === 'renamed' ? oldPath : undefined,
+      status,
+      ...(patch ? countPatchChanges(patch) : { additions: 0, deletions: 0 }),
+      patch,
+    };
+  }
+
+  return null;
+};
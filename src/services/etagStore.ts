@@ -0,0 +1,78 @@
+// LocalStorage store of GitHub responses with their validators (ETag /
+// Last-Modified), so repeat requests can be made conditional and a
+// 304 Not Modified answered from here.
+const ETAG_PREFIX = 'etag_cache_';
+// Bigger bodies are not worth the localStorage quota
+const MAX_BODY_CHARS = 512 * 1024;
+
+export interface StoredResponse {
+  etag?: string;
+  lastModified?: string;
+  body: string;
+  contentType?: string;
+  timestamp: number;
+}
+
+const storedKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(ETAG_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+};
+
+// Drops the oldest half of the stored responses to make room
+const evictOldest = () => {
+  const entries = storedKeys().map(key => {
+    try {
+      return { key, timestamp: (JSON.parse(localStorage.getItem(key) || '{}') as StoredResponse).timestamp || 0 };
+    } catch {
+      return { key, timestamp: 0 };
+    }
+  });
+
+  entries
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, Math.ceil(entries.length / 2))
+    .forEach(entry => localStorage.removeItem(entry.key));
+};
+
+export const etagStore = {
+  get: (key: string): StoredResponse | null => {
+    try {
+      const itemStr = localStorage.getItem(ETAG_PREFIX + key);
+      return itemStr ? JSON.parse(itemStr) : null;
+    } catch (error) {
+      console.error('ETag Store Retrieval Error:', error);
+      return null;
+    }
+  },
+
+  set: (key: string, item: StoredResponse): void => {
+    if (item.body.length > MAX_BODY_CHARS) return;
+
+    const itemStr = JSON.stringify(item);
+    try {
+      localStorage.setItem(ETAG_PREFIX + key, itemStr);
+    } catch (error) {
+      // Likely quota exceeded: make room once and retry
+      evictOldest();
+      try {
+        localStorage.setItem(ETAG_PREFIX + key, itemStr);
+      } catch (retryError) {
+        console.warn('ETag Store Save Error:', retryError);
+      }
+    }
+  },
+
+  // Refreshes the entry's age after a 304 so eviction keeps what is in use
+  touch: (key: string): void => {
+    const item = etagStore.get(key);
+    if (item) {
+      etagStore.set(key, { ...item, timestamp: Date.now() });
+    }
+  },
+};
@@ -0,0 +1,116 @@
+// Who the explanations are written for, how long they are and in which
+// language. Saved in this browser; every prompt whose answer people read ends
+// with the matching instructions, and cache keys include them.
+
+export type Audience = 'beginner' | 'intermediate' | 'expert';
+export type Verbosity = 'tldr' | 'standard' | 'deep_dive';
+
+export interface ExplanationSettings {
+  audience: Audience;
+  verbosity: Verbosity;
+  // Name of the language, in English ("Spanish", "Brazilian Portuguese")
+  language: string;
+}
+
+const SETTINGS_STORAGE_KEY = 'explainhub_explanation_settings';
+
+export const DEFAULT_EXPLANATION_SETTINGS: ExplanationSettings = {
+  audience: 'intermediate',
+  verbosity: 'standard',
+  language: 'English',
+};
+
+export const AUDIENCE_OPTIONS: Array<{ value: Audience; label: string; instruction: string }> = [
+  {
+    value: 'beginner',
+    label: 'Beginner',
+    instruction: 'The reader is new to programming or to this stack. Define jargon and framework concepts the first time they appear, prefer plain words, and say why things are done, not only what they do.',
+  },
+  {
+    value: 'intermediate',
+    label: 'Intermediate',
+    instruction: '',
+  },
+  {
+    value: 'expert',
+    label: 'Expert',
+    instruction: 'The reader is a senior engineer. Skip basics and definitions; focus on design decisions, trade-offs, edge cases, performance and anything surprising.',
+  },
+];
+
+export const VERBOSITY_OPTIONS: Array<{ value: Verbosity; label: string; instruction: string }> = [
+  {
+    value: 'tldr',
+    label: 'TL;DR',
+    instruction: 'Keep it short: at most 5 bullet points or about 100 words. Leave out sections that would only restate the obvious.',
+  },
+  {
+    value: 'standard',
+    label: 'Standard',
+    instruction: '',
+  },
+  {
+    value: 'deep_dive',
+    label: 'Deep dive',
+    instruction: 'Go in depth: walk through the control flow and data flow, cover edge cases and error handling, and quote the short code fragments you discuss.',
+  },
+];
+
+// Suggestions for the language field; any language name works
+export const LANGUAGE_SUGGESTIONS = [
+  'English', 'Spanish', 'Portuguese', 'French', 'German', 'Italian', 'Dutch', 'Polish', 'Turkish', 'Russian',
+  'Ukrainian', 'Arabic', 'Hindi', 'Bengali', 'Indonesian', 'Vietnamese', 'Chinese (Simplified)', 'Japanese', 'Korean',
+];
+
+export const getExplanationSettings = (): ExplanationSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const settings: Partial<ExplanationSettings> = JSON.parse(stored);
+      return {
+        audience: AUDIENCE_OPTIONS.some(option => option.value === settings.audience) ? settings.audience! : DEFAULT_EXPLANATION_SETTINGS.audience,
+        verbosity: VERBOSITY_OPTIONS.some(option => option.value === settings.verbosity) ? settings.verbosity! : DEFAULT_EXPLANATION_SETTINGS.verbosity,
+        language: settings.language?.trim() || DEFAULT_EXPLANATION_SETTINGS.language,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read explanation settings:', error);
+  }
+  return DEFAULT_EXPLANATION_SETTINGS;
+};
+
+export const saveExplanationSettings = (settings: ExplanationSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...settings, language: settings.language.trim() }));
+};
+
+const isEnglish = (language: string) => /^english$/i.test(language.trim());
+
+/**
+ * The instructions appended to a prompt for the current settings; empty for
+ * the defaults, so those prompts are unchanged. `fixedLength` prompts (one-line
+ * function summaries, diagram JSON) set their own length and only take the
+ * audience and language.
+ */
+export const describeOutputStyle = (settings: ExplanationSettings, fixedLength = false): string => {
+  const lines = [
+    AUDIENCE_OPTIONS.find(option => option.value === settings.audience)?.instruction || '',
+    fixedLength ? '' : VERBOSITY_OPTIONS.find(option => option.value === settings.verbosity)?.instruction || '',
+    isEnglish(settings.language)
+      ? ''
+      : `Write in ${settings.language.trim()}. Keep code, identifiers, file paths, citations and any required output format exactly as they are.`,
+  ].filter(Boolean);
+
+  return lines.length > 0
+    ? `OUTPUT STYLE (takes precedence over length or depth guidance above):\n${lines.map(line => `- ${line}`).join('\n')}`
+    : '';
+};
+
+// Part of every cache key, so another level or language is not served stale
+// text. Empty for the defaults, which keeps existing cache entries valid.
+export const explanationSettingsKey = (settings: ExplanationSettings): string => {
+  const language = isEnglish(settings.language) ? '' : settings.language.trim().toLowerCase();
+  if (settings.audience === 'intermediate' && settings.verbosity === 'standard' && !language) {
+    return '';
+  }
+  return `${settings.audience}_${settings.verbosity}${language ? `_${language}` : ''}`;
+};
@@ -0,0 +1,110 @@
+// Tells text files apart from images, other binaries, Git LFS pointers and
+// files too large to read as text, so none of them is sent to the LLM as code.
+
+export type FileKind = 'text' | 'image' | 'binary' | 'lfs' | 'oversized';
+
+export interface LfsPointer {
+  oid: string;
+  size: number;
+}
+
+export interface FileInfo {
+  kind: FileKind;
+  // Bytes, from the tree listing or the fetched content
+  size?: number;
+  // Set when the repository stores a Git LFS pointer instead of the file
+  lfs?: LfsPointer;
+}
+
+// Text files above this size are only explained after the user confirms
+export const LARGE_FILE_BYTES = 100 * 1024;
+// Files above this size are never fetched as text
+export const MAX_TEXT_BYTES = 1024 * 1024;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+const BINARY_EXTENSIONS = new Set([
+  // Archives and packages
+  'zip', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'tar', 'jar', 'war', 'whl', 'nupkg', 'deb', 'rpm', 'dmg', 'iso',
+  // Compiled code and libraries
+  'exe', 'dll', 'so', 'dylib', 'a', 'lib', 'o', 'obj', 'class', 'pyc', 'pyo', 'wasm', 'bin',
+  // Documents and media
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'psd', 'ai', 'sketch', 'fig', 'tif', 'tiff', 'heic',
+  'mp3', 'wav', 'ogg', 'flac', 'mp4', 'mov', 'avi', 'mkv', 'webm',
+  // Fonts
+  'ttf', 'otf', 'woff', 'woff2', 'eot',
+  // Data and models
+  'sqlite', 'db', 'parquet', 'pkl', 'npy', 'npz', 'h5', 'onnx', 'pt', 'ckpt', 'safetensors',
+]);
+
+const extensionOf = (path: string): string => {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.substring(dot + 1).toLowerCase() : '';
+};
+
+export const getImageMimeType = (path: string): string | null => IMAGE_MIME_TYPES[extensionOf(path)] || null;
+
+// What can be told before fetching anything: the extension and the tree size
+export const classifyByPath = (path: string, size?: number): FileInfo => {
+  if (getImageMimeType(path)) {
+    return { kind: 'image', size };
+  }
+  if (BINARY_EXTENSIONS.has(extensionOf(path))) {
+    return { kind: 'binary', size };
+  }
+  if (size !== undefined && size > MAX_TEXT_BYTES) {
+    return { kind: 'oversized', size };
+  }
+  return { kind: 'text', size };
+};
+
+const LFS_POINTER_PATTERN = /^version https:\/\/git-lfs\.github\.com\/spec\/v1\s+oid sha256:([0-9a-f]{64})\s+size (\d+)\s*$/;
+
+export const parseLfsPointer = (content: string): LfsPointer | null => {
+  // Pointer files are tiny; anything longer is real content
+  if (content.length > 200) return null;
+  const match = content.trim().match(LFS_POINTER_PATTERN);
+  return match ? { oid: match[1], size: parseInt(match[2], 10) } : null;
+};
+
+// Content sniffing for files whose extension said nothing: a NUL byte, or
+// many replacement characters from decoding non-UTF-8 bytes, mean binary
+export const looksBinary = (content: string): boolean => {
+  const sample = content.substring(0, 8000);
+  if (sample.indexOf('\u0000') !== -1) return true;
+
+  let replacements = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample.charCodeAt(i) === 0xfffd) replacements++;
+  }
+  return sample.length > 0 && replacements / sample.length > 0.1;
+};
+
+// Refines the path-based guess once the content has been read
+export const classifyContent = (path: string, content: string, size?: number): FileInfo => {
+  const lfs = parseLfsPointer(content);
+  if (lfs) {
+    return { kind: 'lfs', size: lfs.size, lfs };
+  }
+  if (looksBinary(content)) {
+    return { kind: 'binary', size: size ?? content.length };
+  }
+  return classifyByPath(path, size ?? content.length);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -1,188 +1,244 @@
-import { cacheService } from './cacheService';
-import { generateLocalArchitecture } from './fallbackGenerator';
-import { ArchitectureData, CodebaseAnalysis } from '../types/architecture';
-
-// Queue-based Rate Limiter to prevent bursts and ensuring serial execution
-class RateLimiter {
-  private queue: Promise<void> = Promise.resolve();
-  private lastCallTime = 0;
-  // Free tier is ~15 RPM, which is 1 request every 4 seconds.
-  // We'll set it to 2 seconds to allow *some* speed but rely on backoff if we hit limits,
-  // or 4 seconds to be super safe. Let's go with 2000ms + random jitter to avoid lockstep.
-  // Actually, user is hitting 429s easily. Let's try 3.5s to be safe for free tier.
-  private readonly MIN_INTERVAL = 3500;
-
-  async schedule<T>(fn: () => Promise<T>): Promise<T> {
-    const operation = this.queue.then(async () => {
-      const now = Date.now();
-      const timeSinceLast = now - this.lastCallTime;
-
-      if (timeSinceLast < this.MIN_INTERVAL) {
-        const wait = this.MIN_INTERVAL - timeSinceLast;
-        console.log(`⏳ Rate Limiter: Waiting ${wait}ms...`);
-        await new Promise(resolve => setTimeout(resolve, wait));
-      }
+import { ArchitectureData, COMPONENT_LAYERS, COMPONENT_TYPES, CodebaseAnalysis, RELATIONSHIP_TYPES } from '../types/architecture';
+import { ARCHITECTURE_SCHEMA, validateArchitectureData } from './architectureSchema';
+import { FileCommit, LineRange, PullRequest, PullRequestFile } from './providers/types';
+import { FileInfo, formatBytes } from './fileKinds';
+import { chunkBySymbols, formatLineRanges, selectRelevantChunks } from './codeChunks';
+import { GenerationError, GenerationFailure, JsonSchema, LLMBlockedError, LLMRequestError, LLMUsage, classifyLLMError, estimateTokens, getLLMProvider } from './llm';
+import { UsageTag, usageLedger } from './usageLedger';
+import { abortError, isAbortError, sleep } from './abort';
+import { instructionsForFile, renderPrompt } from './promptTemplates';
+import { RepoIndex } from './repoIndex';
+import { describeOutputStyle, getExplanationSettings } from './explanationSettings';
+import { SchedulerLane, llmScheduler } from './llmScheduler';
+
+// Answer tokens counted against the TPM limit before the real usage is known
+const EXPECTED_ANSWER_TOKENS = 1000;
+
+// Lines of some file in the repository that a repo-wide answer drew on
+export interface Citation extends LineRange {
+  path: string;
+}
 
-      try {
-        this.lastCallTime = Date.now();
-        return await fn();
-      } catch (error) {
-        throw error;
-      }
-    });
+export interface Explanation {
+  content: string;
+  codeSnippets?: string[];
+  // Still receiving tokens; content holds what has arrived so far
+  streaming?: boolean;
+  // Cut off by a cancel or an error mid-stream
+  incomplete?: boolean;
+  // Tokens the call used and the model that answered; a cache hit credits them as saved
+  usage?: LLMUsage;
+  model?: string;
+  // Parts of the file the answer was built from, when it didn't see the whole file at once
+  sources?: LineRange[];
+  // Code excerpts from across the repository that a repo-wide answer was given
+  citations?: Citation[];
+  // Set when the request failed; content holds whatever arrived before it
+  error?: GenerationFailure;
+  // The question a Q&A answer responds to, so a failed one can be asked again
+  question?: string;
+}
 
-    // Update queue to wait for this operation (catch errors so queue doesn't stall)
-    // We use then() ensuring it returns Promise<void>
-    this.queue = operation.then(() => { }, () => { });
+// Lets a caller render the answer while it arrives and stop it early
+export interface StreamOptions {
+  // Receives the whole text received so far after every chunk
+  onText?: (partial: string) => void;
+  signal?: AbortSignal;
+  // Place in the request queue while waiting for the scheduler; null once sent
+  onQueue?: (position: number | null) => void;
+}
 
-    return operation;
-  }
+interface CallOptions extends StreamOptions {
+  // Structured output: a JSON answer in this shape
+  schema?: JsonSchema;
+  // Scheduler priority; interactive unless set
+  lane?: SchedulerLane;
 }
 
-export const rateLimiter = new RateLimiter();
+// Failures, partial and cut-off answers are never cached or saved
+export const isCacheable = (explanation: Explanation): boolean =>
+  !explanation.streaming && !explanation.incomplete && !explanation.error;
 
-// Deprecated: old helper, mapped to new system for backward compatibility if needed, 
-// but we will replace usages.
-async function waitForRateLimit() {
-  // No-op in favor of wrapping calls in rateLimiter.schedule
-}
+// The entry stored in place of an answer whose request failed
+export const failedExplanation = (error: unknown): Explanation => {
+  const failure = classifyLLMError(error, getLLMProvider().label);
+  return { content: failure.partial, incomplete: failure.partial !== '', error: failure.toFailure() };
+};
 
-export interface Explanation {
-  content: string;
-  codeSnippets?: string[];
-}
+// Ends a prompt with the audience, length and language from the explanation settings
+const withOutputStyle = (prompt: string, fixedLength = false): string => {
+  const style = describeOutputStyle(getExplanationSettings(), fixedLength);
+  return style ? `${prompt}\n\n${style}` : prompt;
+};
 
 export const generateRepoExplanation = async (
   repoName: string,
   repoStructure: any,
   readmeContent: string | null,
-  apiKey: string
+  apiKey: string,
+  stream?: StreamOptions
 ): Promise<Explanation> => {
-  const prompt = `You are a senior developer explaining a GitHub repository to a teammate. Provide a high-level explanation of the repository "${repoName}" and its structure. Based on the repository structure and README content below, explain:
-
-1. What this project is and what problem it solves
-2. The high-level architecture and organization
-3. Key directories and their purposes
-4. Any important configuration files
-5. Main entry points
-6. Technology stack used
-
-Be conversational like a coworker. Explain the 'why' not just the 'what'. Point out interesting patterns. Structure your response to be clear and informative.
+  const prompt = withOutputStyle(renderPrompt('repo_overview', {
+    repoName,
+    structure: JSON.stringify(repoStructure, null, 2),
+    readme: readmeContent || 'No README found'
+  }));
 
-REPOSITORY STRUCTURE:
-${JSON.stringify(repoStructure, null, 2)}
-
-README CONTENT:
-${readmeContent || 'No README found'}`;
-
-  return callGeminiAPI(prompt, apiKey);
+  return callLLM(prompt, apiKey, { purpose: 'repo_overview' }, stream);
 };
 
 export const generateDirectoryExplanation = async (
   dirPath: string,
   dirContents: any[],
   repoName: string,
-  apiKey: string
+  apiKey: string,
+  packageContext?: string | null,
+  signal?: AbortSignal
 ): Promise<Explanation> => {
-  const prompt = `Explain the "${dirPath}" directory:\n\nContents:\n${dirContents.map(item => `- ${item.name} (${item.type})`).join('\n')}\n\nProvide:\n1. Purpose of this directory (1-2 sentences)\n2. Key items and their roles\n3. How it fits in the project\n\nBe concise.`;
+  const prompt = withOutputStyle(renderPrompt('directory', {
+    dirPath,
+    packageContext: packageContext ? `MONOREPO CONTEXT: ${packageContext}\n\n` : '',
+    contents: dirContents.map(item => `- ${item.name} (${item.type})`).join('\n')
+  }));
+
+  return callLLM(prompt, apiKey, { purpose: 'directory_explanation', path: dirPath }, { signal });
+};
 
-  return callGeminiAPI(prompt, apiKey);
+// Files longer than this are summarized section by section, then explained
+// from the section notes
+const FILE_EXPLANATION_MAX_CHARS = 15000;
+const FILE_SECTION_MAX_CHARS = 12000;
+// Instructions wrapped around the file content, plus a typical answer
+const FILE_EXPLANATION_OVERHEAD_TOKENS = 1500;
+// Q&A on larger files only sends the sections that match the question
+const QUESTION_MAX_CHARS = 12000;
+const QUESTION_SECTION_MAX_CHARS = 3000;
+// Repo-wide questions send the best matching excerpts from the index
+const REPO_QUESTION_EXCERPTS = 8;
+const REPO_QUESTION_MAX_CHARS = 14000;
+
+// Rough token cost of explaining a file (about 4 characters per token), shown
+// before large files are sent. Each section of a large file is one more call.
+export const estimateFileExplanationTokens = (fileContent: string): number => {
+  const calls = fileContent.length > FILE_EXPLANATION_MAX_CHARS
+    ? Math.ceil(fileContent.length / FILE_SECTION_MAX_CHARS) + 1
+    : 1;
+  return Math.ceil(fileContent.length / 4) + calls * FILE_EXPLANATION_OVERHEAD_TOKENS;
 };
 
+// Monorepo notes for the file prompts
+const filePackageContext = (packageContext?: string | null): string =>
+  packageContext ? `\nMONOREPO CONTEXT:\n${packageContext}\nExplain the file's role within its package and what the dependent packages rely on it for.\n` : '';
+
 export const generateFileExplanation = async (
   filePath: string,
   fileContent: string,
   repoName: string,
-  apiKey: string
+  apiKey: string,
+  // Where the file sits in a monorepo: its package and the packages around it
+  packageContext?: string | null,
+  stream?: StreamOptions
 ): Promise<Explanation> => {
-  const fileExtension = filePath.split('.').pop()?.toLowerCase() || '';
   const lineCount = fileContent.split('\n').length;
   const charCount = fileContent.length;
 
-  // Send full file when possible for complete context
-  const maxChars = 15000;
-  let contentToSend = fileContent;
-  let isTruncated = false;
-
-  if (charCount > maxChars) {
-    isTruncated = true;
-    const halfLimit = Math.floor(maxChars / 2);
-    const start = fileContent.substring(0, halfLimit);
-    const end = fileContent.substring(fileContent.length - halfLimit);
-    contentToSend = `${start}\n\n... [middle section truncated - ${charCount - maxChars} characters omitted] ...\n\n${end}`;
+  if (charCount > FILE_EXPLANATION_MAX_CHARS) {
+    return generateSectionedFileExplanation(filePath, fileContent, repoName, apiKey, packageContext, stream);
   }
 
-  // Detailed prompt with clear instructions
-  let prompt = `You are analyzing the file "${filePath}" from the ${repoName} repository.
-
-FILE STATISTICS:
-- Lines: ${lineCount}
-- Characters: ${charCount}
-${isTruncated ? '- Note: Middle section truncated, but you have beginning and end for full understanding\n' : '- Status: Complete file content provided\n'}
-
-FILE CONTENT:
-\`\`\`
-${contentToSend}
-\`\`\`
-
-IMPORTANT INSTRUCTIONS:
-- You have ${isTruncated ? 'substantial portions of' : 'the complete'} file content above
-- DO NOT mention "incomplete context", "limited context", or "need more information"
-- Analyze and explain based on what IS provided
-- Be thorough and detailed in your explanation
-- Focus on what the code DOES and WHY it matters
-
-`;
-
-  if (['py', 'pyw', 'js', 'jsx', 'ts', 'tsx'].includes(fileExtension)) {
-    prompt += `Provide a comprehensive explanation covering:
-
-1. **Purpose & Overview**: What this file does and its role in the project (2-3 sentences)
-2. **Key Components**: Main functions, classes, or components with their purposes
-3. **Implementation Details**: Important patterns, algorithms, or logic flows
-4. **Dependencies**: Key imports and how they're used
-5. **Notable Features**: Any interesting patterns, optimizations, or important details
-
-Be thorough and detailed. Explain the logic and reasoning behind the code.`;
-  } else if (fileExtension === 'json') {
-    prompt += `Provide a detailed explanation covering:
-
-1. **Configuration Purpose**: What this configuration controls (2-3 sentences)
-2. **Key Settings**: Important configuration values and their meanings
-3. **Impact**: How these settings affect the project
-4. **Notable Entries**: Any particularly important or interesting configurations
-
-Be thorough and explain the significance of the configuration.`;
-  } else if (fileExtension === 'md') {
-    prompt += `Provide a comprehensive summary covering:
-
-1. **Document Purpose**: What this document covers (2-3 sentences)
-2. **Main Sections**: Overview of the major sections and topics
-3. **Key Information**: Important details, instructions, or guidelines
-4. **Highlights**: Notable points that developers should know
-
-Be thorough and informative.`;
-  } else if (['toml', 'yaml', 'yml', 'xml'].includes(fileExtension)) {
-    prompt += `Provide a detailed explanation covering:
-
-1. **Configuration Purpose**: What this configuration file controls (2-3 sentences)
-2. **Key Settings**: Important configuration values and their effects
-3. **Structure**: How the configuration is organized
-4. **Impact**: How these settings affect the project
-
-Be thorough and explain the configuration's significance.`;
-  } else {
-    prompt += `Provide a comprehensive explanation covering:
-
-1. **Purpose**: What this file does and why it exists (2-3 sentences)
-2. **Content Analysis**: Key elements and their purposes
-3. **Structure**: How the file is organized
-4. **Important Details**: Notable aspects developers should understand
-
-Be thorough and detailed in your explanation.`;
+  const prompt = withOutputStyle(renderPrompt('file', {
+    filePath,
+    repoName,
+    lineCount,
+    charCount,
+    packageContext: filePackageContext(packageContext),
+    content: fileContent,
+    instructions: instructionsForFile(filePath)
+  }));
+
+  return callLLM(prompt, apiKey, { purpose: 'file_explanation', path: filePath }, stream);
+};
+
+// Map-reduce for files too long for one prompt: each section along symbol
+// boundaries is summarized, then the explanation is written from the notes
+const generateSectionedFileExplanation = async (
+  filePath: string,
+  fileContent: string,
+  repoName: string,
+  apiKey: string,
+  packageContext?: string | null,
+  stream?: StreamOptions
+): Promise<Explanation> => {
+  const lineCount = fileContent.split('\n').length;
+  const sections = chunkBySymbols(fileContent, FILE_SECTION_MAX_CHARS);
+  const sources = sections.map(({ start, end }) => ({ start, end }));
+
+  const notes: string[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i];
+    // Progress shows in place of the explanation until it starts streaming
+    stream?.onText?.(`_Reading lines ${section.start}–${section.end} (section ${i + 1} of ${sections.length})..._`);
+
+    const prompt = renderPrompt('file_section', {
+      filePath,
+      repoName,
+      start: section.start,
+      end: section.end,
+      section: i + 1,
+      sectionCount: sections.length,
+      content: section.text
+    });
+
+    const note = await callLLM(prompt, apiKey, { purpose: 'file_explanation', path: filePath }, { signal: stream?.signal, onQueue: stream?.onQueue });
+    if (note.incomplete) {
+      return { content: '', incomplete: true };
+    }
+    notes.push(`### Lines ${section.start}-${section.end}${section.symbols.length > 0 ? ` (${section.symbols.slice(0, 12).join(', ')})` : ''}\n${note.content.trim()}`);
   }
 
-  return callGeminiAPI(prompt, apiKey);
+  const prompt = withOutputStyle(renderPrompt('file_from_sections', {
+    filePath,
+    repoName,
+    lineCount,
+    charCount: fileContent.length,
+    sectionCount: sections.length,
+    packageContext: filePackageContext(packageContext),
+    notes: notes.join('\n\n'),
+    instructions: instructionsForFile(filePath)
+  }));
+
+  const explanation = await callLLM(prompt, apiKey, { purpose: 'file_explanation', path: filePath }, stream);
+  return { ...explanation, sources };
+};
+
+// Explains an image, binary, LFS-tracked or oversized file from what is known
+// about it without its content: path, size and the files next to it
+export const generateBinaryFileExplanation = async (
+  filePath: string,
+  info: FileInfo,
+  siblings: string[],
+  repoName: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<Explanation> => {
+  const kindNotes: Record<FileInfo['kind'], string> = {
+    text: 'a text file',
+    image: 'an image',
+    binary: 'a binary file',
+    lfs: 'a file stored with Git LFS (the repository only holds a pointer to it)',
+    oversized: 'a text file too large to read',
+  };
+
+  const prompt = withOutputStyle(renderPrompt('metadata', {
+    filePath,
+    repoName,
+    kind: kindNotes[info.kind],
+    size: info.size !== undefined ? formatBytes(info.size) : 'unknown',
+    lfs: info.lfs ? `- LFS object: sha256 ${info.lfs.oid}\n` : '',
+    siblings: siblings.slice(0, 40).join(', ') || 'none'
+  }));
+
+  return callLLM(prompt, apiKey, { purpose: 'metadata_explanation', path: filePath }, { signal });
 };
 
 export const generateCodeQuestionResponse = async (
@@ -190,61 +246,182 @@ export const generateCodeQuestionResponse = async (
   filePath: string,
   fileContent: string,
   repoName: string,
-  apiKey: string
+  apiKey: string,
+  // The conversation so far about this file, from formatThreadHistory
+  history: string,
+  stream?: StreamOptions
 ): Promise<Explanation> => {
-  const charCount = fileContent.length;
-  const maxChars = 12000;
-
-  let contentToSend = fileContent;
-  let isTruncated = false;
-
-  if (charCount > maxChars) {
-    isTruncated = true;
-    const halfLimit = Math.floor(maxChars / 2);
-    const start = fileContent.substring(0, halfLimit);
-    const end = fileContent.substring(fileContent.length - halfLimit);
-    contentToSend = `${start}\n\n... [middle section omitted] ...\n\n${end}`;
-  }
+  // Larger files are cut along symbol boundaries and only the sections
+  // matching the question are sent
+  const sections = fileContent.length > QUESTION_MAX_CHARS
+    ? selectRelevantChunks(chunkBySymbols(fileContent, QUESTION_SECTION_MAX_CHARS), question, QUESTION_MAX_CHARS)
+    : null;
+  const contentToSend = sections
+    ? sections.map(section => `// Lines ${section.start}-${section.end}\n${section.text}`).join('\n\n// ...\n\n')
+    : fileContent;
+
+  const prompt = withOutputStyle(renderPrompt('question', {
+    question,
+    filePath,
+    repoName,
+    contentLabel: sections
+      ? `RELEVANT SECTIONS (lines ${formatLineRanges(sections)} of ${fileContent.split('\n').length})`
+      : 'COMPLETE FILE CONTENT',
+    content: contentToSend,
+    lineNote: sections ? ', with their line numbers' : '',
+    history: history ? `\nCONVERSATION SO FAR:\n${history}\n\nThe question below may follow up on it.\n` : ''
+  }));
+
+  const answer = await callLLM(prompt, apiKey, { purpose: 'question', path: filePath }, stream);
+  return sections ? { ...answer, sources: sections.map(({ start, end }) => ({ start, end })) } : answer;
+};
 
-  const prompt = `You are answering a question about the file "${filePath}" from the ${repoName} repository.
+// Condenses older turns of a conversation about a file into the running summary
+export const summarizeConversation = async (
+  filePath: string,
+  previousSummary: string | null,
+  transcript: string,
+  repoName: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<Explanation> => {
+  const prompt = renderPrompt('thread_summary', {
+    filePath,
+    repoName,
+    summary: previousSummary ? `\nSUMMARY SO FAR (extend it with the messages below):\n${previousSummary}\n` : '',
+    transcript
+  });
 
-USER QUESTION: "${question}"
+  return callLLM(prompt, apiKey, { purpose: 'question', path: filePath }, { signal });
+};
 
-${isTruncated ? 'SUBSTANTIAL' : 'COMPLETE'} FILE CONTENT:
-\`\`\`
-${contentToSend}
-\`\`\`
+// Answers a question about the whole repository from the indexed excerpts
+// that match it; the answer cites them as path:start-end
+export const generateRepoQuestionResponse = async (
+  question: string,
+  index: RepoIndex,
+  repoName: string,
+  apiKey: string,
+  stream?: StreamOptions
+): Promise<Explanation> => {
+  const excerpts = index.search(question, REPO_QUESTION_EXCERPTS, REPO_QUESTION_MAX_CHARS);
+
+  const prompt = withOutputStyle(renderPrompt('repo_question', {
+    question,
+    repoName,
+    fileCount: index.paths.length,
+    excerpts: excerpts.length > 0
+      ? excerpts.map(excerpt => `--- ${excerpt.path}:${excerpt.start}-${excerpt.end}\n\`\`\`\n${excerpt.text}\n\`\`\``).join('\n\n')
+      : '(no matching code was found)'
+  }));
+
+  const answer = await callLLM(prompt, apiKey, { purpose: 'repo_question' }, stream);
+  return { ...answer, citations: excerpts.map(({ path, start, end }) => ({ path, start, end })) };
+};
 
-INSTRUCTIONS:
-- Answer the question directly and thoroughly based on the code provided
-- DO NOT mention "incomplete context" or "need more information" - work with what's provided
-- Reference specific code sections when relevant
-- Be detailed and helpful
-- If the answer requires context from the visible code, explain it fully
+// Pull request review prompts: a per-file change summary with a risk
+// assessment, and a narrative for the PR as a whole.
+export const generatePullRequestFileReview = async (
+  pullRequest: PullRequest,
+  file: PullRequestFile,
+  repoName: string,
+  apiKey: string,
+  stream?: StreamOptions
+): Promise<Explanation> => {
+  const maxChars = 12000;
+  const patch = file.patch || '';
+  const patchToSend = patch.length > maxChars
+    ? `${patch.substring(0, maxChars)}\n\n... [diff truncated - ${patch.length - maxChars} characters omitted] ...`
+    : patch;
+
+  const prompt = withOutputStyle(renderPrompt('pr_review', {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    repoName,
+    filePath: file.path,
+    renamedFrom: file.previous_path ? ` (renamed from ${file.previous_path})` : '',
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    diff: patchToSend || 'No textual diff available (binary file or diff too large)'
+  }));
+
+  return callLLM(prompt, apiKey, { purpose: 'pr_review', path: file.path }, stream);
+};
 
-Provide a clear, comprehensive answer:`;
+export const generatePullRequestNarrative = async (
+  pullRequest: PullRequest,
+  fileReviews: Record<string, string>,
+  repoName: string,
+  apiKey: string,
+  stream?: StreamOptions
+): Promise<Explanation> => {
+  // Patches share one budget so large PRs still fit in a single prompt
+  const maxChars = 20000;
+  let budget = maxChars;
+
+  const fileSections = pullRequest.files.map(file => {
+    const header = `### ${file.path} (${file.status}, +${file.additions} / -${file.deletions})`;
+    if (fileReviews[file.path]) {
+      return `${header}\nReviewer notes:\n${fileReviews[file.path]}`;
+    }
 
-  return callGeminiAPI(prompt, apiKey);
+    const patch = (file.patch || '').substring(0, Math.max(0, Math.min(budget, 3000)));
+    budget -= patch.length;
+    return patch ? `${header}\n\`\`\`diff\n${patch}\n\`\`\`` : header;
+  }).join('\n\n');
+
+  const prompt = withOutputStyle(renderPrompt('pr_narrative', {
+    number: pullRequest.number,
+    repoName,
+    title: pullRequest.title,
+    author: pullRequest.author,
+    headRef: pullRequest.head_ref,
+    baseRef: pullRequest.base_ref,
+    fileCount: pullRequest.files.length,
+    description: pullRequest.body || 'No description provided',
+    changes: fileSections
+  }));
+
+  return callLLM(prompt, apiKey, { purpose: 'pr_narrative' }, { ...stream, lane: 'prefetch' });
 };
 
-export const generateFunctionExplanation = async (
-  functionName: string,
-  functionCode: string,
-  apiKey: string
-): Promise<string> => {
-  const prompt = `Explain the purpose of this function in 1-2 sentences. Be specific about what it does:
+// Summarizes how a file evolved from its commit log plus the diffs of a
+// few key commits (usually the one that introduced it and the latest ones)
+export const generateFileHistorySummary = async (
+  filePath: string,
+  commits: FileCommit[],
+  keyDiffs: Array<{ commit: FileCommit; diff: PullRequestFile }>,
+  repoName: string,
+  apiKey: string,
+  stream?: StreamOptions
+): Promise<Explanation> => {
+  // Oldest first reads like a story
+  const timeline = [...commits].reverse().map(commit =>
+    `- ${commit.date.substring(0, 10)} ${commit.sha.substring(0, 7)} (${commit.author}): ${commit.message.split('\n')[0]}`
+  ).join('\n').slice(0, 8000);
+
+  const diffSections = keyDiffs.map(({ commit, diff }) =>
+    `### ${commit.sha.substring(0, 7)} - ${commit.message.split('\n')[0]} (${diff.status}, +${diff.additions} / -${diff.deletions})\n\`\`\`diff\n${(diff.patch || 'No textual diff').substring(0, 4000)}\n\`\`\``
+  ).join('\n\n');
 
-\`\`\`
-${functionCode}
-\`\`\``;
+  const prompt = withOutputStyle(renderPrompt('file_history', {
+    filePath,
+    repoName,
+    commitCount: commits.length,
+    timeline,
+    diffs: diffSections || 'None available'
+  }));
 
-  const result = await callGeminiAPI(prompt, apiKey);
-  return result.content;
+  return callLLM(prompt, apiKey, { purpose: 'file_history', path: filePath }, { ...stream, lane: 'prefetch' });
 };
 
 export const generateBatchFunctionExplanations = async (
   functions: Array<{ name: string; code: string }>,
-  apiKey: string
+  apiKey: string,
+  // File the functions come from, for the usage ledger
+  filePath?: string,
+  signal?: AbortSignal
 ): Promise<Record<string, string>> => {
   if (functions.length === 0) return {};
 
@@ -252,16 +429,12 @@ export const generateBatchFunctionExplanations = async (
     `FUNCTION_${idx + 1}: ${func.name}\n\`\`\`\n${func.code.slice(0, 500)}\n\`\`\``
   ).join('\n\n');
 
-  const prompt = `Explain each function below in 1-2 sentences. Be specific about what each does.
-
-${functionsText}
-
-Respond in this exact format:
-FUNCTION_1: [explanation]
-FUNCTION_2: [explanation]
-...`;
+  const prompt = withOutputStyle(renderPrompt('batch_functions', { functions: functionsText }), true);
 
-  const result = await callGeminiAPI(prompt, apiKey);
+  const result = await callLLM(prompt, apiKey, { purpose: 'batch_functions', path: filePath }, { signal, lane: 'batch' });
+  if (result.incomplete) {
+    throw abortError();
+  }
 
   const explanations: Record<string, string> = {};
   const lines = result.content.split('\n');
@@ -280,215 +453,14 @@ FUNCTION_2: [explanation]
   return explanations;
 };
 
-export const generateArchitectureDiagram = async (
-  repoName: string,
-  repoStructure: any,
-  apiKey: string
-): Promise<string> => {
-  // 1. Check Cache
-  const cacheKey = cacheService.generateKey(repoName, 'root', 'diagram');
-  const cachedDiagram = cacheService.get<string>(cacheKey);
-
-  if (cachedDiagram) {
-    console.log('✨ Using cached architecture diagram');
-    return cachedDiagram;
-  }
-
-  // CONFIGURATION: Token budget management
-  const MAX_TREE_DEPTH = 3;
-
-  const MAX_CHILDREN_PER_DIR = 20;
-
-  /**
-   * Generates a concise text-based tree representation
-   */
-  const generateTreeRepresentation = (node: any, prefix: string = '', depth: number = 0): string => {
-    if (depth > MAX_TREE_DEPTH) return '';
-
-    // Sort directories first, then files
-    const children = (node.children || []).sort((a: any, b: any) => {
-      if (a.type === 'dir' && b.type !== 'dir') return -1;
-      if (a.type !== 'dir' && b.type === 'dir') return 1;
-      return a.name.localeCompare(b.name);
-    });
-
-    let output = '';
-    const relevantChildren = children.filter((c: any) => {
-      const ignored = [
-        'node_modules', '.git', '.vscode', '.idea', 'dist', 'build', 'coverage',
-        'package-lock.json', 'yarn.lock', '.DS_Store'
-      ];
-      return !ignored.some(pattern => c.name === pattern || c.name.startsWith(pattern));
-    });
-
-    const visibleChildren = relevantChildren.slice(0, MAX_CHILDREN_PER_DIR);
-    const hiddenCount = relevantChildren.length - visibleChildren.length;
-
-    visibleChildren.forEach((child: any, index: number) => {
-      const isLast = index === visibleChildren.length - 1 && hiddenCount === 0;
-      const marker = isLast ? '└── ' : '├── ';
-      const newPrefix = prefix + (isLast ? '    ' : '│   ');
-
-      output += `${prefix}${marker}${child.name}${child.type === 'dir' ? '/' : ''}\n`;
-
-      if (child.type === 'dir') {
-        output += generateTreeRepresentation(child, newPrefix, depth + 1);
-      }
-    });
-
-    if (hiddenCount > 0) {
-      output += `${prefix}└── ... (${hiddenCount} more files)\n`;
-    }
-
-    return output;
-  };
-
-  const treeStructure = generateTreeRepresentation(repoStructure);
-
-  // Calculate stats for context
-  const fileCount = JSON.stringify(repoStructure).match(/"type":"file"/g)?.length || 0;
-  const dirCount = JSON.stringify(repoStructure).match(/"type":"dir"/g)?.length || 0;
-
-  const prompt = `You are a Senior Software Architect. Analyze the codebase structure and generate a tailored Technical Architecture Diagram in JSON format.
-  
-  CONTEXT:
-  - Repository: ${repoName}
-  - Files: ~${fileCount} | Directories: ~${dirCount}
-  
-  FILE STRUCTURE (TreeMap):
-  \`\`\`
-  ${treeStructure}
-  \`\`\`
-  
-  INSTRUCTIONS:
-  1. **Concept over Files**: Do NOT list every file. Group them into logical "Functional Blocks" (e.g., instead of listing auth.ts, user.ts, session.ts -> create one node "Auth Module").
-  2. **Technical Depth**: Identify patterns (MVC, Hexagonal, Clean Arch). Use proper technical names (e.g., "REST API Controller", "PostgreSQL Adapter", "React Router").
-  3. **Relationships**: Show data flow (solid lines) and dependencies (dotted lines).
-  4. **Status Indicator**: You MUST include a special unconnected subgraph labeled "Status" containing a single node "AI_GEN" with label "✨ AI Generated Architecture".
-  
-  OUTPUT FORMAT:
-  Return ONLY a valid JSON object matching this TypeScript interface:
-  
-  \`\`\`typescript
-  interface DiagramData {
-    modules: {
-      id: string;       // e.g., "backend_api"
-      label: string;    // e.g., "Backend API"
-      components: {
-        id: string;     // e.g., "auth_controller"
-        label: string;  // e.g., "Auth Controller"
-      }[];
-    }[];
-    relationships: {
-      from: string;
-      to: string;
-      type: 'solid' | 'dotted';
-      label?: string;
-    }[];
-  }
-  \`\`\`
-  
-  CONSTRAINTS:
-  - IDs must be alphanumeric using underscores.
-  - Max 20 nodes total (keep it high-level).
-  - IMPORTANT: Include the "Status" module with "AI_GEN" component as requested.
-  - Do NOT output Mermaid code directly. Output strictly JSON.
-  
-  GENERATE JSON NOW:`;
-
-  console.log('Architecture diagram - JSON Prompt length:', prompt.length);
-
-  // Wrap in queue
-  return rateLimiter.schedule(async () => {
-    // Retry logic
-    const maxRetries = 3;
-    let lastError: any = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        if (attempt > 0) {
-          // Default backoff - wait inside the queue slot
-          let waitTime = Math.pow(2, attempt) * 2000;
-          console.log(`Retry attempt ${attempt + 1}/${maxRetries} for JSON generation...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-        }
-
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: 0.2,
-              maxOutputTokens: 4000,
-              topK: 40,
-              topP: 0.8,
-              responseMimeType: "application/json"
-            }
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-
-          if (response.status === 429) {
-            const retryAfter = response.headers.get('Retry-After');
-            const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, attempt + 2) * 1000;
-
-            console.error('🚨 429 Rate Limit (Architecture)');
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-            lastError = { status: 429, message: 'Rate limit exceeded' };
-            continue;
-          }
-
-          throw new Error(`API error: ${response.status} - ${JSON.stringify(errorData)}`);
-        }
-
-        const data = await response.json();
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-        if (!text) throw new Error('No content returned from API');
-
-        // Parse JSON
-        let diagramData: any;
-        try {
-          const jsonStr = text.replace(/^```json\s*/, '').replace(/```\s*$/, '').trim();
-          diagramData = JSON.parse(jsonStr);
-        } catch (e) {
-          console.error('Failed to parse Gemini JSON:', text);
-          throw new Error('AI returned invalid JSON');
-        }
-
-        const diagram = convertJsonToMermaid(diagramData);
-
-        // Save to Cache
-        try {
-          cacheService.set(cacheKey, diagram);
-        } catch (e) {
-          console.warn('Failed to cache diagram:', e);
-        }
-
-        return diagram;
-
-      } catch (error: any) {
-        console.error(`Attempt ${attempt + 1} failed:`, error);
-        lastError = error;
-      }
-    }
-
-    // FALLBACK STRATEGY
-    // If we are here, all retries failed (including 429s).
-    // Instead of showing an error, show the Local Fallback Diagram.
-    console.warn('⚠️ All AI attempts failed. Generating local fallback diagram.');
-    return generateLocalArchitecture(repoStructure);
-  });
-};
-
 export const extractArchitectureData = async (
   repoName: string,
   repoStructure: any,
   analysis: CodebaseAnalysis,
-  apiKey: string
+  apiKey: string,
+  // Monorepo packages the diagram covers and how they depend on each other
+  workspaceNote?: string,
+  signal?: AbortSignal
 ): Promise<ArchitectureData> => {
   const fileCount = JSON.stringify(repoStructure).match(/"type":"file"/g)?.length || 0;
 
@@ -500,244 +472,165 @@ export const extractArchitectureData = async (
     - API Calls: ${f.apiCalls.join(', ')}`;
   }).join('\n\n').slice(0, 10000); // hard limit to avoid context overflow
 
-  const prompt = `You are a Senior Software Architect. Analyze the codebase structure and static analysis data to generate a structured architecture definition.
-
-CONTEXT:
-- Repository: ${repoName}
-- Files: ~${fileCount}
-- Static Analysis Data (Imports, Hooks, API Calls):
-${analysisSummary}
-
-INSTRUCTIONS:
-1. **Identify High-Level Modules**: specific functional blocks (e.g., "Auth Service", "User Context", "Payment Controller") that EXIST in the code.
-2. **Abstract UI Components**: Do NOT list individual UI atoms like "Button", "Input", "Header". Group them into a single "Presentation Layer" or "UI Components" node.
-3. **Determine Layers**: logical layers (e.g., "Presentation", "State Management", "Services", "Data", "External").
-4. **Map Relationships**: usage and dependencies based on the imports and calls provided.
-5. **Strict Grounding**: DO NOT INVENT COMPONENTS. Every component must correspond to a real file or directory visible in the "FILE STRUCTURE" or "Static Analysis Data". If it's not in the code, do not include it.
-6. **Strict JSON**: Return only valid JSON adhering to the schema.
-
-OUTPUT SCHEMA:
-{
-  "components": [
-    {
-      "id": "unique_snake_case_id",
-      "name": "Human Readable Name",
-      "type": "service|controller|model|view|utility|component|context|hook",
-      "layer": "presentation|state|services|data|infrastructure|external",
-      "responsibilities": ["list", "of", "responsibilities"]
-    }
-  ],
-  "relationships": [
-    {
-      "from": "component_id_a",
-      "to": "component_id_b",
-      "type": "calls|depends_on|imports|inherits|uses|provides",
-      "description": "context of relationship"
-    }
-  ],
-  "layers": ["Presentation", "Services", "Data"]
-}
-
-Constraints:
-- Generate comprehensive high-level architecture.
-- **Max 20 components**. Focus on the most important modules.
-- Ensure all IDs in relationships exist in components.
-- **NO HALLUCINATIONS**: Do not add databases, caches, or services unless you see code for them (e.g., a Redis client file).
-- Response must be pure JSON.
-`;
-
-  return callGeminiAPI(prompt, apiKey).then(res => {
-    // Check if the response implies a failure (rate limit, error message, etc)
-    if (res.content.trim().startsWith('⚠️') || res.content.includes('Rate Limit Exceeded')) {
-      console.warn('AI Generation prevented due to error:', res.content);
-      throw new Error(res.content); // Propagate the actual error message
-    }
+  const prompt = withOutputStyle(renderPrompt('architecture', {
+    repoName,
+    fileCount,
+    analysis: analysisSummary,
+    packages: workspaceNote ? `- Monorepo Packages:\n${workspaceNote}\n` : '',
+    componentTypes: COMPONENT_TYPES.join('|'),
+    componentLayers: COMPONENT_LAYERS.join('|'),
+    relationshipTypes: RELATIONSHIP_TYPES.join('|')
+  }), true);
+
+  const first = await requestArchitectureJson(prompt, apiKey, signal);
+  let validation = validateArchitectureData(first.parsed);
+  if (validation.errors.length === 0 && validation.salvaged) {
+    return validation.salvaged;
+  }
 
-    try {
-      const jsonStr = res.content.replace(/^[\s\S]*?```json/g, '').replace(/```[\s\S]*?$/g, '').trim();
-      // Fallback cleanup if regex misses
-      const cleanJson = jsonStr.replace(/```/g, '');
-      return JSON.parse(cleanJson) as ArchitectureData;
-    } catch (e) {
-      console.error("JSON Parse Error in extractArchitectureData", e);
-      console.error("Raw AI Content:", res.content); // Log raw content for debugging
-      throw new Error("Failed to parse Architecture JSON. The AI might have returned invalid format.");
-    }
+  // One repair round with the problems spelled out
+  console.warn('Architecture JSON failed validation:', validation.errors);
+  const repairPrompt = renderPrompt('architecture_repair', {
+    prompt,
+    answer: first.raw.slice(0, 12000),
+    problems: validation.errors.slice(0, 30).map(error => `- ${error}`).join('\n')
   });
-};
-
-/**
- * Converts the structured JSON architecture data into valid Mermaid syntax
- * guaranteeing correct quoting and escaping.
- */
-const convertJsonToMermaid = (data: any): string => {
-  if (!data || !data.modules || !Array.isArray(data.modules)) {
-    throw new Error('Invalid diagram data structure');
+  const repaired = await requestArchitectureJson(repairPrompt, apiKey, signal);
+  const second = validateArchitectureData(repaired.parsed);
+  if (second.salvaged && (!validation.salvaged || second.errors.length <= validation.errors.length)) {
+    validation = second;
   }
 
-  let mermaid = 'graph TD\n';
-  const validIds = new Set<string>();
-
-  // 1. Process Modules & Components
-  data.modules.forEach((mod: any) => {
-    // Sanitize module label
-    const safeModLabel = (mod.label || 'Module').replace(/"/g, "'");
-
-    mermaid += `    subgraph "${safeModLabel}"\n`;
+  // Still invalid: keep the entries that passed, or give up
+  if (!validation.salvaged) {
+    throw new GenerationError('malformed', 'Failed to parse Architecture JSON. The AI might have returned invalid format.');
+  }
+  if (validation.errors.length > 0) {
+    console.warn('Dropping invalid architecture entries:', validation.errors);
+  }
+  return validation.salvaged;
+};
 
-    if (Array.isArray(mod.components)) {
-      mod.components.forEach((comp: any) => {
-        // Ensure ID is safe (alphanumeric + underscore)
-        const safeId = (comp.id || 'node').replace(/[^a-zA-Z0-9_]/g, '_');
-        validIds.add(safeId);
+// Calls the model in structured-output mode; `parsed` is null when the text isn't JSON
+const requestArchitectureJson = async (prompt: string, apiKey: string, signal?: AbortSignal): Promise<{ raw: string; parsed: unknown }> => {
+  const res = await callLLM(prompt, apiKey, { purpose: 'architecture' }, { schema: ARCHITECTURE_SCHEMA, signal, lane: 'batch' });
+  if (res.incomplete) {
+    throw abortError();
+  }
+  try {
+    // Backends without a schema mode may still wrap the JSON in a code fence
+    const jsonStr = res.content.replace(/^[\s\S]*?```(?:json)?/, '').replace(/```[\s\S]*$/, '').trim();
+    return { raw: res.content, parsed: JSON.parse(res.content.includes('```') ? jsonStr : res.content) };
+  } catch (e) {
+    console.error('JSON Parse Error in extractArchitectureData', e);
+    return { raw: res.content, parsed: null };
+  }
+};
 
-        // Ensure label is strictly quoted
-        const safeLabel = (comp.label || safeId).replace(/"/g, "'");
+const callLLM = async (prompt: string, apiKey: string, tag: UsageTag, options?: CallOptions): Promise<Explanation> => {
+  const llm = getLLMProvider();
+  if (llm.requiresApiKey && !apiKey) {
+    throw new GenerationError('invalid_key', `${llm.label} API key is required`);
+  }
+  if (usageLedger.isOverBudget()) {
+    throw new GenerationError(
+      'budget_exceeded',
+      `${usageLedger.getDailyTotal().toLocaleString()} tokens used today. Raise or clear the budget in the usage panel to keep going.`
+    );
+  }
 
-        mermaid += `        ${safeId}["${safeLabel}"]\n`;
-      });
-    }
+  const signal = options?.signal;
+  // Text already shown to the user; a failure after this point can't be retried
+  let received = '';
+  const onChunk = (chunk: string) => {
+    received += chunk;
+    options?.onText?.(received);
+  };
 
-    mermaid += `    end\n`;
-  });
+  const estimatedTokens = estimateTokens(prompt) + EXPECTED_ANSWER_TOKENS;
 
-  // 2. Process Relationships
-  if (Array.isArray(data.relationships)) {
-    data.relationships.forEach((rel: any) => {
-      const fromId = (rel.from || '').replace(/[^a-zA-Z0-9_]/g, '_');
-      const toId = (rel.to || '').replace(/[^a-zA-Z0-9_]/g, '_');
+  return llmScheduler.schedule<Explanation>(async () => {
+    let lastError: any = null;
+    const maxRetries = 2;
 
-      // Only draw edges between valid, existing nodes to prevent ghost nodes
-      if (validIds.has(fromId) && validIds.has(toId)) {
-        const arrow = rel.type === 'dotted' ? '-.->' : '-->';
-        mermaid += `    ${fromId} ${arrow} ${toId}\n`;
-      }
-    });
-  }
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        if (attempt > 0) {
+          // The slot is held while retrying, so this call isn't overtaken
+          const waitTime = Math.pow(2, attempt) * 1000;
+          await sleep(waitTime, signal);
+        }
 
-  // 3. Styling (Optional: Add common class)
-  mermaid += '\n    classDef default fill:#1f2937,stroke:#3b82f6,stroke-width:2px,color:#fff;';
+        console.log(`Trying ${llm.label} model: ${llm.model} (attempt ${attempt + 1})`);
+        const schema = options?.schema;
+        const response = options?.onText
+          ? await llm.stream({ prompt, apiKey, signal }, onChunk)
+          : await llm.generate({ prompt, apiKey, signal, schema, ...(schema ? { temperature: 0.2 } : {}) });
 
-  return mermaid;
-};
+        if (!response.text) {
+          throw new LLMRequestError('No text in response', 200, null, null);
+        }
 
-const callGeminiAPI = async (prompt: string, apiKey: string): Promise<Explanation> => {
-  if (!apiKey) {
-    throw new Error('Gemini API key is required');
-  }
+        const usage = response.usage || estimateUsage(prompt, response.text);
+        usageLedger.record(tag, response.model, usage, !response.usage);
+        llmScheduler.settleTokens(estimatedTokens, usage.promptTokens + usage.outputTokens);
+        llmScheduler.reportSuccess();
+        return {
+          content: response.text,
+          codeSnippets: extractCodeSnippets(response.text),
+          usage,
+          model: response.model
+        };
+      } catch (error) {
+        if (received) {
+          // The provider bills what it generated before the stream stopped
+          usageLedger.record(tag, llm.model, estimateUsage(prompt, received), true);
+        }
+        if (signal?.aborted) {
+          // Keep what arrived before the cancel
+          return { content: received, codeSnippets: extractCodeSnippets(received), incomplete: true };
+        }
 
-  // Wrap the entire API interaction in the queue
-  return rateLimiter.schedule(async () => {
-    const modelNames = [
-      'gemini-3-flash-preview',
-      'gemini-2.5-flash',
-    ];
+        console.warn(`${llm.label} attempt ${attempt + 1} failed:`, error);
+        lastError = error;
 
-    let lastError: any = null;
-    const maxRetries = 2;
+        if (received) {
+          // Part of the answer is already out; the caller keeps it next to the error
+          throw classifyLLMError(error, llm.label, received);
+        }
 
-    for (const modelName of modelNames) {
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-          if (attempt > 0) {
-            // ... existing retry backoff ... 
-            // Note: RateLimiter handles inter-request spacing, but *retries* might need their own wait 
-            // IF the failure wasn't a rate limit? 
-            // Actually, if we fail inside the schedule, we are holding the lock?
-            // Yes, 'await fn()' holds the queue.
-            const waitTime = Math.pow(2, attempt) * 1000;
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-          }
-
-          console.log(`Trying model: ${modelName} (attempt ${attempt + 1})`);
-          const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${apiKey}`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: prompt
-                }]
-              }],
-              generationConfig: {
-                temperature: 0.7,
-                maxOutputTokens: 8192,
-                topK: 40,
-                topP: 0.95
-              }
-            })
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-
-            // Handle Rate Limits specifically
-            if (response.status === 429) {
-              console.error(`429 Rate Limit on ${modelName}`);
-              // If we hit 429 inside the serialized queue, it really means we are pushing too hard 
-              // OR quota is done.
-              // We should NOT hold the queue forever if we loop.
-              // But the loop is finite.
-              lastError = { status: 429, message: 'Rate limit / Quota exceeded', details: errorData };
-
-              // If specific retry-after?
-              const retryAfter = response.headers.get('Retry-After');
-              if (retryAfter) {
-                await new Promise(resolve => setTimeout(resolve, parseInt(retryAfter) * 1000));
-                continue; // Retry same model
-              }
-              // Else continue to next model? 
-              // Usually 429 applies to key, not model. But let's try.
-              break;
-            }
-
-            console.error(`Model ${modelName} failed with status ${response.status}:`, errorData);
-            lastError = errorData;
-            break; // Next model
-          }
-
-          const data = await response.json();
-          // ... (validation logic) ...
-          const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-          if (!text) {
-            // ... error handling ...
-            lastError = 'No text in response';
-            break;
-          }
-
-          return {
-            content: text,
-            codeSnippets: extractCodeSnippets(text)
-          };
-
-        } catch (error) {
-          console.warn(`Model ${modelName} attempt ${attempt + 1} failed:`, error);
-          lastError = error;
-          if (attempt === maxRetries - 1) break;
+        // 429, or Anthropic's 529 when it is overloaded
+        if (error instanceof LLMRequestError && (error.status === 429 || error.status === 529)) {
+          // The wait comes from Retry-After or, for Gemini, the error body
+          const { kind, retryAfter } = classifyLLMError(error, llm.label);
+          // Every queued call waits it out, then the pace is lowered
+          llmScheduler.reportRateLimited(retryAfter);
+          // Without a wait it is most likely the quota
+          if (kind !== 'rate_limited' || retryAfter === null) break;
+          await sleep(retryAfter * 1000, signal);
+        } else if (error instanceof LLMBlockedError || (error instanceof LLMRequestError && error.status >= 400 && error.status < 500)) {
+          // Blocked, bad key, bad request or unknown model: retrying won't help
+          break;
         }
       }
     }
 
-    // Fallback error
-    const errorMessage = lastError ? JSON.stringify(lastError, null, 2) : 'Unknown error';
-    if (lastError?.status === 429) {
-      return {
-        content: `⚠️ **Rate Limit Exceeded**\nPlease wait a moment. The Free Tier limit is strict (15 req/min). We are pacing requests, but you may have hit the daily quota.`,
-        codeSnippets: []
-      };
+    throw classifyLLMError(lastError, llm.label);
+  }, { lane: options?.lane, signal, estimatedTokens, onQueue: options?.onQueue }).catch(error => {
+    // Cancelled while queued or waiting to retry
+    if (isAbortError(error)) {
+      return { content: received, codeSnippets: extractCodeSnippets(received), incomplete: true };
     }
-
-    return {
-      content: `⚠️ Generation Failed.\nLast error: ${errorMessage}`,
-      codeSnippets: []
-    };
+    throw error;
   });
 };
 
 
+const estimateUsage = (prompt: string, output: string): LLMUsage => ({
+  promptTokens: estimateTokens(prompt),
+  outputTokens: estimateTokens(output)
+});
+
 const extractCodeSnippets = (text: string): string[] => {
   const regex = /```[\s\S]*?```/g;
   const matches = text.match(regex) || [];
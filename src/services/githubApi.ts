@@ -1,220 +1,295 @@
 // Service for fetching GitHub repository data
-export interface GitHubFile {
-  name: string;
-  path: string;
-  type: 'file' | 'dir';
-  size?: number;
-  download_url?: string;
-  sha?: string;
-  url?: string;
-}
-
-export interface GitHubRepo {
-  name: string;
-  owner: string;
-  path: string;
-  default_branch?: string;
-  files: GitHubFile[];
-}
-
-export const fetchGitHubRepo = async (repoUrl: string): Promise<GitHubRepo> => {
-  // Extract owner and repo name from URL
-  const regex = /github\.com\/([^\/]+)\/([^\/]+)/;
-  const match = repoUrl.match(regex);
-
-  if (!match) {
+import { GitHubRequestOptions, githubClient } from './githubClient';
+import { RepoTree, TreeEntry, buildTreeFromEntries } from './treeLoader';
+import { FileCommit, ParsedSourceUrl, PullRequest, PullRequestFile, SourceFile, SourceRef } from './providers/types';
+import { parseLineAnchor } from './providers/urlParts';
+
+// The PR files endpoint returns at most 3000 files, 100 per page
+const MAX_PULL_FILE_PAGES = 30;
+// File history shows the most recent commits only
+const MAX_FILE_COMMITS = 100;
+
+/**
+ * Parses repository URLs including the deep forms people share:
+ * github.com/o/r/tree/<ref>/<dir>, github.com/o/r/blob/<ref>/<file>#L40-L60
+ * and pull request links (github.com/o/r/pull/123/files)
+ */
+export const parseGitHubUrl = (url: string): ParsedSourceUrl => {
+  const hostIndex = url.indexOf('github.com/');
+
+  if (hostIndex === -1) {
     throw new Error('Invalid GitHub URL. Please provide a valid GitHub repository URL.');
   }
 
-  const [, owner, repo] = match;
+  const [pathAndQuery, hash = ''] = url.substring(hostIndex + 'github.com/'.length).trim().split('#');
+  const segments = pathAndQuery.split('?')[0].split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments.length < 2) {
+    throw new Error('Invalid GitHub URL. Please provide a valid GitHub repository URL.');
+  }
+
+  const [owner, rawRepo, marker, ...rest] = segments;
+
+  if (marker === 'pull' && /^\d+$/.test(rest[0] || '')) {
+    return { owner, name: rawRepo.replace(/\.git$/, ''), kind: 'pull', refAndPath: [], pullNumber: parseInt(rest[0], 10) };
+  }
+
+  const kind = marker === 'tree' || marker === 'blob' ? marker : 'repo';
+
+  return {
+    owner,
+    name: rawRepo.replace(/\.git$/, ''),
+    kind,
+    refAndPath: kind === 'repo' ? [] : rest,
+    lineRange: parseLineAnchor(hash),
+  };
+};
 
-  // Fetch repository contents (public access only)
-  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents`);
+export const fetchGitHubDefaultBranch = async (owner: string, repo: string): Promise<string> => {
+  // Fetch repository details to get the default branch (authenticated when a token is set)
+  const response = await githubClient.request(`/repos/${owner}/${repo}`);
 
   if (!response.ok) {
-    if (response.status === 403) {
-      throw new Error('GitHub API rate limit exceeded. Please try again later.');
-    }
-    if (response.status === 404) {
-      throw new Error('Repository not found or is private. Only public repositories are supported.');
-    }
-    throw new Error(`Failed to fetch repository: ${response.statusText}`);
+    throw githubClient.toError(response, `Repository ${owner}/${repo}`);
+  }
+
+  const repoDetails = await response.json();
+  return repoDetails.default_branch || 'main';
+};
+
+export const resolveGitHubRef = async (owner: string, repo: string, ref: string): Promise<string> => {
+  // Branch names may contain slashes, which GitHub expects unescaped here
+  const refPath = ref.split('/').map(encodeURIComponent).join('/');
+  const response = await githubClient.request(`/repos/${owner}/${repo}/commits/${refPath}`, {
+    headers: { Accept: 'application/vnd.github.sha' },
+  });
+
+  if (!response.ok) {
+    throw githubClient.toError(response, `Ref "${ref}"`);
+  }
+
+  return (await response.text()).trim();
+};
+
+export const fetchGitHubRefs = async (owner: string, repo: string): Promise<SourceRef[]> => {
+  const [branchesResponse, tagsResponse] = await Promise.all([
+    githubClient.request(`/repos/${owner}/${repo}/branches?per_page=100`),
+    githubClient.request(`/repos/${owner}/${repo}/tags?per_page=100`),
+  ]);
+
+  if (!branchesResponse.ok) {
+    throw githubClient.toError(branchesResponse, `Branches of ${owner}/${repo}`);
+  }
+  if (!tagsResponse.ok) {
+    throw githubClient.toError(tagsResponse, `Tags of ${owner}/${repo}`);
+  }
+
+  const branches = await branchesResponse.json();
+  const tags = await tagsResponse.json();
+
+  return [
+    ...branches.map((b: any): SourceRef => ({ name: b.name, type: 'branch', sha: b.commit?.sha })),
+    ...tags.map((t: any): SourceRef => ({ name: t.name, type: 'tag', sha: t.commit?.sha })),
+  ];
+};
+
+// Loads the complete file tree for a commit with a single Git Trees API call
+export const loadGitHubTree = async (owner: string, repo: string, ref: string, options?: GitHubRequestOptions): Promise<RepoTree> => {
+  console.log(`Loading recursive tree for ${owner}/${repo}@${ref}`);
+  const response = await githubClient.request(
+    `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    {},
+    options
+  );
+
+  if (!response.ok) {
+    throw githubClient.toError(response, `Tree for ${owner}/${repo}@${ref}`);
   }
 
   const data = await response.json();
 
-  // Convert GitHub API response to our format
-  const files: GitHubFile[] = data.map((item: any) => ({
-    name: item.name,
-    path: item.path,
-    type: item.type as 'file' | 'dir',
-    size: item.size,
-    download_url: item.download_url,
-    sha: item.sha,
-    url: item.url,
-  }));
+  if (!Array.isArray(data.tree)) {
+    throw new Error('Invalid tree response from GitHub API');
+  }
 
-  // Fetch repository details to get default branch
-  let defaultBranch = 'main';
-  try {
-    const repoDetailsResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`);
-    if (repoDetailsResponse.ok) {
-      const repoDetails = await repoDetailsResponse.json();
-      defaultBranch = repoDetails.default_branch;
-    }
-  } catch (e) {
-    console.warn('Failed to fetch repo details for default branch', e);
+  if (data.truncated) {
+    console.warn(`Tree for ${owner}/${repo} is truncated; some directories will be loaded on demand.`);
   }
 
+  // Submodules ('commit' entries) have no content we can show
+  const entries: TreeEntry[] = data.tree
+    .filter((item: any) => item.type === 'blob' || item.type === 'tree')
+    .map((item: any): TreeEntry => ({
+      path: item.path,
+      type: item.type === 'tree' ? 'dir' : 'file',
+      sha: item.sha,
+      size: item.size,
+    }));
+
   return {
-    name: repo,
-    owner,
-    path: '',
-    default_branch: defaultBranch,
-    files,
+    root: buildTreeFromEntries(entries, repo),
+    sha: data.sha,
+    truncated: !!data.truncated,
   };
 };
 
-export const fetchGitHubDirContents = async (owner: string, repo: string, path: string): Promise<GitHubFile[]> => {
-  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/${path}`);
+const refQuery = (ref?: string) => (ref ? `?ref=${encodeURIComponent(ref)}` : '');
+
+const toSourceFile = (item: any): SourceFile => ({
+  name: item.name,
+  path: item.path,
+  type: item.type as 'file' | 'dir',
+  size: item.size,
+  download_url: item.download_url,
+  sha: item.sha,
+  url: item.url,
+});
+
+export const fetchGitHubDirContents = async (owner: string, repo: string, path: string, ref?: string): Promise<SourceFile[]> => {
+  const response = await githubClient.request(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`);
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch directory contents: ${response.statusText}`);
+    throw githubClient.toError(response, `Directory "${path}"`);
   }
 
   const data = await response.json();
 
-  return data.map((item: any) => ({
-    name: item.name,
-    path: item.path,
-    type: item.type as 'file' | 'dir',
-    size: item.size,
-    download_url: item.download_url,
-    sha: item.sha,
-    url: item.url,
-  }));
+  return data.map(toSourceFile);
 };
 
-export const fetchGitHubFileContent = async (downloadUrl: string): Promise<string> => {
-  const response = await fetch(downloadUrl);
+// Reads file content through the contents API (raw media type) rather than
+// download_url, so private repositories work with the same token.
+export const fetchGitHubFileContent = async (
+  owner: string,
+  repo: string,
+  path: string,
+  ref?: string,
+  options?: GitHubRequestOptions
+): Promise<string> => {
+  const response = await githubClient.request(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`, {
+    headers: { Accept: 'application/vnd.github.raw' },
+  }, options);
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch file content: ${response.statusText}`);
+    throw githubClient.toError(response, `File "${path}"`);
   }
 
   return await response.text();
 };
 
-export const fetchCompleteRepoStructure = async (
+// Binary files (images) as a Blob, bypassing the text-only response store
+export const fetchGitHubFileBlob = async (
   owner: string,
   repo: string,
-  path: string = '',
-  maxDepth: number = 3,
-  currentDepth: number = 0
-): Promise<any> => {
-  if (currentDepth >= maxDepth) {
-    return { name: path.split('/').pop() || repo, type: 'dir', children: [] };
-  }
-
-  try {
-    // Add a small delay to avoid rate limiting
-    if (currentDepth > 0) {
-      await new Promise(resolve => setTimeout(resolve, 150));
-    }
+  path: string,
+  ref?: string,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const response = await githubClient.request(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`, {
+    headers: { Accept: 'application/vnd.github.raw' },
+  }, { conditional: false, signal });
 
-    console.log(`Fetching structure for: ${owner}/${repo}${path ? `/${path}` : ''} (depth ${currentDepth})`);
-    const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        console.warn('Rate limit hit, waiting before retry...');
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        // Retry once
-        const retryResponse = await fetch(url);
-        if (!retryResponse.ok) {
-          const errorText = await retryResponse.text().catch(() => 'Unknown error');
-          console.error(`Retry failed for ${path}: ${retryResponse.status} ${retryResponse.statusText}`, errorText);
-          throw new Error(`Failed to fetch ${path}: ${retryResponse.status} ${retryResponse.statusText}`);
-        }
-        const retryData = await retryResponse.json();
-        if (Array.isArray(retryData)) {
-          return processDataArray(retryData, owner, repo, path, maxDepth, currentDepth);
-        }
-        console.error('Retry response was not an array:', retryData);
-        throw new Error(`Invalid response format for ${path}`);
-      }
-
-      const errorText = await response.text().catch(() => 'Unknown error');
-      console.error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`, errorText);
-
-      if (response.status === 403) {
-        throw new Error('GitHub API rate limit exceeded. Please wait a few minutes and try again.');
-      }
-      if (response.status === 404) {
-        throw new Error(`Repository or path not found: ${owner}/${repo}${path ? `/${path}` : ''}`);
-      }
-
-      throw new Error(`Failed to fetch repository structure: ${response.status} ${response.statusText}`);
-    }
+  if (!response.ok) {
+    throw githubClient.toError(response, `File "${path}"`);
+  }
 
-    const data = await response.json();
+  return response.blob();
+};
+
+const PULL_FILE_STATUS: Record<string, PullRequestFile['status']> = {
+  added: 'added',
+  copied: 'added',
+  removed: 'removed',
+  renamed: 'renamed',
+};
+
+// PR files and commit files share one shape in the REST API
+const toPullRequestFile = (file: any): PullRequestFile => ({
+  path: file.filename,
+  previous_path: file.previous_filename,
+  status: PULL_FILE_STATUS[file.status] || 'modified',
+  additions: file.additions,
+  deletions: file.deletions,
+  patch: file.patch,
+});
+
+// Loads a pull request with its changed files and their patches
+export const fetchGitHubPullRequest = async (owner: string, repo: string, pullNumber: number): Promise<PullRequest> => {
+  const response = await githubClient.request(`/repos/${owner}/${repo}/pulls/${pullNumber}`);
+
+  if (!response.ok) {
+    throw githubClient.toError(response, `Pull request #${pullNumber}`);
+  }
+
+  const pull = await response.json();
+  const files: PullRequestFile[] = [];
+
+  for (let page = 1; page <= MAX_PULL_FILE_PAGES; page++) {
+    const filesResponse = await githubClient.request(
+      `/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`
+    );
 
-    if (!Array.isArray(data)) {
-      console.error('Response is not an array:', data);
-      throw new Error('Invalid repository structure response from GitHub API');
+    if (!filesResponse.ok) {
+      throw githubClient.toError(filesResponse, `Files of pull request #${pullNumber}`);
     }
 
-    return processDataArray(data, owner, repo, path, maxDepth, currentDepth);
-  } catch (error) {
-    console.error(`Error fetching structure for ${path}:`, error);
-    throw error;
+    const batch = await filesResponse.json();
+    files.push(...batch.map(toPullRequestFile));
+
+    if (batch.length < 100) break;
   }
+
+  return {
+    number: pull.number,
+    title: pull.title,
+    body: pull.body || '',
+    author: pull.user?.login || 'unknown',
+    url: pull.html_url,
+    base_ref: pull.base.ref,
+    base_sha: pull.base.sha,
+    head_ref: pull.head.ref,
+    head_sha: pull.head.sha,
+    files,
+  };
 };
 
-// Helper function to process data array with batching
-async function processDataArray(
-  data: any[],
+// Commits that touched a file, newest first, as seen from `ref`
+export const fetchGitHubFileCommits = async (owner: string, repo: string, path: string, ref: string): Promise<FileCommit[]> => {
+  const response = await githubClient.request(
+    `/repos/${owner}/${repo}/commits?path=${encodeURIComponent(path)}&sha=${encodeURIComponent(ref)}&per_page=${MAX_FILE_COMMITS}`
+  );
+
+  if (!response.ok) {
+    throw githubClient.toError(response, `History of "${path}"`);
+  }
+
+  const commits = await response.json();
+
+  return commits.map((item: any): FileCommit => ({
+    sha: item.sha,
+    message: item.commit.message,
+    author: item.author?.login || item.commit.author?.name || 'unknown',
+    date: item.commit.author?.date,
+    url: item.html_url,
+  }));
+};
+
+// The change a single commit made to one file (null if it didn't touch it)
+export const fetchGitHubCommitFileDiff = async (
   owner: string,
   repo: string,
+  sha: string,
   path: string,
-  maxDepth: number,
-  currentDepth: number
-): Promise<any> {
-  // Process items in smaller batches to avoid rate limiting
-  const batchSize = 3;
-  const structure: any[] = [];
-
-  for (let i = 0; i < data.length; i += batchSize) {
-    const batch = data.slice(i, i + batchSize);
-    const batchResults = await Promise.all(
-      batch.map(async (item: any) => {
-        if (item.type === 'dir') {
-          // Recursively fetch subdirectories
-          const children = await fetchCompleteRepoStructure(owner, repo, item.path, maxDepth, currentDepth + 1);
-          return {
-            name: item.name,
-            type: 'dir',
-            path: item.path,
-            children: children?.children || []
-          };
-        } else {
-          return {
-            name: item.name,
-            type: 'file',
-            path: item.path,
-            size: item.size
-          };
-        }
-      })
-    );
-    structure.push(...batchResults);
+  options?: GitHubRequestOptions
+): Promise<PullRequestFile | null> => {
+  const response = await githubClient.request(`/repos/${owner}/${repo}/commits/${sha}`, {}, options);
+
+  if (!response.ok) {
+    throw githubClient.toError(response, `Commit ${sha.substring(0, 7)}`);
   }
 
-  return {
-    name: path.split('/').pop() || repo,
-    type: 'dir',
-    path: path,
-    children: structure.filter(Boolean)
-  };
-}
\ No newline at end of file
+  const commit = await response.json();
+  const file = (commit.files || []).find((f: any) => f.filename === path || f.previous_filename === path);
+
+  return file ? toPullRequestFile(file) : null;
+};
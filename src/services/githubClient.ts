@@ -0,0 +1,245 @@
+// Shared GitHub API client. Every call to api.github.com goes through here so that
+// authentication, error reporting, the rate-limit budget and conditional
+// requests are handled in one place.
+import { etagStore } from './etagStore';
+import { fnv1a } from './hash';
+import { RequestPriority } from './providers/types';
+import { sleep } from './abort';
+
+const GITHUB_API_BASE = 'https://api.github.com';
+
+export interface RateLimitBudget {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the window resets
+  resetAt: number;
+  // Background requests currently held back until the reset
+  deferred: number;
+}
+
+type BudgetListener = (budget: RateLimitBudget | null) => void;
+
+export interface GitHubRequestOptions {
+  priority?: RequestPriority;
+  // Binary downloads skip the conditional-request store, which keeps text bodies
+  conditional?: boolean;
+  // Cancels the request, including a background wait for the rate-limit reset
+  signal?: AbortSignal;
+}
+
+// Share of the hourly limit kept for requests the user is waiting on.
+// Background fetches (diagram inputs, history diffs) wait for the reset
+// instead of eating into it.
+const RESERVE_RATIO = 0.05;
+const MIN_RESERVE = 5;
+
+class GitHubClient {
+  private token: string | null = null;
+  private budget: RateLimitBudget | null = null;
+  private listeners = new Set<BudgetListener>();
+
+  setToken(token: string | null) {
+    const next = token && token.trim() ? token.trim() : null;
+    if (next !== this.token) {
+      // Limits are per token (or per IP without one), so the old budget no longer applies
+      this.budget = null;
+      this.notify();
+    }
+    this.token = next;
+  }
+
+  hasToken(): boolean {
+    return this.token !== null;
+  }
+
+  getBudget(): RateLimitBudget | null {
+    return this.budget;
+  }
+
+  subscribe(listener: BudgetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async request(pathOrUrl: string, init: RequestInit = {}, options: GitHubRequestOptions = {}): Promise<Response> {
+    const { priority = 'essential', conditional = true, signal } = options;
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${GITHUB_API_BASE}${pathOrUrl}`;
+    const headers = new Headers(init.headers);
+
+    if (!headers.has('Accept')) {
+      headers.set('Accept', 'application/vnd.github+json');
+    }
+    if (this.token) {
+      headers.set('Authorization', `Bearer ${this.token}`);
+    }
+
+    if (priority === 'background') {
+      await this.waitForBackgroundSlot(signal);
+    }
+
+    // GETs are made conditional on the last response we stored for them
+    const method = (init.method || 'GET').toUpperCase();
+    const storeKey = method === 'GET' && conditional ? this.storeKey(url, headers) : null;
+    const stored = storeKey ? etagStore.get(storeKey) : null;
+    if (stored?.etag) {
+      headers.set('If-None-Match', stored.etag);
+    } else if (stored?.lastModified) {
+      headers.set('If-Modified-Since', stored.lastModified);
+    }
+
+    // Count the call up front so parallel requests don't all see the same headroom
+    if (this.budget) {
+      this.budget = { ...this.budget, remaining: Math.max(0, this.budget.remaining - 1) };
+    }
+
+    const response = await fetch(url, { ...init, headers, signal: signal || init.signal });
+
+    if (response.status === 304 && stored && storeKey) {
+      // 304s don't count against the rate limit
+      if (this.budget) {
+        this.budget = { ...this.budget, remaining: this.budget.remaining + 1 };
+      }
+      this.updateBudget(response);
+      etagStore.touch(storeKey);
+      return this.fromStore(stored, response);
+    }
+
+    this.updateBudget(response);
+
+    if (response.ok && storeKey) {
+      await this.store(storeKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Builds a readable error for a failed response, telling an invalid or
+   * under-scoped token apart from a missing resource or an exhausted rate limit.
+   */
+  toError(response: Response, target: string): Error {
+    if (response.status === 401) {
+      return new Error('GitHub rejected the access token. Check that it is valid and has not expired.');
+    }
+
+    if (response.status === 403 || response.status === 429) {
+      // The primary limit is only exhausted when the budget says so; a
+      // Retry-After header marks the secondary (abuse) limit. Any other 403
+      // is a permissions problem.
+      if (response.headers.get('X-RateLimit-Remaining') === '0') {
+        const reset = parseInt(response.headers.get('X-RateLimit-Reset') || '', 10);
+        const resetNote = reset ? ` It resets at ${new Date(reset * 1000).toLocaleTimeString()}.` : '';
+        return new Error(this.token
+          ? `GitHub API rate limit exceeded for your token.${resetNote}`
+          : `GitHub API rate limit exceeded. Add a GitHub token to raise the limit.${resetNote}`);
+      }
+      if (response.headers.get('Retry-After') || response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        return new Error(`GitHub is throttling requests (secondary rate limit). Try again${retryAfter ? ` in ${retryAfter} seconds` : ' shortly'}.`);
+      }
+      return new Error(this.token
+        ? `Your GitHub token does not have access to ${target}. Private repositories need the "repo" scope (or Contents read access for fine-grained tokens).`
+        : `GitHub denied access to ${target}.`);
+    }
+
+    if (response.status === 404) {
+      return new Error(this.token
+        ? `${target} was not found, or your GitHub token cannot see it.`
+        : `${target} was not found. If it is a private repository, add a GitHub token.`);
+    }
+
+    return new Error(`GitHub request for ${target} failed: ${response.status} ${response.statusText}`);
+  }
+
+  // Responses differ by media type and by who is asking, so both are part
+  // of the key (the token only as a hash)
+  private storeKey(url: string, headers: Headers): string {
+    return fnv1a(`${url}|${headers.get('Accept')}|${this.token ? fnv1a(this.token) : 'anonymous'}`);
+  }
+
+  private async store(storeKey: string, response: Response) {
+    const etag = response.headers.get('ETag') || undefined;
+    const lastModified = response.headers.get('Last-Modified') || undefined;
+    if (!etag && !lastModified) return;
+
+    try {
+      const body = await response.clone().text();
+      etagStore.set(storeKey, {
+        etag,
+        lastModified,
+        body,
+        contentType: response.headers.get('Content-Type') || undefined,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.warn('Could not store GitHub response for conditional requests:', error);
+    }
+  }
+
+  // Rebuilds a 200 response from the stored body, keeping the fresh headers
+  private fromStore(stored: { body: string; contentType?: string }, notModified: Response): Response {
+    const headers = new Headers(notModified.headers);
+    if (stored.contentType) {
+      headers.set('Content-Type', stored.contentType);
+    }
+    return new Response(stored.body, { status: 200, statusText: 'OK', headers });
+  }
+
+  private reserve(limit: number): number {
+    return Math.max(MIN_RESERVE, Math.ceil(limit * RESERVE_RATIO));
+  }
+
+  private async waitForBackgroundSlot(signal?: AbortSignal) {
+    let deferred = false;
+
+    try {
+      while (this.budget && this.budget.remaining <= this.reserve(this.budget.limit) && this.budget.resetAt > Date.now()) {
+        if (!deferred) {
+          deferred = true;
+          this.budget = { ...this.budget, deferred: this.budget.deferred + 1 };
+          this.notify();
+          console.warn(`GitHub budget low; deferring a background request until ${new Date(this.budget.resetAt).toLocaleTimeString()}`);
+        }
+        // Re-check periodically; a new token or an earlier reset frees the slot sooner
+        await sleep(Math.min(this.budget.resetAt - Date.now() + 1000, 30000), signal);
+      }
+    } finally {
+      // A cancelled request stops waiting too
+      if (deferred && this.budget) {
+        this.budget = { ...this.budget, deferred: Math.max(0, this.budget.deferred - 1) };
+        this.notify();
+      }
+    }
+  }
+
+  // X-RateLimit-* headers come with every REST response, errors included
+  private updateBudget(response: Response) {
+    const limit = parseInt(response.headers.get('X-RateLimit-Limit') || '', 10);
+    const remaining = parseInt(response.headers.get('X-RateLimit-Remaining') || '', 10);
+    const reset = parseInt(response.headers.get('X-RateLimit-Reset') || '', 10);
+    const resource = response.headers.get('X-RateLimit-Resource');
+
+    // Search and GraphQL have separate buckets; only track the core REST one
+    if (isNaN(limit) || isNaN(remaining) || isNaN(reset) || (resource && resource !== 'core')) {
+      return;
+    }
+
+    const resetAt = reset * 1000;
+    // Responses can arrive out of order; within one window keep the lowest count
+    const sameWindow = this.budget && this.budget.resetAt === resetAt;
+    this.budget = {
+      limit,
+      remaining: sameWindow ? Math.min(this.budget!.remaining, remaining) : remaining,
+      resetAt,
+      deferred: this.budget?.deferred || 0,
+    };
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.budget));
+  }
+}
+
+export const githubClient = new GitHubClient();
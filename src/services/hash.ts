@@ -0,0 +1,9 @@
+// FNV-1a: a fast, non-cryptographic hash for cache keys and fingerprints
+export const fnv1a = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
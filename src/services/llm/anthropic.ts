@@ -0,0 +1,82 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import { LLMBlockedError, LLMRequestError, postJson, readServerSentEvents } from './http';
+
+export const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+const API_VERSION = '2023-06-01';
+
+const toUsage = (usage: any): LLMUsage | undefined =>
+  usage ? { promptTokens: usage.input_tokens || 0, outputTokens: usage.output_tokens || 0 } : undefined;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly kind = 'anthropic';
+  readonly label = 'Anthropic';
+  readonly requiresApiKey = true;
+
+  constructor(readonly model: string, private readonly baseUrl: string) { }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/v1/messages`, this.body(request, false), this.headers(request.apiKey), request.signal);
+    const data = await response.json();
+    if (data.stop_reason === 'refusal') {
+      throw new LLMBlockedError('refusal');
+    }
+    const text = (data.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+    if (!text) {
+      throw new LLMRequestError('No text in response', 200, null, data);
+    }
+    return { text, model: data.model || this.model, usage: toUsage(data.usage) };
+  }
+
+  async stream(request: LLMRequest, onText: (chunk: string) => void): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/v1/messages`, this.body(request, true), this.headers(request.apiKey), request.signal);
+    let text = '';
+    let promptTokens = 0;
+    let outputTokens = 0;
+    await readServerSentEvents(response, data => {
+      if (data.type === 'message_start') {
+        promptTokens = data.message?.usage?.input_tokens || 0;
+      } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+        text += data.delta.text;
+        onText(data.delta.text);
+      } else if (data.type === 'message_delta') {
+        outputTokens = data.usage?.output_tokens || outputTokens;
+        if (data.delta?.stop_reason === 'refusal') {
+          throw new LLMBlockedError('refusal');
+        }
+      } else if (data.type === 'error') {
+        throw new LLMRequestError(data.error?.message || 'Stream error', 500, null, data);
+      }
+    });
+    return { text, model: this.model, usage: { promptTokens, outputTokens } };
+  }
+
+  async countTokens(text: string, apiKey: string): Promise<number> {
+    const response = await postJson(`${this.baseUrl}/v1/messages/count_tokens`, {
+      model: this.model,
+      messages: [{ role: 'user', content: text }],
+    }, this.headers(apiKey));
+    const data = await response.json();
+    return data.input_tokens || 0;
+  }
+
+  private headers(apiKey: string): Record<string, string> {
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': API_VERSION,
+      // Calls go straight from the browser; the key never leaves the user's machine otherwise
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private body(request: LLMRequest, stream: boolean) {
+    // No JSON or schema mode: the prompts already ask for pure JSON and spell out its shape
+    return {
+      model: this.model,
+      max_tokens: request.maxOutputTokens ?? 8192,
+      temperature: request.temperature ?? 0.7,
+      messages: [{ role: 'user', content: request.prompt }],
+      ...(stream ? { stream: true } : {}),
+    };
+  }
+}
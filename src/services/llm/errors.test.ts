@@ -0,0 +1,162 @@
+import { GenerationError, classifyLLMError } from './errors';
+import { LLMBlockedError, LLMRequestError } from './http';
+
+// Error bodies as the providers send them
+const geminiRateLimit = (quotaId: string, retryDelay?: string) => ({
+  error: {
+    code: 429,
+    message: 'You exceeded your current quota, please check your plan and billing details.',
+    status: 'RESOURCE_EXHAUSTED',
+    details: [
+      {
+        '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+        violations: [{ quotaMetric: 'generativelanguage.googleapis.com/generate_content_free_tier_requests', quotaId }],
+      },
+      ...(retryDelay ? [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }] : []),
+    ],
+  },
+});
+
+const openAIError = (type: string, code: string | null) => ({
+  error: { message: 'Rate limit reached for gpt-4o-mini', type, param: null, code },
+});
+
+const anthropicError = (type: string, message: string) => ({ type: 'error', error: { type, message } });
+
+const requestError = (status: number, details: unknown, retryAfter: number | null = null, message = 'Request failed') =>
+  new LLMRequestError(message, status, retryAfter, details);
+
+describe('classifyLLMError', () => {
+  test.each([
+    {
+      name: 'Gemini per-minute limit with retryDelay in the body',
+      error: requestError(429, geminiRateLimit('GenerateRequestsPerMinutePerProjectPerModel-FreeTier', '31.4s')),
+      kind: 'rate_limited',
+      retryAfter: 32,
+    },
+    {
+      name: 'Gemini per-minute limit without a delay',
+      error: requestError(429, geminiRateLimit('GenerateRequestsPerMinutePerProjectPerModel-FreeTier')),
+      kind: 'rate_limited',
+      retryAfter: null,
+    },
+    {
+      name: 'Gemini daily quota',
+      error: requestError(429, geminiRateLimit('GenerateRequestsPerDayPerProjectPerModel-FreeTier', '20s')),
+      kind: 'quota_exhausted',
+      retryAfter: null,
+    },
+    {
+      name: 'the Retry-After header ahead of the body',
+      error: requestError(429, geminiRateLimit('GenerateRequestsPerMinutePerProjectPerModel-FreeTier', '31s'), 5),
+      kind: 'rate_limited',
+      retryAfter: 5,
+    },
+    {
+      name: 'OpenAI rate limit with Retry-After',
+      error: requestError(429, openAIError('requests', 'rate_limit_exceeded'), 20),
+      kind: 'rate_limited',
+      retryAfter: 20,
+    },
+    {
+      name: 'OpenAI out of credit',
+      error: requestError(429, openAIError('insufficient_quota', 'insufficient_quota')),
+      kind: 'quota_exhausted',
+      retryAfter: null,
+    },
+    {
+      name: 'Anthropic overloaded (529)',
+      error: requestError(529, anthropicError('overloaded_error', 'Overloaded'), null, 'Overloaded'),
+      kind: 'rate_limited',
+      retryAfter: null,
+    },
+    {
+      name: 'Anthropic rate limit with Retry-After',
+      error: requestError(429, anthropicError('rate_limit_error', 'Number of requests has exceeded your rate limit'), 12),
+      kind: 'rate_limited',
+      retryAfter: 12,
+    },
+    {
+      name: 'a billing message on a 429',
+      error: requestError(429, {}, null, 'Your credit balance is too low to access the API.'),
+      kind: 'quota_exhausted',
+      retryAfter: null,
+    },
+    {
+      name: 'payment required (402)',
+      error: requestError(402, {}),
+      kind: 'quota_exhausted',
+      retryAfter: null,
+    },
+    {
+      name: 'Gemini invalid key (400)',
+      error: requestError(400, { error: { code: 400, status: 'INVALID_ARGUMENT' } }, null, 'API key not valid. Please pass a valid API key.'),
+      kind: 'invalid_key',
+      retryAfter: null,
+    },
+    {
+      name: 'OpenAI invalid key (401)',
+      error: requestError(401, openAIError('invalid_request_error', 'invalid_api_key'), null, 'Incorrect API key provided'),
+      kind: 'invalid_key',
+      retryAfter: null,
+    },
+    {
+      name: 'Anthropic permission error (403)',
+      error: requestError(403, anthropicError('permission_error', 'Your API key does not have permission')),
+      kind: 'invalid_key',
+      retryAfter: null,
+    },
+    {
+      name: 'an answer without text',
+      error: requestError(200, null, null, 'No text in response'),
+      kind: 'malformed',
+      retryAfter: null,
+    },
+    {
+      name: 'a safety block',
+      error: new LLMBlockedError('SAFETY'),
+      kind: 'safety_blocked',
+      retryAfter: null,
+    },
+    {
+      name: 'an unreachable host',
+      error: new TypeError('Failed to fetch'),
+      kind: 'network',
+      retryAfter: null,
+    },
+    {
+      name: 'an unreadable response',
+      error: new SyntaxError('Unexpected token < in JSON at position 0'),
+      kind: 'malformed',
+      retryAfter: null,
+    },
+  ])('$name is $kind', ({ error, kind, retryAfter }) => {
+    const classified = classifyLLMError(error, 'Gemini');
+    expect(classified).toBeInstanceOf(GenerationError);
+    expect(classified.kind).toBe(kind);
+    expect(classified.retryAfter).toBe(retryAfter);
+  });
+
+  test.each([
+    [requestError(400, {}, null, 'model not found'), 'Gemini returned 400: model not found'],
+    [requestError(500, {}, null, 'Internal error'), 'Gemini returned 500: Internal error'],
+    [new Error('Something broke'), 'Something broke'],
+    ['plain text', 'plain text'],
+  ])('reports %p as unknown', (error, message) => {
+    const classified = classifyLLMError(error, 'Gemini');
+    expect(classified.kind).toBe('unknown');
+    expect(classified.message).toBe(message);
+  });
+
+  test('keeps the text streamed before the failure', () => {
+    expect(classifyLLMError(new TypeError('network error'), 'Ollama', 'The file').partial).toBe('The file');
+  });
+
+  test('passes a GenerationError through, adding the partial text', () => {
+    const error = new GenerationError('invalid_key', 'OpenAI API key is required');
+    expect(classifyLLMError(error, 'OpenAI')).toBe(error);
+
+    const withPartial = classifyLLMError(error, 'OpenAI', 'Partial answer');
+    expect(withPartial).toMatchObject({ kind: 'invalid_key', message: 'OpenAI API key is required', partial: 'Partial answer' });
+  });
+});
@@ -0,0 +1,101 @@
+// Typed failures of an LLM call, so the UI can say what went wrong and how to
+// recover instead of showing error text as if it were an answer
+import { LLMBlockedError, LLMRequestError } from './http';
+
+export type GenerationErrorKind =
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'invalid_key'
+  | 'safety_blocked'
+  | 'network'
+  | 'malformed'
+  | 'budget_exceeded'
+  | 'unknown';
+
+// What is kept in state in place of an answer; plain data, so it survives
+// being stored with the explanations
+export interface GenerationFailure {
+  kind: GenerationErrorKind;
+  message: string;
+  // Seconds the provider asked to wait before trying again
+  retryAfter: number | null;
+  at: number;
+}
+
+export class GenerationError extends Error {
+  constructor(
+    readonly kind: GenerationErrorKind,
+    message: string,
+    readonly retryAfter: number | null = null,
+    // Text streamed before the failure
+    readonly partial = ''
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+
+  toFailure(): GenerationFailure {
+    return { kind: this.kind, message: this.message, retryAfter: this.retryAfter, at: Date.now() };
+  }
+}
+
+// Gemini puts the wait in the error body ("retryDelay": "31s") rather than a header
+const retryDelayFromDetails = (details: any): number | null => {
+  const info = (details?.error?.details || []).find((detail: any) => typeof detail?.retryDelay === 'string');
+  const seconds = info ? parseFloat(info.retryDelay) : NaN;
+  return isNaN(seconds) ? null : Math.ceil(seconds);
+};
+
+// Per-day quotas (Gemini) and billing limits (OpenAI) don't come back in a minute
+const isQuotaExhausted = (error: LLMRequestError): boolean => {
+  const details: any = error.details;
+  if (details?.error?.code === 'insufficient_quota' || details?.error?.type === 'insufficient_quota') {
+    return true;
+  }
+  const violations = (details?.error?.details || []).flatMap((detail: any) => detail?.violations || []);
+  if (violations.some((violation: any) => /PerDay/i.test(violation?.quotaId || ''))) {
+    return true;
+  }
+  return /billing|credit balance|insufficient.?quota/i.test(error.message);
+};
+
+/**
+ * Sorts any error thrown by a provider call into one of the kinds the UI
+ * knows how to recover from. `partial` is the text streamed before it.
+ */
+export const classifyLLMError = (error: unknown, providerLabel: string, partial = ''): GenerationError => {
+  if (error instanceof GenerationError) {
+    return partial && !error.partial ? new GenerationError(error.kind, error.message, error.retryAfter, partial) : error;
+  }
+  if (error instanceof LLMBlockedError) {
+    return new GenerationError('safety_blocked', error.message, null, partial);
+  }
+  if (error instanceof LLMRequestError) {
+    const { status } = error;
+    if (status === 429 || status === 529) {
+      const retryAfter = error.retryAfter ?? retryDelayFromDetails(error.details);
+      return isQuotaExhausted(error)
+        ? new GenerationError('quota_exhausted', error.message, null, partial)
+        : new GenerationError('rate_limited', error.message, retryAfter, partial);
+    }
+    if (status === 402) {
+      return new GenerationError('quota_exhausted', error.message, null, partial);
+    }
+    if (status === 401 || status === 403 || (status === 400 && /api.?key/i.test(error.message))) {
+      return new GenerationError('invalid_key', error.message, null, partial);
+    }
+    if (status === 200) {
+      // An answer arrived but had no usable text
+      return new GenerationError('malformed', error.message, null, partial);
+    }
+    return new GenerationError('unknown', `${providerLabel} returned ${status}: ${error.message}`, null, partial);
+  }
+  // fetch rejects with a TypeError when the host can't be reached (offline, CORS, wrong URL)
+  if (error instanceof TypeError) {
+    return new GenerationError('network', `Could not reach ${providerLabel}: ${error.message}`, null, partial);
+  }
+  if (error instanceof SyntaxError) {
+    return new GenerationError('malformed', `${providerLabel} sent a response that could not be read: ${error.message}`, null, partial);
+  }
+  return new GenerationError('unknown', error instanceof Error ? error.message : String(error), null, partial);
+};
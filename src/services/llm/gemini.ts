@@ -0,0 +1,115 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import { LLMBlockedError, LLMRequestError, postJson, readServerSentEvents } from './http';
+
+export const GEMINI_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+export const GEMINI_DEFAULT_MODEL = 'gemini-3-flash-preview';
+// Tried when the chosen model is unavailable (preview models come and go)
+const FALLBACK_MODEL = 'gemini-2.5-flash';
+
+const toUsage = (metadata: any): LLMUsage | undefined =>
+  metadata ? { promptTokens: metadata.promptTokenCount || 0, outputTokens: metadata.candidatesTokenCount || 0 } : undefined;
+
+const partsText = (data: any): string =>
+  (data.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+
+// Finish reasons that mean the content filters stopped the answer
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Throws when the prompt or the answer was blocked
+const checkBlocked = (data: any) => {
+  const reason = data.promptFeedback?.blockReason
+    || (BLOCKED_FINISH_REASONS.includes(data.candidates?.[0]?.finishReason) ? data.candidates[0].finishReason : null);
+  if (reason) {
+    throw new LLMBlockedError(reason);
+  }
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly kind = 'gemini';
+  readonly label = 'Google Gemini';
+  readonly requiresApiKey = true;
+
+  constructor(readonly model: string, private readonly baseUrl: string) { }
+
+  generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.withFallback(request, () => true, async model => {
+      const response = await postJson(`${this.baseUrl}/models/${model}:generateContent?key=${request.apiKey}`, this.body(request), {}, request.signal);
+      const data = await response.json();
+      checkBlocked(data);
+      const text = partsText(data);
+      if (!text) {
+        throw new LLMRequestError('No text in response', 200, null, data);
+      }
+      return { text, model, usage: toUsage(data.usageMetadata) };
+    });
+  }
+
+  stream(request: LLMRequest, onText: (chunk: string) => void): Promise<LLMResponse> {
+    let text = '';
+    // Once part of the answer is out, another model can't take over
+    return this.withFallback(request, () => text === '', async model => {
+      const response = await postJson(`${this.baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${request.apiKey}`, this.body(request), {}, request.signal);
+      let usage: LLMUsage | undefined;
+      await readServerSentEvents(response, data => {
+        checkBlocked(data);
+        const chunk = partsText(data);
+        if (chunk) {
+          text += chunk;
+          onText(chunk);
+        }
+        // Every event carries the running totals; the last one wins
+        usage = toUsage(data.usageMetadata) || usage;
+      });
+      return { text, model, usage };
+    });
+  }
+
+  async countTokens(text: string, apiKey: string): Promise<number> {
+    const response = await postJson(`${this.baseUrl}/models/${this.model}:countTokens?key=${apiKey}`, {
+      contents: [{ parts: [{ text }] }],
+    });
+    const data = await response.json();
+    return data.totalTokens || 0;
+  }
+
+  private body(request: LLMRequest) {
+    return {
+      contents: [{ parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        maxOutputTokens: request.maxOutputTokens ?? 8192,
+        topK: 40,
+        topP: 0.95,
+        ...(request.json || request.schema ? { responseMimeType: 'application/json' } : {}),
+        ...(request.schema ? { responseJsonSchema: request.schema } : {}),
+      },
+    };
+  }
+
+  // Rate limits and bad keys apply to every model, so only a missing or
+  // failing model moves on to the fallback
+  private async withFallback(
+    request: LLMRequest,
+    canFallBack: () => boolean,
+    run: (model: string) => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const models = this.model === FALLBACK_MODEL ? [this.model] : [this.model, FALLBACK_MODEL];
+    let lastError: unknown = null;
+
+    for (const model of models) {
+      try {
+        return await run(model);
+      } catch (error) {
+        lastError = error;
+        if (request.signal?.aborted || !canFallBack() || error instanceof LLMBlockedError) {
+          throw error;
+        }
+        if (error instanceof LLMRequestError && error.status >= 400 && error.status < 500 && error.status !== 404) {
+          throw error;
+        }
+        console.warn(`Model ${model} failed, trying the next one:`, error);
+      }
+    }
+    throw lastError;
+  }
+}
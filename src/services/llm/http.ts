@@ -0,0 +1,85 @@
+// Request and streaming helpers shared by the LLM backends
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // Seconds, from the Retry-After header
+    readonly retryAfter: number | null,
+    readonly details: unknown
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// The provider refused to answer, or stopped, because of its content filters
+export class LLMBlockedError extends Error {
+  constructor(readonly reason: string) {
+    super(`Blocked by the provider's safety filters (${reason})`);
+    this.name = 'LLMBlockedError';
+  }
+}
+
+// Rough count for backends without a tokenizer endpoint: about 4 characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => ({}));
+    const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+    const message = details?.error?.message || details?.error || `${response.status} ${response.statusText}`;
+    throw new LLMRequestError(String(message), response.status, isNaN(retryAfter) ? null : retryAfter, details);
+  }
+  return response;
+};
+
+// Feeds each line of a streamed body to onLine (NDJSON, or SSE before parsing)
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new Error('The response cannot be streamed in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => onLine(line.replace(/\r$/, '')));
+  }
+  if (buffer.trim()) {
+    onLine(buffer);
+  }
+};
+
+// Server-sent events: calls onData with the parsed JSON of every "data:" line
+export const readServerSentEvents = (response: Response, onData: (data: any) => void): Promise<void> =>
+  readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.substring(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    let data: any;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      console.warn('Skipping malformed stream event:', payload.substring(0, 200));
+      return;
+    }
+    onData(data);
+  });
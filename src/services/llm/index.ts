@@ -0,0 +1,102 @@
+// Picks the language model backend from the settings saved in this browser
+import { LLMProvider, LLMProviderKind, LLMSettings } from './types';
+import { GEMINI_DEFAULT_BASE_URL, GEMINI_DEFAULT_MODEL, GeminiProvider } from './gemini';
+import { OPENAI_DEFAULT_BASE_URL, OPENAI_DEFAULT_MODEL, OpenAICompatibleProvider } from './openai';
+import { ANTHROPIC_DEFAULT_BASE_URL, ANTHROPIC_DEFAULT_MODEL, AnthropicProvider } from './anthropic';
+import { OLLAMA_DEFAULT_BASE_URL, OLLAMA_DEFAULT_MODEL, OllamaProvider } from './ollama';
+
+export * from './types';
+export { LLMBlockedError, LLMRequestError, estimateTokens } from './http';
+export * from './errors';
+
+const SETTINGS_STORAGE_KEY = 'explainhub_llm_settings';
+
+export interface LLMProviderOption {
+  kind: LLMProviderKind;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  // Suggestions for the model field; any other model name works too
+  models: string[];
+  keyUrl?: string;
+}
+
+export const LLM_PROVIDER_OPTIONS: LLMProviderOption[] = [
+  {
+    kind: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: GEMINI_DEFAULT_MODEL,
+    defaultBaseUrl: GEMINI_DEFAULT_BASE_URL,
+    models: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    keyUrl: 'https://aistudio.google.com/app/apikey',
+  },
+  {
+    kind: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel: OPENAI_DEFAULT_MODEL,
+    defaultBaseUrl: OPENAI_DEFAULT_BASE_URL,
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'],
+    keyUrl: 'https://platform.openai.com/api-keys',
+  },
+  {
+    kind: 'anthropic',
+    label: 'Anthropic',
+    defaultModel: ANTHROPIC_DEFAULT_MODEL,
+    defaultBaseUrl: ANTHROPIC_DEFAULT_BASE_URL,
+    models: ['claude-3-5-haiku-latest', 'claude-sonnet-4-0'],
+    keyUrl: 'https://console.anthropic.com/settings/keys',
+  },
+  {
+    kind: 'ollama',
+    label: 'Ollama (local)',
+    defaultModel: OLLAMA_DEFAULT_MODEL,
+    defaultBaseUrl: OLLAMA_DEFAULT_BASE_URL,
+    models: ['llama3.1', 'qwen2.5-coder', 'mistral'],
+  },
+];
+
+export const getProviderOption = (kind: LLMProviderKind): LLMProviderOption =>
+  LLM_PROVIDER_OPTIONS.find(option => option.kind === kind) || LLM_PROVIDER_OPTIONS[0];
+
+export const defaultSettingsFor = (kind: LLMProviderKind): LLMSettings => {
+  const option = getProviderOption(kind);
+  return { provider: option.kind, model: option.defaultModel, baseUrl: option.defaultBaseUrl };
+};
+
+export const getLLMSettings = (): LLMSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const settings: LLMSettings = JSON.parse(stored);
+      const defaults = defaultSettingsFor(settings.provider);
+      return { provider: defaults.provider, model: settings.model || defaults.model, baseUrl: settings.baseUrl || defaults.baseUrl };
+    }
+  } catch (error) {
+    console.error('Failed to read AI provider settings:', error);
+  }
+  return defaultSettingsFor('gemini');
+};
+
+export const saveLLMSettings = (settings: LLMSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({
+    provider: settings.provider,
+    model: settings.model.trim(),
+    baseUrl: settings.baseUrl.trim().replace(/\/+$/, ''),
+  }));
+};
+
+export const createLLMProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.model, settings.baseUrl);
+    case 'anthropic':
+      return new AnthropicProvider(settings.model, settings.baseUrl);
+    case 'ollama':
+      return new OllamaProvider(settings.model, settings.baseUrl);
+    default:
+      return new GeminiProvider(settings.model, settings.baseUrl);
+  }
+};
+
+// Settings are read on every call, so a change applies to the next request
+export const getLLMProvider = (): LLMProvider => createLLMProvider(getLLMSettings());
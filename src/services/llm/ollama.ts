@@ -0,0 +1,60 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import { estimateTokens, postJson, readLines } from './http';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.1';
+
+const toUsage = (data: any): LLMUsage => ({ promptTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 });
+
+// A local Ollama server. It must allow the app's origin (OLLAMA_ORIGINS).
+export class OllamaProvider implements LLMProvider {
+  readonly kind = 'ollama';
+  readonly label = 'Ollama';
+  readonly requiresApiKey = false;
+
+  constructor(readonly model: string, private readonly baseUrl: string) { }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/api/generate`, this.body(request, false), {}, request.signal);
+    const data = await response.json();
+    return { text: data.response || '', model: this.model, usage: toUsage(data) };
+  }
+
+  async stream(request: LLMRequest, onText: (chunk: string) => void): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/api/generate`, this.body(request, true), {}, request.signal);
+    let text = '';
+    let usage: LLMUsage | undefined;
+    // One JSON object per line; the last one has done: true and the counts
+    await readLines(response, line => {
+      if (!line.trim()) return;
+      const data = JSON.parse(line);
+      if (data.response) {
+        text += data.response;
+        onText(data.response);
+      }
+      if (data.done) {
+        usage = toUsage(data);
+      }
+    });
+    return { text, model: this.model, usage };
+  }
+
+  // Ollama exposes no tokenizer endpoint
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  private body(request: LLMRequest, stream: boolean) {
+    return {
+      model: this.model,
+      prompt: request.prompt,
+      stream,
+      // Ollama 0.5+ takes a JSON schema as the format
+      ...(request.schema ? { format: request.schema } : request.json ? { format: 'json' } : {}),
+      options: {
+        temperature: request.temperature ?? 0.7,
+        num_predict: request.maxOutputTokens ?? 8192,
+      },
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import { LLMBlockedError, LLMRequestError, estimateTokens, postJson, readServerSentEvents } from './http';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+const toUsage = (usage: any): LLMUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+
+// OpenAI itself and any gateway speaking its Chat Completions API
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind = 'openai';
+  readonly label = 'OpenAI-compatible';
+  readonly requiresApiKey = true;
+
+  constructor(readonly model: string, private readonly baseUrl: string) { }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/chat/completions`, this.body(request, false), this.headers(request), request.signal);
+    const data = await response.json();
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new LLMBlockedError('content_filter');
+    }
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new LLMRequestError('No text in response', 200, null, data);
+    }
+    return { text, model: data.model || this.model, usage: toUsage(data.usage) };
+  }
+
+  async stream(request: LLMRequest, onText: (chunk: string) => void): Promise<LLMResponse> {
+    const response = await postJson(`${this.baseUrl}/chat/completions`, this.body(request, true), this.headers(request), request.signal);
+    let text = '';
+    let usage: LLMUsage | undefined;
+    await readServerSentEvents(response, data => {
+      if (data.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new LLMBlockedError('content_filter');
+      }
+      const chunk = data.choices?.[0]?.delta?.content;
+      if (chunk) {
+        text += chunk;
+        onText(chunk);
+      }
+      // Sent in a final event without choices when include_usage is honoured
+      usage = toUsage(data.usage) || usage;
+    });
+    return { text, model: this.model, usage };
+  }
+
+  // The API has no tokenizer endpoint
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+
+  private headers(request: LLMRequest): Record<string, string> {
+    return request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {};
+  }
+
+  private body(request: LLMRequest, stream: boolean) {
+    return {
+      model: this.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxOutputTokens ?? 8192,
+      ...(request.schema
+        // Not strict: strict mode requires every property, including optional ones
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema, strict: false } } }
+        : request.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+}
@@ -0,0 +1,58 @@
+// Common shape of the language model backends explanations are generated with
+export type LLMProviderKind = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  model: string;
+  // API root; only OpenAI-compatible gateways and Ollama usually change it
+  baseUrl: string;
+}
+
+// The subset of JSON Schema the backends' structured-output modes share
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  apiKey: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask for a JSON-only answer where the backend supports it
+  json?: boolean;
+  // Constrains the JSON answer to this schema where the backend supports it
+  schema?: JsonSchema;
+  // Aborts the HTTP request, including a stream in progress
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Model that actually answered (Gemini may fall back to another one)
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly label: string;
+  readonly model: string;
+  // Ollama runs locally without a key
+  readonly requiresApiKey: boolean;
+
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // Calls onText with each piece of the answer as it arrives; resolves with the whole answer
+  stream(request: LLMRequest, onText: (chunk: string) => void): Promise<LLMResponse>;
+  countTokens(text: string, apiKey: string): Promise<number>;
+}
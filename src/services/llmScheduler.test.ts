@@ -0,0 +1,164 @@
+import { isAbortError } from './abort';
+import type { SchedulerLane, SchedulerSettings } from './llmScheduler';
+
+type Scheduler = typeof import('./llmScheduler')['llmScheduler'];
+
+// A fresh scheduler per test, with these settings stored as the user's
+const load = (settings: SchedulerSettings): Scheduler => {
+  localStorage.setItem('explainhub_scheduler_settings', JSON.stringify(settings));
+  let scheduler!: Scheduler;
+  jest.isolateModules(() => {
+    scheduler = require('./llmScheduler').llmScheduler;
+  });
+  return scheduler;
+};
+
+// Lets finished jobs free their slots and the scheduler start the next ones
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+// What a promise rejected with, or null if it resolved
+const rejection = (promise: Promise<unknown>) => promise.then(() => null, (error: unknown) => error);
+
+// A job that runs until the test finishes it
+const holdSlot = (scheduler: Scheduler, lane: SchedulerLane = 'interactive') => {
+  let release = () => {};
+  scheduler.schedule(() => new Promise<void>(resolve => { release = resolve; }), { lane });
+  return () => release();
+};
+
+describe('llmScheduler', () => {
+  let started: string[];
+  const job = (name: string) => () => {
+    started.push(name);
+    return Promise.resolve(name);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    started = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  test('starts waiting jobs by lane, then in order', async () => {
+    const scheduler = load({ rpm: 600, tpm: 0, concurrency: 1 });
+    const release = holdSlot(scheduler);
+
+    scheduler.schedule(job('batch'), { lane: 'batch' });
+    scheduler.schedule(job('prefetch 1'), { lane: 'prefetch' });
+    scheduler.schedule(job('interactive'), { lane: 'interactive' });
+    scheduler.schedule(job('prefetch 2'), { lane: 'prefetch' });
+    expect(scheduler.getState().queued).toEqual({ interactive: 1, prefetch: 2, batch: 1 });
+
+    release();
+    await flush();
+    expect(started).toEqual(['interactive', 'prefetch 1', 'prefetch 2', 'batch']);
+  });
+
+  test('sends a burst, then one request per refill of the RPM bucket', async () => {
+    // 60 RPM: bursts of 4, then one a second
+    const scheduler = load({ rpm: 60, tpm: 0, concurrency: 10 });
+    ['a', 'b', 'c', 'd', 'e', 'f'].forEach(name => scheduler.schedule(job(name)));
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+
+    await flush();
+    jest.advanceTimersByTime(999);
+    expect(started).toHaveLength(4);
+    jest.advanceTimersByTime(1);
+    expect(started).toEqual(['a', 'b', 'c', 'd', 'e']);
+
+    await flush();
+    jest.advanceTimersByTime(1000);
+    expect(started).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  });
+
+  test('holds a job until the TPM bucket covers its estimate', async () => {
+    const scheduler = load({ rpm: 600, tpm: 1200, concurrency: 10 });
+    scheduler.schedule(job('large'), { estimatedTokens: 1000 });
+    scheduler.schedule(job('small'), { estimatedTokens: 500 });
+    expect(started).toEqual(['large']);
+
+    // 300 more tokens at 1200 a minute
+    await flush();
+    jest.advanceTimersByTime(14999);
+    expect(started).toEqual(['large']);
+    jest.advanceTimersByTime(1);
+    expect(started).toEqual(['large', 'small']);
+  });
+
+  test('pauses for Retry-After after a 429 and halves the pace until calls succeed', async () => {
+    const scheduler = load({ rpm: 600, tpm: 0, concurrency: 10 });
+    scheduler.reportRateLimited(30);
+    expect(scheduler.getState()).toMatchObject({ pausedUntil: Date.now() + 30000, pace: 0.5 });
+
+    scheduler.schedule(job('after pause'));
+    jest.advanceTimersByTime(29999);
+    expect(started).toEqual([]);
+    jest.advanceTimersByTime(1);
+    expect(started).toEqual(['after pause']);
+
+    scheduler.reportSuccess();
+    expect(scheduler.getState().pace).toBeCloseTo(0.6);
+  });
+
+  test('drops a queued job whose signal aborts', async () => {
+    const scheduler = load({ rpm: 600, tpm: 0, concurrency: 1 });
+    const release = holdSlot(scheduler);
+    const controller = new AbortController();
+    const onQueue = jest.fn();
+    const result = scheduler.schedule(job('aborted'), { signal: controller.signal, onQueue });
+    expect(onQueue).toHaveBeenLastCalledWith(1);
+
+    controller.abort();
+    expect(isAbortError(await rejection(result))).toBe(true);
+    expect(onQueue).toHaveBeenLastCalledWith(null);
+    expect(scheduler.getState().queued.interactive).toBe(0);
+
+    release();
+    await flush();
+    expect(started).toEqual([]);
+  });
+
+  test('rejects a job whose signal already aborted instead of throwing', async () => {
+    const scheduler = load({ rpm: 600, tpm: 0, concurrency: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    let result!: Promise<string>;
+    expect(() => {
+      result = scheduler.schedule(job('aborted'), { signal: controller.signal });
+    }).not.toThrow();
+    expect(isAbortError(await rejection(result))).toBe(true);
+    expect(started).toEqual([]);
+  });
+
+  test('reports a queue position only when it changes', async () => {
+    const scheduler = load({ rpm: 600, tpm: 0, concurrency: 1 });
+    const release = holdSlot(scheduler);
+    const first = jest.fn();
+    const bulk = jest.fn();
+    const second = jest.fn();
+
+    scheduler.schedule(job('first'), { onQueue: first });
+    scheduler.schedule(job('bulk'), { lane: 'batch', onQueue: bulk });
+    // Goes ahead of the bulk job, moving it back a place
+    scheduler.schedule(job('second'), { onQueue: second });
+    scheduler.configure(scheduler.getSettings());
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second.mock.calls).toEqual([[2]]);
+    expect(bulk.mock.calls).toEqual([[2], [3]]);
+
+    release();
+    await flush();
+    expect(first.mock.calls).toEqual([[1], [null]]);
+    expect(second.mock.calls).toEqual([[2], [1], [null]]);
+    expect(bulk.mock.calls).toEqual([[2], [3], [2], [1], [null]]);
+  });
+});
@@ -0,0 +1,288 @@
+// Paces LLM calls to the provider's limits: token buckets for requests and
+// tokens per minute, a cap on calls in flight, and priority lanes so a click
+// to explain a file goes ahead of queued background work. A 429 pauses
+// dispatch for its Retry-After and slows the pace until calls succeed again.
+import { abortError } from './abort';
+
+// Highest priority first: what the user just asked for, then work started
+// for what is on screen, then bulk jobs (diagrams, function summaries)
+export type SchedulerLane = 'interactive' | 'prefetch' | 'batch';
+
+const LANES: SchedulerLane[] = ['interactive', 'prefetch', 'batch'];
+
+export interface SchedulerSettings {
+  // Requests per minute
+  rpm: number;
+  // Prompt and answer tokens per minute; 0 for no limit
+  tpm: number;
+  // Calls in flight at once
+  concurrency: number;
+}
+
+export interface SchedulerState {
+  running: number;
+  queued: Record<SchedulerLane, number>;
+  // Set after a 429: nothing is sent before this time (ms since epoch)
+  pausedUntil: number;
+  // Share of the configured rate in use; below 1 after 429s
+  pace: number;
+}
+
+export interface ScheduleOptions {
+  lane?: SchedulerLane;
+  signal?: AbortSignal;
+  // Prompt plus expected answer, counted against the TPM limit
+  estimatedTokens?: number;
+  // 1 for the next job to run; null once the job runs or leaves the queue
+  onQueue?: (position: number | null) => void;
+}
+
+type SchedulerListener = (state: SchedulerState) => void;
+
+interface QueuedJob {
+  lane: SchedulerLane;
+  estimatedTokens: number;
+  onQueue?: (position: number | null) => void;
+  position: number | null;
+  start: () => void;
+}
+
+const SETTINGS_STORAGE_KEY = 'explainhub_scheduler_settings';
+
+// Gemini's free tier: 15 requests a minute
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  rpm: 15,
+  tpm: 0,
+  concurrency: 2,
+};
+
+// Bursts of up to this share of a minute's requests go out at once
+const BURST_FRACTION = 1 / 15;
+// Each 429 halves the pace, down to this; each success wins back a step
+const MIN_PACE = 0.1;
+const PACE_RECOVERY = 0.1;
+// Pause after a 429 that didn't say how long to wait
+const DEFAULT_BACKOFF_MS = 10000;
+
+const positiveInt = (value: unknown, fallback: number, min: number): number =>
+  typeof value === 'number' && isFinite(value) && value >= min ? Math.floor(value) : fallback;
+
+export const getSchedulerSettings = (): SchedulerSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      const settings: Partial<SchedulerSettings> = JSON.parse(stored);
+      return {
+        rpm: positiveInt(settings.rpm, DEFAULT_SCHEDULER_SETTINGS.rpm, 1),
+        tpm: positiveInt(settings.tpm, DEFAULT_SCHEDULER_SETTINGS.tpm, 0),
+        concurrency: positiveInt(settings.concurrency, DEFAULT_SCHEDULER_SETTINGS.concurrency, 1),
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read request pacing settings:', error);
+  }
+  return DEFAULT_SCHEDULER_SETTINGS;
+};
+
+export const saveSchedulerSettings = (settings: SchedulerSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+class LLMScheduler {
+  private settings = getSchedulerSettings();
+  private queues: Record<SchedulerLane, QueuedJob[]> = { interactive: [], prefetch: [], batch: [] };
+  private running = 0;
+  // Bucket levels, refilled at the configured rate times `pace`
+  private requestBudget = this.requestCapacity();
+  private tokenBudget = this.settings.tpm;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private pace = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<SchedulerListener>();
+
+  getSettings(): SchedulerSettings {
+    return this.settings;
+  }
+
+  configure(settings: SchedulerSettings) {
+    this.refill();
+    this.settings = settings;
+    this.requestBudget = Math.min(this.requestBudget, this.requestCapacity());
+    this.tokenBudget = Math.min(this.tokenBudget, settings.tpm);
+    this.dispatch();
+  }
+
+  getState(): SchedulerState {
+    return {
+      running: this.running,
+      queued: { interactive: this.queues.interactive.length, prefetch: this.queues.prefetch.length, batch: this.queues.batch.length },
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : 0,
+      pace: this.pace,
+    };
+  }
+
+  subscribe(listener: SchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A job whose signal aborts while queued is dropped without taking a slot.
+  // Either way the caller's promise rejects right away with an AbortError
+  // (never a synchronous throw, so `.catch` sees an already-aborted signal);
+  // a running job keeps its slot until it notices the signal itself.
+  schedule<T>(fn: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { lane = 'interactive', signal, estimatedTokens = 0, onQueue } = options;
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let queued = true;
+      const onAbort = () => {
+        if (queued) {
+          queued = false;
+          this.queues[lane] = this.queues[lane].filter(other => other !== job);
+          onQueue?.(null);
+          this.dispatch();
+        }
+        reject(abortError());
+      };
+
+      const job: QueuedJob = {
+        lane,
+        estimatedTokens,
+        onQueue,
+        position: null,
+        start: () => {
+          queued = false;
+          this.running++;
+          onQueue?.(null);
+          fn()
+            .then(resolve, reject)
+            .finally(() => {
+              signal?.removeEventListener('abort', onAbort);
+              this.running--;
+              this.dispatch();
+            });
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queues[lane].push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Corrects the TPM bucket once a call's real usage is known; the estimate
+   * was taken out when it started.
+   */
+  settleTokens(estimated: number, actual: number) {
+    if (this.settings.tpm > 0) {
+      this.refill();
+      this.tokenBudget = Math.min(this.settings.tpm, this.tokenBudget + estimated - actual);
+    }
+  }
+
+  // The provider answered 429: stop sending for Retry-After seconds (or a
+  // default pause) and halve the pace
+  reportRateLimited(retryAfterSeconds: number | null) {
+    this.refill();
+    const pause = retryAfterSeconds !== null ? retryAfterSeconds * 1000 : DEFAULT_BACKOFF_MS;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pause);
+    this.pace = Math.max(MIN_PACE, this.pace / 2);
+    // No burst when sending resumes
+    this.requestBudget = Math.min(this.requestBudget, 0);
+    console.warn(`⏳ Rate limited: pausing ${Math.round(pause / 1000)}s, then sending at ${Math.round(this.pace * 100)}% of the configured rate`);
+    this.dispatch();
+  }
+
+  reportSuccess() {
+    if (this.pace < 1) {
+      this.refill();
+      this.pace = Math.min(1, this.pace + PACE_RECOVERY);
+      this.notify();
+    }
+  }
+
+  private requestCapacity(): number {
+    return Math.max(1, Math.floor(this.settings.rpm * BURST_FRACTION));
+  }
+
+  private refill() {
+    const now = Date.now();
+    const minutes = (now - this.lastRefill) / 60000;
+    this.lastRefill = now;
+    this.requestBudget = Math.min(this.requestCapacity(), this.requestBudget + minutes * this.settings.rpm * this.pace);
+    if (this.settings.tpm > 0) {
+      this.tokenBudget = Math.min(this.settings.tpm, this.tokenBudget + minutes * this.settings.tpm * this.pace);
+    }
+  }
+
+  // Starts queued jobs, highest lane first, while slots and budget allow;
+  // otherwise sets a timer for when the next one can go
+  private dispatch() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.refill();
+
+    let wait = 0;
+    while (this.running < this.settings.concurrency) {
+      const lane = LANES.find(name => this.queues[name].length > 0);
+      if (!lane) break;
+      const job = this.queues[lane][0];
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        wait = this.pausedUntil - now;
+        break;
+      }
+      if (this.requestBudget < 1) {
+        wait = (1 - this.requestBudget) / (this.settings.rpm * this.pace) * 60000;
+        break;
+      }
+      // A job bigger than the whole bucket waits for a full one and overdraws it
+      const tokens = Math.min(job.estimatedTokens, this.settings.tpm);
+      if (this.settings.tpm > 0 && this.tokenBudget < tokens) {
+        wait = (tokens - this.tokenBudget) / (this.settings.tpm * this.pace) * 60000;
+        break;
+      }
+
+      this.requestBudget -= 1;
+      if (this.settings.tpm > 0) {
+        this.tokenBudget -= job.estimatedTokens;
+      }
+      this.queues[lane].shift();
+      job.start();
+    }
+
+    if (wait > 0) {
+      this.timer = setTimeout(() => this.dispatch(), Math.ceil(wait));
+    }
+    this.reportPositions();
+    this.notify();
+  }
+
+  private reportPositions() {
+    let position = 0;
+    LANES.forEach(lane => this.queues[lane].forEach(job => {
+      position++;
+      if (job.position !== position) {
+        job.position = position;
+        job.onQueue?.(position);
+      }
+    }));
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const llmScheduler = new LLMScheduler();
@@ -0,0 +1,130 @@
+import JSZip from 'jszip';
+import { LocalFileEntry, LocalProvider } from './providers/local';
+
+// Directories that are never useful to explain and can hold thousands of files
+const IGNORED_DIRS = ['.git', 'node_modules'];
+
+const isIgnored = (path: string): boolean =>
+  path.split('/').some(segment => IGNORED_DIRS.includes(segment));
+
+const fileEntry = (file: File): LocalFileEntry => ({
+  size: file.size,
+  lastModified: file.lastModified,
+  read: () => file.text(),
+  readBlob: async () => file,
+});
+
+// Drops a folder name shared by every path (the selected folder itself, or
+// the single top-level directory most zip archives are packed with)
+const stripCommonRoot = (paths: string[]): { root: string | null; strip: (path: string) => string } => {
+  const firstSegments = new Set(paths.map(p => p.split('/')[0]));
+  const root = firstSegments.size === 1 && paths.every(p => p.includes('/'))
+    ? Array.from(firstSegments)[0]
+    : null;
+
+  return {
+    root,
+    strip: (path: string) => (root ? path.substring(root.length + 1) : path),
+  };
+};
+
+const buildProvider = (fallbackName: string, raw: Record<string, LocalFileEntry>): LocalProvider => {
+  const paths = Object.keys(raw).filter(path => !isIgnored(path));
+  if (paths.length === 0) {
+    throw new Error('No files found. Choose a folder or a .zip archive that contains source code.');
+  }
+
+  const { root, strip } = stripCommonRoot(paths);
+  const files: Record<string, LocalFileEntry> = {};
+  paths.forEach(path => {
+    files[strip(path)] = raw[path];
+  });
+
+  return new LocalProvider(root || fallbackName, files);
+};
+
+// Files picked through <input type="file" webkitdirectory>
+export const createProviderFromFileList = (fileList: FileList): LocalProvider => {
+  const raw: Record<string, LocalFileEntry> = {};
+  Array.from(fileList).forEach(file => {
+    raw[file.webkitRelativePath || file.name] = fileEntry(file);
+  });
+  return buildProvider('local-folder', raw);
+};
+
+export const createProviderFromZip = async (zipFile: File): Promise<LocalProvider> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipFile);
+  } catch (err) {
+    throw new Error(`Could not read "${zipFile.name}" as a zip archive.`);
+  }
+
+  const raw: Record<string, LocalFileEntry> = {};
+  zip.forEach((path, entry) => {
+    if (entry.dir) return;
+    // JSZip doesn't expose the uncompressed size, so it is left unknown rather
+    // than guessed: a zero would let oversized files past the size checks
+    raw[path] = {
+      lastModified: entry.date.getTime(),
+      read: () => entry.async('string'),
+      readBlob: () => entry.async('blob'),
+    };
+  });
+
+  return buildProvider(zipFile.name.replace(/\.zip$/i, ''), raw);
+};
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntries = async (entry: FileSystemEntry, raw: Record<string, LocalFileEntry>) => {
+  // fullPath starts with a slash
+  const path = entry.fullPath.replace(/^\//, '');
+  if (isIgnored(path)) return;
+
+  if (entry.isFile) {
+    raw[path] = fileEntry(await entryToFile(entry as FileSystemFileEntry));
+    return;
+  }
+
+  // readEntries returns results in batches until it yields an empty list
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  let batch = await readEntries(reader);
+  while (batch.length > 0) {
+    for (const child of batch) {
+      await collectEntries(child, raw);
+    }
+    batch = await readEntries(reader);
+  }
+};
+
+// A folder or a single .zip dropped onto the landing page
+export const createProviderFromDrop = async (dataTransfer: DataTransfer): Promise<LocalProvider> => {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const droppedFiles = Array.from(dataTransfer.files);
+
+  if (droppedFiles.length === 1 && /\.zip$/i.test(droppedFiles[0].name)) {
+    return createProviderFromZip(droppedFiles[0]);
+  }
+
+  // Entries must be taken synchronously, before the drop event is over
+  const entries = items
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    throw new Error('Your browser did not provide the dropped folder. Use "Choose folder" instead.');
+  }
+
+  const raw: Record<string, LocalFileEntry> = {};
+  for (const entry of entries) {
+    await collectEntries(entry, raw);
+  }
+
+  const name = entries.length === 1 && entries[0].isDirectory ? entries[0].name : 'local-files';
+  return buildProvider(name, raw);
+};
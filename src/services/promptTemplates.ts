@@ -0,0 +1,753 @@
+// Prompt templates with named {variables}. The built-in text can be overridden
+// per template in the settings, and file extensions map to the instruction
+// template that says what a file explanation should cover.
+import { fnv1a } from './hash';
+
+export type InstructionTemplateId =
+  | 'instructions_code'
+  | 'instructions_data'
+  | 'instructions_docs'
+  | 'instructions_config'
+  | 'instructions_styles'
+  | 'instructions_build'
+  | 'instructions_default';
+
+export type PromptTemplateId =
+  | 'repo_overview'
+  | 'directory'
+  | 'file'
+  | 'file_section'
+  | 'file_from_sections'
+  | 'metadata'
+  | 'question'
+  | 'thread_summary'
+  | 'repo_question'
+  | 'pr_review'
+  | 'pr_narrative'
+  | 'file_history'
+  | 'architecture'
+  | 'architecture_repair'
+  | 'batch_functions'
+  | InstructionTemplateId;
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  // Variable name → what it holds
+  variables: Record<string, string>;
+  text: string;
+}
+
+const TEMPLATES_STORAGE_KEY = 'explainhub_prompt_templates';
+const EXTENSIONS_STORAGE_KEY = 'explainhub_extension_templates';
+const EXPORT_VERSION = 1;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'repo_overview',
+    label: 'Repository overview',
+    description: 'Explains the whole repository before a file is picked.',
+    variables: {
+      repoName: 'owner/name of the repository',
+      structure: 'Top-level outline of the tree, as JSON',
+      readme: 'README content, or "No README found"',
+    },
+    text: `You are a senior developer explaining a GitHub repository to a teammate. Provide a high-level explanation of the repository "{repoName}" and its structure. Based on the repository structure and README content below, explain:
+
+1. What this project is and what problem it solves
+2. The high-level architecture and organization
+3. Key directories and their purposes
+4. Any important configuration files
+5. Main entry points
+6. Technology stack used
+
+Be conversational like a coworker. Explain the 'why' not just the 'what'. Point out interesting patterns. Structure your response to be clear and informative.
+
+REPOSITORY STRUCTURE:
+{structure}
+
+README CONTENT:
+{readme}`,
+  },
+  {
+    id: 'directory',
+    label: 'Directory',
+    description: 'Explains a directory from the names of its entries.',
+    variables: {
+      dirPath: 'Path of the directory',
+      packageContext: 'Monorepo package notes with a heading, or empty',
+      contents: 'One "- name (type)" line per entry',
+    },
+    text: `Explain the "{dirPath}" directory:
+
+{packageContext}Contents:
+{contents}
+
+Provide:
+1. Purpose of this directory (1-2 sentences)
+2. Key items and their roles
+3. How it fits in the project
+
+Be concise.`,
+  },
+  {
+    id: 'file',
+    label: 'File',
+    description: 'Explains a file sent in full.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      lineCount: 'Number of lines',
+      charCount: 'Number of characters',
+      packageContext: 'Monorepo package notes with a heading, or empty',
+      content: 'The file content',
+      instructions: 'The instruction template mapped to the file extension',
+    },
+    text: `You are analyzing the file "{filePath}" from the {repoName} repository.
+
+FILE STATISTICS:
+- Lines: {lineCount}
+- Characters: {charCount}
+- Status: Complete file content provided
+{packageContext}
+
+FILE CONTENT:
+\`\`\`
+{content}
+\`\`\`
+
+IMPORTANT INSTRUCTIONS:
+- You have the complete file content above
+- DO NOT mention "incomplete context", "limited context", or "need more information"
+- Analyze and explain based on what IS provided
+- Be thorough and detailed in your explanation
+- Focus on what the code DOES and WHY it matters
+
+{instructions}`,
+  },
+  {
+    id: 'file_section',
+    label: 'Long file: section notes',
+    description: 'Summarizes one section of a file too long to send at once.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      start: 'First line of the section',
+      end: 'Last line of the section',
+      section: 'Number of the section',
+      sectionCount: 'Number of sections',
+      content: 'The section content',
+    },
+    text: `You are reading lines {start}-{end} of the file "{filePath}" from the {repoName} repository (section {section} of {sectionCount}).
+
+SECTION CONTENT:
+\`\`\`
+{content}
+\`\`\`
+
+Write compact notes on this section for an explanation of the whole file that will be written later:
+- Every function, class, type or constant it defines (exact names) and what each does
+- Important logic, state and side effects
+- What it imports or calls from elsewhere
+
+Use a short bullet list. No introduction or conclusion.`,
+  },
+  {
+    id: 'file_from_sections',
+    label: 'Long file: explanation',
+    description: 'Explains a long file from the notes on its sections.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      lineCount: 'Number of lines',
+      charCount: 'Number of characters',
+      sectionCount: 'Number of sections',
+      packageContext: 'Monorepo package notes with a heading, or empty',
+      notes: 'The section notes, in file order',
+      instructions: 'The instruction template mapped to the file extension',
+    },
+    text: `You are analyzing the file "{filePath}" from the {repoName} repository.
+
+FILE STATISTICS:
+- Lines: {lineCount}
+- Characters: {charCount}
+- Status: Too long to read at once; it was read in {sectionCount} sections, summarized below in file order
+{packageContext}
+
+SECTION NOTES:
+{notes}
+
+IMPORTANT INSTRUCTIONS:
+- The notes cover the whole file; explain the file as a whole, not section by section
+- DO NOT mention "incomplete context", "limited context", or "need more information"
+- Refer to line ranges where it helps the reader find something
+- Focus on what the code DOES and WHY it matters
+
+{instructions}`,
+  },
+  {
+    id: 'metadata',
+    label: 'File without content',
+    description: 'Describes an image, binary, LFS or oversized file from its metadata.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      kind: 'What kind of file it is, e.g. "an image"',
+      size: 'Formatted size, or "unknown"',
+      lfs: 'The LFS object line, or empty',
+      siblings: 'Files in the same directory',
+    },
+    text: `You are describing the file "{filePath}" from the {repoName} repository. Its content is not available: it is {kind}.
+
+KNOWN METADATA:
+- Size: {size}
+{lfs}- Files in the same directory: {siblings}
+
+From the name, location, size and neighbouring files only, explain:
+
+1. **Likely Content**: What the file most probably contains
+2. **Role in the Project**: What uses or produces it
+3. **Handling Notes**: Anything developers should know (generated artifact, asset pipeline, LFS setup, safe to edit or not)
+
+Say clearly that this is inferred from metadata. Be concise.`,
+  },
+  {
+    id: 'question',
+    label: 'Question about a file',
+    description: 'Answers a question asked in the file view.',
+    variables: {
+      question: 'The question',
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      contentLabel: '"COMPLETE FILE CONTENT", or the line ranges of the sections sent',
+      content: 'The file content, or the sections matching the question',
+      lineNote: '", with their line numbers" when only sections are sent, otherwise empty',
+      history: 'Earlier messages of the conversation about this file (summarized once long), or empty for a first question',
+    },
+    text: `You are answering a question about the file "{filePath}" from the {repoName} repository.
+{history}
+USER QUESTION: "{question}"
+
+{contentLabel}:
+\`\`\`
+{content}
+\`\`\`
+
+INSTRUCTIONS:
+- Answer the question directly and thoroughly based on the code provided
+- DO NOT mention "incomplete context" or "need more information" - work with what's provided
+- Reference specific code sections when relevant{lineNote}
+- Be detailed and helpful
+- If the answer requires context from the visible code, explain it fully
+
+Provide a clear, comprehensive answer:`,
+  },
+  {
+    id: 'thread_summary',
+    label: 'Conversation summary',
+    description: 'Condenses the older turns of a long conversation about a file so follow-ups stay within the prompt size.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      summary: 'The summary made earlier in the conversation, or empty',
+      transcript: 'The messages to fold into the summary',
+    },
+    text: `Summarize a conversation about the file "{filePath}" from the {repoName} repository, so it can be continued without the full transcript.
+{summary}
+MESSAGES:
+{transcript}
+
+Keep the questions asked, the facts and conclusions the answers established (with the names and line numbers they referred to), and anything left open. Leave out pleasantries and repetition. Write at most 250 words of plain notes:`,
+  },
+  {
+    id: 'repo_question',
+    label: 'Question about the repository',
+    description: 'Answers a question about the whole repository from the indexed code that matches it best.',
+    variables: {
+      question: 'The question',
+      repoName: 'owner/name of the repository',
+      fileCount: 'Number of files that were searched',
+      excerpts: 'The matching code excerpts, each headed by its path and line range',
+    },
+    text: `You are answering a question about the {repoName} repository. A search over {fileCount} of its files found the code excerpts below.
+
+USER QUESTION: "{question}"
+
+CODE EXCERPTS:
+{excerpts}
+
+INSTRUCTIONS:
+- Answer from the excerpts; say so plainly if they don't contain the answer, and suggest where to look
+- Cite the code each point rests on as \`path:start-end\` in backticks, exactly as in the excerpt headers (e.g. \`src/auth/session.ts:12-40\`), narrowing the range when only part of an excerpt matters
+- Explain how the pieces in different files fit together
+- Be concise and specific
+
+Answer:`,
+  },
+  {
+    id: 'pr_review',
+    label: 'Pull request file review',
+    description: 'Summarizes the change to one file of a pull request and assesses its risk.',
+    variables: {
+      number: 'Pull request number',
+      title: 'Pull request title',
+      repoName: 'owner/name of the repository',
+      filePath: 'Path of the file',
+      renamedFrom: '" (renamed from old/path)", or empty',
+      status: 'added, modified, removed or renamed',
+      additions: 'Lines added',
+      deletions: 'Lines deleted',
+      diff: 'The diff of the file',
+    },
+    text: `You are a senior developer reviewing pull request #{number} "{title}" in the {repoName} repository.
+
+FILE: {filePath}{renamedFrom}
+STATUS: {status} (+{additions} / -{deletions})
+
+DIFF:
+\`\`\`diff
+{diff}
+\`\`\`
+
+Respond in markdown with exactly these sections:
+
+## Change Summary
+What changed in this file and why it likely changed, in plain language (3-6 bullet points). Refer to functions and lines by name.
+
+## Risk Assessment
+Start with one line "**Risk: Low**", "**Risk: Medium**" or "**Risk: High**". Then list concrete risks: behavior changes, missing error handling, edge cases, security concerns, breaking API changes, missing tests. Say "No notable risks" if there are none.
+
+Be specific and concise. Do not restate the diff line by line.`,
+  },
+  {
+    id: 'pr_narrative',
+    label: 'Pull request overview',
+    description: 'Tells the story of a whole pull request.',
+    variables: {
+      number: 'Pull request number',
+      repoName: 'owner/name of the repository',
+      title: 'Pull request title',
+      author: 'Pull request author',
+      headRef: 'Source branch',
+      baseRef: 'Target branch',
+      fileCount: 'Number of files changed',
+      description: 'Pull request description',
+      changes: 'Per-file review notes or diffs',
+    },
+    text: `You are a senior developer explaining pull request #{number} in the {repoName} repository to a teammate who has to review it.
+
+TITLE: {title}
+AUTHOR: {author}
+BRANCHES: {headRef} → {baseRef}
+FILES CHANGED: {fileCount}
+
+DESCRIPTION:
+{description}
+
+CHANGES:
+{changes}
+
+Respond in markdown with these sections:
+
+## What This PR Does
+The story of the change: the problem it addresses and the approach taken (one or two paragraphs).
+
+## How the Changes Fit Together
+Walk through the files in the order a reviewer should read them and explain how they connect.
+
+## Overall Risk
+Start with one line "**Risk: Low**", "**Risk: Medium**" or "**Risk: High**", then the main things a reviewer should double-check.
+
+Be conversational like a coworker and explain the 'why', not just the 'what'.`,
+  },
+  {
+    id: 'file_history',
+    label: 'File history',
+    description: 'Summarizes how a file evolved from its commits.',
+    variables: {
+      filePath: 'Path of the file',
+      repoName: 'owner/name of the repository',
+      commitCount: 'Number of commits that touched the file',
+      timeline: 'One line per commit, oldest first',
+      diffs: 'Diffs of a few key commits',
+    },
+    text: `You are a senior developer explaining the history of the file "{filePath}" in the {repoName} repository to a teammate.
+
+COMMITS THAT TOUCHED THIS FILE ({commitCount}, oldest first):
+{timeline}
+
+KEY DIFFS:
+{diffs}
+
+Respond in markdown with these sections:
+
+## Origin
+Why the file was introduced and what it first did.
+
+## Major Changes
+The rewrites, refactors and feature additions that shaped it, with dates and commit SHAs.
+
+## Recent Churn
+How actively it changes now, who touches it, and what the latest changes were about. Point out if it looks stable, hot or abandoned.
+
+Base the story on the commit messages and diffs. Be concise and conversational.`,
+  },
+  {
+    id: 'architecture',
+    label: 'Architecture',
+    description: 'Extracts the components and relationships drawn in the architecture diagram. The answer must stay JSON in this shape.',
+    variables: {
+      repoName: 'owner/name of the repository',
+      fileCount: 'Approximate number of files',
+      analysis: 'Imports, hooks and API calls found by static analysis',
+      packages: 'Monorepo packages with a heading, or empty',
+      componentTypes: 'Allowed component types, separated by |',
+      componentLayers: 'Allowed layers, separated by |',
+      relationshipTypes: 'Allowed relationship types, separated by |',
+    },
+    text: `You are a Senior Software Architect. Analyze the codebase structure and static analysis data to generate a structured architecture definition.
+
+CONTEXT:
+- Repository: {repoName}
+- Files: ~{fileCount}
+- Static Analysis Data (Imports, Hooks, API Calls):
+{analysis}
+{packages}
+INSTRUCTIONS:
+1. **Identify High-Level Modules**: specific functional blocks (e.g., "Auth Service", "User Context", "Payment Controller") that EXIST in the code.
+2. **Abstract UI Components**: Do NOT list individual UI atoms like "Button", "Input", "Header". Group them into a single "Presentation Layer" or "UI Components" node.
+3. **Determine Layers**: logical layers (e.g., "Presentation", "State Management", "Services", "Data", "External").
+4. **Map Relationships**: usage and dependencies based on the imports and calls provided.
+5. **Strict Grounding**: DO NOT INVENT COMPONENTS. Every component must correspond to a real file or directory visible in the "FILE STRUCTURE" or "Static Analysis Data". If it's not in the code, do not include it.
+6. **Strict JSON**: Return only valid JSON adhering to the schema.
+
+OUTPUT SCHEMA:
+{
+  "components": [
+    {
+      "id": "unique_snake_case_id",
+      "name": "Human Readable Name",
+      "type": "{componentTypes}",
+      "layer": "{componentLayers}",
+      "responsibilities": ["list", "of", "responsibilities"]
+    }
+  ],
+  "relationships": [
+    {
+      "from": "component_id_a",
+      "to": "component_id_b",
+      "type": "{relationshipTypes}",
+      "description": "context of relationship"
+    }
+  ],
+  "layers": ["presentation", "services", "data"]
+}
+
+Constraints:
+- Generate comprehensive high-level architecture.
+- **Max 20 components**. Focus on the most important modules.
+- Ensure all IDs in relationships exist in components.
+- **NO HALLUCINATIONS**: Do not add databases, caches, or services unless you see code for them (e.g., a Redis client file).
+- Response must be pure JSON.
+`,
+  },
+  {
+    id: 'architecture_repair',
+    label: 'Architecture: repair',
+    description: 'Sent once when the architecture answer fails validation, with the problems found.',
+    variables: {
+      prompt: 'The architecture prompt as it was sent',
+      answer: 'The answer that failed validation',
+      problems: 'One "- problem" line per validation error',
+    },
+    text: `{prompt}
+
+Your previous answer was:
+{answer}
+
+It has these problems:
+{problems}
+
+Return the corrected JSON only.`,
+  },
+  {
+    id: 'batch_functions',
+    label: 'Function summaries',
+    description: 'Explains the functions of a file in one call. Answers are read back by their FUNCTION_n labels, so keep the response format.',
+    variables: {
+      functions: 'One "FUNCTION_n: name" heading per function, followed by its code',
+    },
+    text: `Explain each function below in 1-2 sentences. Be specific about what each does.
+
+{functions}
+
+Respond in this exact format:
+FUNCTION_1: [explanation]
+FUNCTION_2: [explanation]
+...`,
+  },
+  {
+    id: 'instructions_code',
+    label: 'Instructions: source code',
+    description: 'What a file explanation covers for source files.',
+    variables: {},
+    text: `Provide a comprehensive explanation covering:
+
+1. **Purpose & Overview**: What this file does and its role in the project (2-3 sentences)
+2. **Key Components**: Main functions, classes, or components with their purposes
+3. **Implementation Details**: Important patterns, algorithms, or logic flows
+4. **Dependencies**: Key imports and how they're used
+5. **Notable Features**: Any interesting patterns, optimizations, or important details
+
+Be thorough and detailed. Explain the logic and reasoning behind the code.`,
+  },
+  {
+    id: 'instructions_data',
+    label: 'Instructions: JSON',
+    description: 'What a file explanation covers for JSON files.',
+    variables: {},
+    text: `Provide a detailed explanation covering:
+
+1. **Configuration Purpose**: What this configuration controls (2-3 sentences)
+2. **Key Settings**: Important configuration values and their meanings
+3. **Impact**: How these settings affect the project
+4. **Notable Entries**: Any particularly important or interesting configurations
+
+Be thorough and explain the significance of the configuration.`,
+  },
+  {
+    id: 'instructions_docs',
+    label: 'Instructions: documentation',
+    description: 'What a file explanation covers for Markdown and other prose.',
+    variables: {},
+    text: `Provide a comprehensive summary covering:
+
+1. **Document Purpose**: What this document covers (2-3 sentences)
+2. **Main Sections**: Overview of the major sections and topics
+3. **Key Information**: Important details, instructions, or guidelines
+4. **Highlights**: Notable points that developers should know
+
+Be thorough and informative.`,
+  },
+  {
+    id: 'instructions_config',
+    label: 'Instructions: configuration',
+    description: 'What a file explanation covers for YAML, TOML, XML and similar files.',
+    variables: {},
+    text: `Provide a detailed explanation covering:
+
+1. **Configuration Purpose**: What this configuration file controls (2-3 sentences)
+2. **Key Settings**: Important configuration values and their effects
+3. **Structure**: How the configuration is organized
+4. **Impact**: How these settings affect the project
+
+Be thorough and explain the configuration's significance.`,
+  },
+  {
+    id: 'instructions_styles',
+    label: 'Instructions: stylesheets',
+    description: 'What a file explanation covers for CSS and its preprocessors.',
+    variables: {},
+    text: `Provide a detailed explanation covering:
+
+1. **Purpose**: Which parts of the interface these styles apply to (2-3 sentences)
+2. **Structure**: How the rules are organized (components, utilities, themes, media queries)
+3. **Key Rules**: Variables, mixins, layout techniques and any notable selectors
+4. **Impact**: What would change visually if this file were edited or removed
+
+Be thorough and explain the design decisions behind the styles.`,
+  },
+  {
+    id: 'instructions_build',
+    label: 'Instructions: scripts and build files',
+    description: 'What a file explanation covers for shell scripts, Dockerfiles and Makefiles.',
+    variables: {},
+    text: `Provide a detailed explanation covering:
+
+1. **Purpose**: What this script or build file automates and when it runs (2-3 sentences)
+2. **Steps**: What it does, in order
+3. **Inputs & Environment**: Arguments, environment variables, base images or tools it relies on
+4. **Side Effects**: Files, images or deployments it produces, and anything destructive
+
+Be thorough and point out anything that could fail or surprise someone running it.`,
+  },
+  {
+    id: 'instructions_default',
+    label: 'Instructions: other files',
+    description: 'What a file explanation covers when no mapping matches the extension.',
+    variables: {},
+    text: `Provide a comprehensive explanation covering:
+
+1. **Purpose**: What this file does and why it exists (2-3 sentences)
+2. **Content Analysis**: Key elements and their purposes
+3. **Structure**: How the file is organized
+4. **Important Details**: Notable aspects developers should understand
+
+Be thorough and detailed in your explanation.`,
+  },
+];
+
+export const INSTRUCTION_TEMPLATE_IDS = PROMPT_TEMPLATES
+  .map(template => template.id)
+  .filter((id): id is InstructionTemplateId => id.startsWith('instructions_'));
+
+// Extension (or, for files like Dockerfile, the lowercased name) → instructions
+export const DEFAULT_EXTENSION_TEMPLATES: Record<string, InstructionTemplateId> = {
+  ...Object.fromEntries([
+    'py', 'pyw', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'vue', 'svelte', 'go', 'rs', 'java', 'kt', 'kts', 'scala',
+    'rb', 'php', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'swift', 'm', 'dart', 'ex', 'exs', 'erl', 'hs', 'clj', 'lua', 'r', 'sql',
+  ].map(ext => [ext, 'instructions_code' as const])),
+  json: 'instructions_data',
+  ...Object.fromEntries(['md', 'mdx', 'rst', 'adoc', 'txt'].map(ext => [ext, 'instructions_docs' as const])),
+  ...Object.fromEntries([
+    'toml', 'yaml', 'yml', 'xml', 'ini', 'cfg', 'conf', 'properties', 'env', 'gradle',
+  ].map(ext => [ext, 'instructions_config' as const])),
+  ...Object.fromEntries(['css', 'scss', 'sass', 'less', 'styl'].map(ext => [ext, 'instructions_styles' as const])),
+  ...Object.fromEntries([
+    'sh', 'bash', 'zsh', 'ps1', 'bat', 'dockerfile', 'makefile', 'mk', 'justfile',
+  ].map(ext => [ext, 'instructions_build' as const])),
+};
+
+const isTemplateId = (value: string): value is PromptTemplateId =>
+  PROMPT_TEMPLATES.some(template => template.id === value);
+
+const isInstructionTemplateId = (value: unknown): value is InstructionTemplateId =>
+  typeof value === 'string' && (INSTRUCTION_TEMPLATE_IDS as string[]).includes(value);
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate =>
+  PROMPT_TEMPLATES.find(template => template.id === id)!;
+
+// User-edited text, by template; templates missing here use the built-in text
+export const getTemplateOverrides = (): Partial<Record<PromptTemplateId, string>> =>
+  readJson(TEMPLATES_STORAGE_KEY, {});
+
+// Null or the built-in text resets the template
+export const saveTemplateOverride = (id: PromptTemplateId, text: string | null): void => {
+  const overrides = getTemplateOverrides();
+  if (text === null || text === getPromptTemplate(id).text) {
+    delete overrides[id];
+  } else {
+    overrides[id] = text;
+  }
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(overrides));
+};
+
+export const getTemplateText = (id: PromptTemplateId): string =>
+  getTemplateOverrides()[id] ?? getPromptTemplate(id).text;
+
+// Mappings the user added or changed; they win over the defaults
+export const getCustomExtensionTemplates = (): Record<string, InstructionTemplateId> =>
+  readJson(EXTENSIONS_STORAGE_KEY, {});
+
+export const saveCustomExtensionTemplates = (mappings: Record<string, InstructionTemplateId>): void => {
+  const normalized: Record<string, InstructionTemplateId> = {};
+  Object.entries(mappings).forEach(([ext, id]) => {
+    const key = ext.trim().replace(/^\./, '').toLowerCase();
+    if (key && isInstructionTemplateId(id) && DEFAULT_EXTENSION_TEMPLATES[key] !== id) {
+      normalized[key] = id;
+    }
+  });
+  localStorage.setItem(EXTENSIONS_STORAGE_KEY, JSON.stringify(normalized));
+};
+
+export const getExtensionTemplates = (): Record<string, InstructionTemplateId> => ({
+  ...DEFAULT_EXTENSION_TEMPLATES,
+  ...getCustomExtensionTemplates(),
+});
+
+// What a file explanation should cover, from the file's extension
+export const instructionsForFile = (filePath: string): string => {
+  const extension = filePath.split('/').pop()?.split('.').pop()?.toLowerCase() || '';
+  return getTemplateText(getExtensionTemplates()[extension] || 'instructions_default');
+};
+
+// Fills {name} placeholders; unknown names are left as written, and values
+// are inserted as-is, so braces in code or JSON pass through untouched
+export const fillTemplate = (text: string, variables: Record<string, string | number>): string =>
+  text.replace(/\{([A-Za-z][A-Za-z0-9]*)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : match
+  );
+
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string | number>): string =>
+  fillTemplate(getTemplateText(id), variables);
+
+// Changes whenever the user's templates or mappings do, so answers written
+// from other prompts are not served from the cache. Empty with no changes.
+export const promptLibraryFingerprint = (): string => {
+  const overrides = getTemplateOverrides();
+  const mappings = getCustomExtensionTemplates();
+  if (Object.keys(overrides).length === 0 && Object.keys(mappings).length === 0) {
+    return '';
+  }
+  return fnv1a(JSON.stringify([overrides, mappings]));
+};
+
+export interface PromptLibraryExport {
+  version: number;
+  templates: Partial<Record<PromptTemplateId, string>>;
+  extensions: Record<string, InstructionTemplateId>;
+}
+
+export const exportPromptLibrary = (): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    templates: getTemplateOverrides(),
+    extensions: getCustomExtensionTemplates(),
+  } as PromptLibraryExport, null, 2);
+
+export interface PromptLibraryImport {
+  templates: number;
+  extensions: number;
+  // Entries that were not understood and left out
+  skipped: string[];
+}
+
+// Merges an exported library into the current one. Throws when the text is
+// not an export at all.
+export const importPromptLibrary = (json: string): PromptLibraryImport => {
+  let data: Partial<PromptLibraryExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object' || (data.templates === undefined && data.extensions === undefined)) {
+    throw new Error('The file is not an exported prompt library.');
+  }
+
+  const result: PromptLibraryImport = { templates: 0, extensions: 0, skipped: [] };
+  const overrides = getTemplateOverrides();
+  Object.entries(data.templates || {}).forEach(([id, text]) => {
+    if (isTemplateId(id) && typeof text === 'string') {
+      overrides[id] = text;
+      result.templates++;
+    } else {
+      result.skipped.push(`template "${id}"`);
+    }
+  });
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(overrides));
+
+  const mappings = getCustomExtensionTemplates();
+  Object.entries(data.extensions || {}).forEach(([ext, id]) => {
+    if (isInstructionTemplateId(id)) {
+      mappings[ext] = id;
+      result.extensions++;
+    } else {
+      result.skipped.push(`.${ext} → ${String(id)}`);
+    }
+  });
+  saveCustomExtensionTemplates(mappings);
+
+  return result;
+};
@@ -0,0 +1,189 @@
+import { RepoTree, TreeEntry, buildTreeFromEntries } from '../treeLoader';
+import { ProviderHttpClient } from './httpClient';
+import { extractFileDiff } from '../diffParser';
+import { FetchOptions, FileCommit, ParsedSourceUrl, PullRequestFile, RepoCoordinates, SourceFile, SourceProvider, SourceRef } from './types';
+import { encodePath, parseLineAnchor, splitUrlPath } from './urlParts';
+
+const TREE_PAGE_SIZE = 1000;
+const MAX_TREE_PAGES = 20;
+
+export class GiteaProvider implements SourceProvider {
+  readonly id: string;
+  readonly kind = 'gitea' as const;
+  readonly label: string;
+  private readonly host: string;
+  private readonly client: ProviderHttpClient;
+
+  constructor(baseUrl: string) {
+    this.id = baseUrl.replace(/\/+$/, '');
+    this.host = new URL(this.id).host.toLowerCase();
+    this.label = `Gitea (${this.host})`;
+    this.client = new ProviderHttpClient(`${this.id}/api/v1`, 'Gitea', token => ['Authorization', `token ${token}`]);
+  }
+
+  setToken(token: string | null) {
+    this.client.setToken(token);
+  }
+
+  matchesHost(host: string): boolean {
+    return host === this.host;
+  }
+
+  /**
+   * Handles host/owner/repo and the deep form
+   * .../src/(branch|tag|commit)/<ref>/<path>#L10-L20, which is used for
+   * both files and directories.
+   */
+  parseUrl(url: string): ParsedSourceUrl {
+    const { segments, hash } = splitUrlPath(url, this.id);
+
+    if (segments.length < 2) {
+      throw new Error('Invalid Gitea URL. Please provide a valid repository URL.');
+    }
+
+    const [owner, rawName, marker, refType, ...rest] = segments;
+    const isDeep = marker === 'src';
+    const refAndPath = !isDeep
+      ? []
+      : ['branch', 'tag', 'commit'].includes(refType) ? rest : [refType, ...rest].filter(Boolean);
+
+    return {
+      owner,
+      name: rawName.replace(/\.git$/, ''),
+      kind: isDeep ? 'path' : 'repo',
+      refAndPath,
+      lineRange: parseLineAnchor(hash),
+    };
+  }
+
+  async getDefaultBranch(repo: RepoCoordinates): Promise<string> {
+    const details = await this.client.getJson(this.repoPath(repo), `Repository ${repo.owner}/${repo.name}`);
+    return details.default_branch || 'main';
+  }
+
+  async resolveRef(repo: RepoCoordinates, ref: string): Promise<string> {
+    const commits = await this.client.getJson<any[]>(
+      `${this.repoPath(repo)}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&files=false&verification=false`,
+      `Ref "${ref}"`
+    );
+
+    if (!commits.length) {
+      throw new Error(`Ref "${ref}" was not found.`);
+    }
+    return commits[0].sha;
+  }
+
+  async listRefs(repo: RepoCoordinates): Promise<SourceRef[]> {
+    const [branches, tags] = await Promise.all([
+      this.client.getJson<any[]>(`${this.repoPath(repo)}/branches?limit=50`, `Branches of ${repo.name}`),
+      this.client.getJson<any[]>(`${this.repoPath(repo)}/tags?limit=50`, `Tags of ${repo.name}`),
+    ]);
+
+    return [
+      ...branches.map((b): SourceRef => ({ name: b.name, type: 'branch', sha: b.commit?.id })),
+      ...tags.map((t): SourceRef => ({ name: t.name, type: 'tag', sha: t.commit?.sha })),
+    ];
+  }
+
+  async getTree(repo: RepoCoordinates, ref: string): Promise<RepoTree> {
+    const entries: TreeEntry[] = [];
+    let treeSha = ref;
+    let truncated = false;
+
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const data = await this.client.getJson(
+        `${this.repoPath(repo)}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        `Tree for ${repo.owner}/${repo.name}@${ref}`
+      );
+
+      treeSha = data.sha || treeSha;
+      const items: any[] = data.tree || [];
+
+      // Submodules ('commit' entries) have no content we can show
+      items
+        .filter(item => item.type === 'blob' || item.type === 'tree')
+        .forEach(item => entries.push({
+          path: item.path,
+          type: item.type === 'tree' ? 'dir' : 'file',
+          sha: item.sha,
+          size: item.size,
+        }));
+
+      if (!data.truncated || items.length === 0) {
+        break;
+      }
+      truncated = page === MAX_TREE_PAGES;
+    }
+
+    return { root: buildTreeFromEntries(entries, repo.name), sha: treeSha, truncated };
+  }
+
+  async listDir(repo: RepoCoordinates, path: string, ref?: string): Promise<SourceFile[]> {
+    const refParam = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const data = await this.client.getJson<any[]>(
+      `${this.repoPath(repo)}/contents/${encodePath(path)}${refParam}`,
+      `Directory "${path}"`
+    );
+
+    return data.map((item): SourceFile => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === 'dir' ? 'dir' : 'file',
+      size: item.size,
+      download_url: item.download_url,
+      sha: item.sha,
+    }));
+  }
+
+  async readFile(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<string> {
+    const refParam = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = await this.client.request(`${this.repoPath(repo)}/raw/${encodePath(path)}${refParam}`, { signal: options?.signal });
+
+    if (!response.ok) {
+      throw this.client.toError(response, `File "${path}"`);
+    }
+
+    return response.text();
+  }
+
+  async readFileBlob(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<Blob> {
+    const refParam = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = await this.client.request(`${this.repoPath(repo)}/raw/${encodePath(path)}${refParam}`, { signal: options?.signal });
+
+    if (!response.ok) {
+      throw this.client.toError(response, `File "${path}"`);
+    }
+
+    return response.blob();
+  }
+
+  async listFileCommits(repo: RepoCoordinates, path: string, ref: string): Promise<FileCommit[]> {
+    const commits = await this.client.getJson<any[]>(
+      `${this.repoPath(repo)}/commits?sha=${encodeURIComponent(ref)}&path=${encodeURIComponent(path)}&limit=50&stat=false&files=false&verification=false`,
+      `History of "${path}"`
+    );
+
+    return commits.map((item): FileCommit => ({
+      sha: item.sha,
+      message: item.commit?.message || '',
+      author: item.author?.login || item.commit?.author?.name || 'unknown',
+      date: item.commit?.author?.date || item.created,
+      url: item.html_url,
+    }));
+  }
+
+  // Gitea only serves whole-commit diffs; the file's section is cut out of it
+  async getCommitFileDiff(repo: RepoCoordinates, sha: string, path: string): Promise<PullRequestFile | null> {
+    const response = await this.client.request(`${this.repoPath(repo)}/git/commits/${sha}.diff`);
+
+    if (!response.ok) {
+      throw this.client.toError(response, `Commit ${sha.substring(0, 7)}`);
+    }
+
+    return extractFileDiff(await response.text(), path);
+  }
+
+  private repoPath(repo: RepoCoordinates): string {
+    return `/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+  }
+}
@@ -0,0 +1,74 @@
+import { githubClient } from '../githubClient';
+import {
+  parseGitHubUrl,
+  fetchGitHubDefaultBranch,
+  resolveGitHubRef,
+  fetchGitHubRefs,
+  loadGitHubTree,
+  fetchGitHubDirContents,
+  fetchGitHubFileContent,
+  fetchGitHubFileBlob,
+  fetchGitHubPullRequest,
+  fetchGitHubFileCommits,
+  fetchGitHubCommitFileDiff
+} from '../githubApi';
+import { RepoTree } from '../treeLoader';
+import { FetchOptions, FileCommit, ParsedSourceUrl, PullRequest, PullRequestFile, RepoCoordinates, SourceFile, SourceProvider, SourceRef } from './types';
+
+export class GitHubProvider implements SourceProvider {
+  readonly id = 'https://github.com';
+  readonly kind = 'github' as const;
+  readonly label = 'GitHub';
+
+  setToken(token: string | null) {
+    githubClient.setToken(token);
+  }
+
+  matchesHost(host: string): boolean {
+    return host === 'github.com' || host === 'www.github.com';
+  }
+
+  parseUrl(url: string): ParsedSourceUrl {
+    return parseGitHubUrl(url);
+  }
+
+  getDefaultBranch(repo: RepoCoordinates): Promise<string> {
+    return fetchGitHubDefaultBranch(repo.owner, repo.name);
+  }
+
+  resolveRef(repo: RepoCoordinates, ref: string): Promise<string> {
+    return resolveGitHubRef(repo.owner, repo.name, ref);
+  }
+
+  listRefs(repo: RepoCoordinates): Promise<SourceRef[]> {
+    return fetchGitHubRefs(repo.owner, repo.name);
+  }
+
+  getTree(repo: RepoCoordinates, ref: string, options?: FetchOptions): Promise<RepoTree> {
+    return loadGitHubTree(repo.owner, repo.name, ref, options);
+  }
+
+  listDir(repo: RepoCoordinates, path: string, ref?: string): Promise<SourceFile[]> {
+    return fetchGitHubDirContents(repo.owner, repo.name, path, ref);
+  }
+
+  readFile(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<string> {
+    return fetchGitHubFileContent(repo.owner, repo.name, path, ref, options);
+  }
+
+  readFileBlob(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<Blob> {
+    return fetchGitHubFileBlob(repo.owner, repo.name, path, ref, options?.signal);
+  }
+
+  getPullRequest(repo: RepoCoordinates, pullNumber: number): Promise<PullRequest> {
+    return fetchGitHubPullRequest(repo.owner, repo.name, pullNumber);
+  }
+
+  listFileCommits(repo: RepoCoordinates, path: string, ref: string): Promise<FileCommit[]> {
+    return fetchGitHubFileCommits(repo.owner, repo.name, path, ref);
+  }
+
+  getCommitFileDiff(repo: RepoCoordinates, sha: string, path: string, options?: FetchOptions): Promise<PullRequestFile | null> {
+    return fetchGitHubCommitFileDiff(repo.owner, repo.name, sha, path, options);
+  }
+}
@@ -0,0 +1,235 @@
+import { RepoTree, TreeEntry, buildTreeFromEntries } from '../treeLoader';
+import { ProviderHttpClient } from './httpClient';
+import { countPatchChanges } from '../diffParser';
+import { FetchOptions, FileCommit, ParsedSourceUrl, PullRequest, PullRequestFile, RepoCoordinates, SourceFile, SourceProvider, SourceRef } from './types';
+import { parseLineAnchor, splitUrlPath } from './urlParts';
+
+// The recursive tree endpoint pages 100 entries at a time; beyond this many
+// pages the tree is marked truncated and directories load on demand.
+const MAX_TREE_PAGES = 100;
+
+export class GitLabProvider implements SourceProvider {
+  readonly id: string;
+  readonly kind = 'gitlab' as const;
+  readonly label: string;
+  private readonly host: string;
+  private readonly client: ProviderHttpClient;
+
+  constructor(baseUrl: string) {
+    this.id = baseUrl.replace(/\/+$/, '');
+    this.host = new URL(this.id).host.toLowerCase();
+    this.label = this.host === 'gitlab.com' ? 'GitLab' : `GitLab (${this.host})`;
+    this.client = new ProviderHttpClient(`${this.id}/api/v4`, 'GitLab', token => ['PRIVATE-TOKEN', token]);
+  }
+
+  setToken(token: string | null) {
+    this.client.setToken(token);
+  }
+
+  matchesHost(host: string): boolean {
+    return host === this.host;
+  }
+
+  /**
+   * Handles gitlab.com/group/sub/project and the deep forms
+   * .../project/-/blob/<ref>/<file>#L10-20, .../project/-/tree/<ref>/<dir>
+   * and merge requests (.../project/-/merge_requests/12)
+   */
+  parseUrl(url: string): ParsedSourceUrl {
+    const { segments, hash } = splitUrlPath(url, this.id);
+    const dash = segments.indexOf('-');
+    const projectPath = dash === -1 ? segments : segments.slice(0, dash);
+
+    if (projectPath.length < 2) {
+      throw new Error('Invalid GitLab URL. Please provide a valid project URL.');
+    }
+
+    const marker = dash === -1 ? undefined : segments[dash + 1];
+    const owner = projectPath.slice(0, -1).join('/');
+    const name = projectPath[projectPath.length - 1].replace(/\.git$/, '');
+
+    if (marker === 'merge_requests' && /^\d+$/.test(segments[dash + 2] || '')) {
+      return { owner, name, kind: 'pull', refAndPath: [], pullNumber: parseInt(segments[dash + 2], 10) };
+    }
+
+    const kind = marker === 'tree' || marker === 'blob' ? marker : 'repo';
+
+    return {
+      owner,
+      name,
+      kind,
+      refAndPath: kind === 'repo' ? [] : segments.slice(dash + 2),
+      lineRange: parseLineAnchor(hash),
+    };
+  }
+
+  async getDefaultBranch(repo: RepoCoordinates): Promise<string> {
+    const project = await this.client.getJson(this.projectPath(repo), `Project ${repo.owner}/${repo.name}`);
+    return project.default_branch || 'main';
+  }
+
+  async resolveRef(repo: RepoCoordinates, ref: string): Promise<string> {
+    const commit = await this.client.getJson(
+      `${this.projectPath(repo)}/repository/commits/${encodeURIComponent(ref)}`,
+      `Ref "${ref}"`
+    );
+    return commit.id;
+  }
+
+  async listRefs(repo: RepoCoordinates): Promise<SourceRef[]> {
+    const [branches, tags] = await Promise.all([
+      this.client.getJson<any[]>(`${this.projectPath(repo)}/repository/branches?per_page=100`, `Branches of ${repo.name}`),
+      this.client.getJson<any[]>(`${this.projectPath(repo)}/repository/tags?per_page=100`, `Tags of ${repo.name}`),
+    ]);
+
+    return [
+      ...branches.map((b): SourceRef => ({ name: b.name, type: 'branch', sha: b.commit?.id })),
+      ...tags.map((t): SourceRef => ({ name: t.name, type: 'tag', sha: t.commit?.id })),
+    ];
+  }
+
+  async getTree(repo: RepoCoordinates, ref: string): Promise<RepoTree> {
+    const { items, truncated } = await this.paginate(
+      `${this.projectPath(repo)}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}`,
+      `Tree for ${repo.owner}/${repo.name}@${ref}`,
+      MAX_TREE_PAGES
+    );
+
+    // Submodules ('commit' entries) have no content we can show
+    const entries: TreeEntry[] = items
+      .filter(item => item.type === 'blob' || item.type === 'tree')
+      .map((item): TreeEntry => ({ path: item.path, type: item.type === 'tree' ? 'dir' : 'file', sha: item.id }));
+
+    return { root: buildTreeFromEntries(entries, repo.name), sha: ref, truncated };
+  }
+
+  async listDir(repo: RepoCoordinates, path: string, ref?: string): Promise<SourceFile[]> {
+    const refParam = ref ? `&ref=${encodeURIComponent(ref)}` : '';
+    const { items } = await this.paginate(
+      `${this.projectPath(repo)}/repository/tree?path=${encodeURIComponent(path)}${refParam}`,
+      `Directory "${path}"`,
+      10
+    );
+
+    return items
+      .filter(item => item.type === 'blob' || item.type === 'tree')
+      .map((item): SourceFile => ({
+        name: item.name,
+        path: item.path,
+        type: item.type === 'tree' ? 'dir' : 'file',
+        sha: item.id,
+      }));
+  }
+
+  async readFile(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<string> {
+    const refParam = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = await this.client.request(
+      `${this.projectPath(repo)}/repository/files/${encodeURIComponent(path)}/raw${refParam}`,
+      { signal: options?.signal }
+    );
+
+    if (!response.ok) {
+      throw this.client.toError(response, `File "${path}"`);
+    }
+
+    return response.text();
+  }
+
+  async readFileBlob(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<Blob> {
+    const refParam = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const response = await this.client.request(
+      `${this.projectPath(repo)}/repository/files/${encodeURIComponent(path)}/raw${refParam}`,
+      { signal: options?.signal }
+    );
+
+    if (!response.ok) {
+      throw this.client.toError(response, `File "${path}"`);
+    }
+
+    return response.blob();
+  }
+
+  async getPullRequest(repo: RepoCoordinates, pullNumber: number): Promise<PullRequest> {
+    const mrPath = `${this.projectPath(repo)}/merge_requests/${pullNumber}`;
+    const mr = await this.client.getJson(mrPath, `Merge request !${pullNumber}`);
+    const { items } = await this.paginate(`${mrPath}/diffs`, `Changes of merge request !${pullNumber}`, 30);
+
+    const files = items.map(toChangedFile);
+
+    return {
+      number: mr.iid,
+      title: mr.title,
+      body: mr.description || '',
+      author: mr.author?.username || 'unknown',
+      url: mr.web_url,
+      base_ref: mr.target_branch,
+      base_sha: mr.diff_refs?.base_sha,
+      head_ref: mr.source_branch,
+      head_sha: mr.diff_refs?.head_sha || mr.sha,
+      files,
+    };
+  }
+
+  async listFileCommits(repo: RepoCoordinates, path: string, ref: string): Promise<FileCommit[]> {
+    const commits = await this.client.getJson<any[]>(
+      `${this.projectPath(repo)}/repository/commits?path=${encodeURIComponent(path)}&ref_name=${encodeURIComponent(ref)}&per_page=100`,
+      `History of "${path}"`
+    );
+
+    return commits.map((item): FileCommit => ({
+      sha: item.id,
+      message: item.message || item.title,
+      author: item.author_name || 'unknown',
+      date: item.authored_date,
+      url: item.web_url,
+    }));
+  }
+
+  async getCommitFileDiff(repo: RepoCoordinates, sha: string, path: string): Promise<PullRequestFile | null> {
+    const { items } = await this.paginate(
+      `${this.projectPath(repo)}/repository/commits/${sha}/diff`,
+      `Commit ${sha.substring(0, 7)}`,
+      10
+    );
+
+    const item = items.find(d => d.new_path === path || d.old_path === path);
+    return item ? toChangedFile(item) : null;
+  }
+
+  // Projects are addressed by their URL-encoded full path ("group/sub/project")
+  private projectPath(repo: RepoCoordinates): string {
+    return `/projects/${encodeURIComponent(`${repo.owner}/${repo.name}`)}`;
+  }
+
+  private async paginate(path: string, target: string, maxPages: number): Promise<{ items: any[]; truncated: boolean }> {
+    const items: any[] = [];
+    let page = 1;
+
+    while (page) {
+      if (page > maxPages) {
+        return { items, truncated: true };
+      }
+
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await this.client.request(`${path}${separator}per_page=100&page=${page}`);
+      if (!response.ok) {
+        throw this.client.toError(response, target);
+      }
+
+      items.push(...await response.json());
+      const nextPage = response.headers.get('X-Next-Page');
+      page = nextPage ? parseInt(nextPage, 10) : 0;
+    }
+
+    return { items, truncated: false };
+  }
+}
+
+// Merge request diffs and commit diffs share one shape
+const toChangedFile = (item: any): PullRequestFile => ({
+  path: item.new_path,
+  previous_path: item.renamed_file ? item.old_path : undefined,
+  status: item.new_file ? 'added' : item.deleted_file ? 'removed' : item.renamed_file ? 'renamed' : 'modified',
+  ...countPatchChanges(item.diff || ''),
+  patch: item.diff || undefined,
+});
@@ -0,0 +1,54 @@
+// Minimal authenticated JSON/text client for self-hostable providers (GitLab, Gitea).
+// GitHub has its own client in githubClient.ts.
+export class ProviderHttpClient {
+  private token: string | null = null;
+
+  constructor(
+    private readonly apiBase: string,
+    private readonly serviceName: string,
+    private readonly authHeader: (token: string) => [string, string]
+  ) { }
+
+  setToken(token: string | null) {
+    this.token = token && token.trim() ? token.trim() : null;
+  }
+
+  async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+
+    if (this.token) {
+      const [name, value] = this.authHeader(this.token);
+      headers.set(name, value);
+    }
+
+    return fetch(`${this.apiBase}${path}`, { ...init, headers });
+  }
+
+  async getJson<T = any>(path: string, target: string): Promise<T> {
+    const response = await this.request(path);
+    if (!response.ok) {
+      throw this.toError(response, target);
+    }
+    return response.json();
+  }
+
+  toError(response: Response, target: string): Error {
+    if (response.status === 401) {
+      return new Error(`${this.serviceName} rejected the access token. Check that it is valid and has not expired.`);
+    }
+    if (response.status === 403) {
+      return new Error(this.token
+        ? `Your ${this.serviceName} token does not have access to ${target}. It needs read access to the repository.`
+        : `${this.serviceName} denied access to ${target}.`);
+    }
+    if (response.status === 404) {
+      return new Error(this.token
+        ? `${target} was not found, or your ${this.serviceName} token cannot see it.`
+        : `${target} was not found. If it is a private repository, add an access token.`);
+    }
+    if (response.status === 429) {
+      return new Error(`${this.serviceName} rate limit exceeded. Please try again later.`);
+    }
+    return new Error(`${this.serviceName} request for ${target} failed: ${response.status} ${response.statusText}`);
+  }
+}
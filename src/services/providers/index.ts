@@ -0,0 +1,130 @@
+// Source provider registry: picks the provider for a pasted URL by host and
+// holds the user's self-hosted GitLab/Gitea configuration.
+import { listTreeChildren } from '../treeLoader';
+import { GitHubProvider } from './github';
+import { GitLabProvider } from './gitlab';
+import { GiteaProvider } from './gitea';
+import { RepoCoordinates, SourceProvider, SourceRepo } from './types';
+import { getUrlHost, normalizeUrl } from './urlParts';
+
+export interface SourceHostConfig {
+  kind: 'gitlab' | 'gitea';
+  baseUrl: string;
+}
+
+const HOSTS_STORAGE_KEY = 'explainhub_source_hosts';
+
+const BUILT_IN_HOSTS: SourceHostConfig[] = [
+  { kind: 'gitlab', baseUrl: 'https://gitlab.com' },
+  { kind: 'gitea', baseUrl: 'https://gitea.com' },
+  { kind: 'gitea', baseUrl: 'https://codeberg.org' },
+];
+
+const githubProvider = new GitHubProvider();
+// Provider instances are reused so tokens set on them stick around
+const providerCache: Record<string, SourceProvider> = {};
+
+export const getCustomSourceHosts = (): SourceHostConfig[] => {
+  try {
+    const stored = localStorage.getItem(HOSTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to read self-hosted provider config:', error);
+    return [];
+  }
+};
+
+export const saveCustomSourceHosts = (hosts: SourceHostConfig[]): void => {
+  const normalized = hosts.map(host => ({ kind: host.kind, baseUrl: normalizeUrl(host.baseUrl).replace(/\/+$/, '') }));
+  localStorage.setItem(HOSTS_STORAGE_KEY, JSON.stringify(normalized));
+};
+
+const createProvider = (config: SourceHostConfig): SourceProvider => {
+  const id = config.baseUrl.replace(/\/+$/, '');
+  if (!providerCache[id]) {
+    providerCache[id] = config.kind === 'gitlab' ? new GitLabProvider(id) : new GiteaProvider(id);
+  }
+  return providerCache[id];
+};
+
+export const getAllProviders = (): SourceProvider[] => [
+  githubProvider,
+  // Custom hosts first so a user entry can override a built-in one
+  ...[...getCustomSourceHosts(), ...BUILT_IN_HOSTS].map(createProvider),
+];
+
+export const getProviderById = (id: string): SourceProvider | null =>
+  getAllProviders().find(provider => provider.id === id) || null;
+
+export const getProviderForUrl = (url: string): SourceProvider => {
+  const host = getUrlHost(url);
+  const provider = host ? getAllProviders().find(p => p.matchesHost(host)) : undefined;
+
+  if (!provider) {
+    throw new Error(
+      `Unsupported host "${host || url}". Use a GitHub, GitLab or Gitea URL, or add the host under self-hosted providers.`
+    );
+  }
+  return provider;
+};
+
+/**
+ * Splits the segments after a tree/blob marker into ref and path, preferring
+ * the longest branch or tag name that matches (e.g. "feature/login").
+ */
+export const splitRefAndPath = async (
+  provider: SourceProvider,
+  repo: RepoCoordinates,
+  segments: string[]
+): Promise<{ ref: string; path: string }> => {
+  const firstSegmentSplit = { ref: segments[0], path: segments.slice(1).join('/') };
+
+  if (segments.length <= 1 || /^[0-9a-f]{40}$/i.test(segments[0])) {
+    return firstSegmentSplit;
+  }
+
+  try {
+    const refNames = new Set((await provider.listRefs(repo)).map(r => r.name));
+    for (let i = segments.length; i > 0; i--) {
+      const candidate = segments.slice(0, i).join('/');
+      if (refNames.has(candidate)) {
+        return { ref: candidate, path: segments.slice(i).join('/') };
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to list refs while parsing URL, assuming a single-segment ref', e);
+  }
+
+  return firstSegmentSplit;
+};
+
+/**
+ * Loads the repository as of a branch, tag or commit. The ref is resolved to a
+ * commit SHA first so the tree, file contents and cached explanations all
+ * describe exactly the same snapshot, even if the branch moves later.
+ */
+export const loadRepository = async (
+  provider: SourceProvider,
+  coordinates: RepoCoordinates,
+  ref?: string,
+  knownDefaultBranch?: string
+): Promise<SourceRepo> => {
+  const defaultBranch = knownDefaultBranch || await provider.getDefaultBranch(coordinates);
+  const selectedRef = ref || defaultBranch;
+  const commitSha = await provider.resolveRef(coordinates, selectedRef);
+
+  // One recursive tree call replaces crawling directories one by one
+  const tree = await provider.getTree(coordinates, commitSha);
+
+  return {
+    owner: coordinates.owner,
+    name: coordinates.name,
+    path: '',
+    provider_id: provider.id,
+    default_branch: defaultBranch,
+    ref: selectedRef,
+    commit_sha: commitSha,
+    files: listTreeChildren(tree, '') || [],
+    tree,
+  };
+};
@@ -0,0 +1,136 @@
+import { RepoTree } from '../treeLoader';
+
+export type ProviderKind = 'github' | 'gitlab' | 'gitea' | 'local';
+
+export interface SourceFile {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size?: number;
+  download_url?: string;
+  sha?: string;
+  url?: string;
+}
+
+// Identifies a repository on a provider. GitLab owners may be nested
+// groups ("group/subgroup"), so owner is not always a single segment.
+export interface RepoCoordinates {
+  owner: string;
+  name: string;
+}
+
+export interface SourceRepo extends RepoCoordinates {
+  path: string;
+  // Id of the provider the repo was loaded from (its base URL)
+  provider_id: string;
+  default_branch?: string;
+  // Branch, tag or SHA the user picked, and the commit it resolved to.
+  // Every contents call and cache key is pinned to commit_sha.
+  ref?: string;
+  commit_sha?: string;
+  files: SourceFile[];
+  tree?: RepoTree;
+}
+
+export interface SourceRef {
+  name: string;
+  type: 'branch' | 'tag';
+  sha: string;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// A location inside the repo to open once it has loaded
+export interface RepoTarget {
+  path: string;
+  type: 'file' | 'dir';
+  lineRange?: LineRange;
+}
+
+export interface ParsedSourceUrl extends RepoCoordinates {
+  // 'path' is used where the URL does not say whether it points at a file or
+  // a directory (Gitea's /src/ links); the tree decides once loaded.
+  // 'pull' is a pull/merge request link; pullNumber is set with it.
+  kind: 'repo' | 'tree' | 'blob' | 'path' | 'pull';
+  // Everything after the tree/blob marker: the ref followed by the path.
+  // Refs may contain slashes, so the two can only be told apart against
+  // the ref list.
+  refAndPath: string[];
+  lineRange?: LineRange;
+  pullNumber?: number;
+}
+
+// One file's change in a pull request, also used for a file's change in a
+// single commit
+export interface PullRequestFile {
+  path: string;
+  // Set for renames
+  previous_path?: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  additions: number;
+  deletions: number;
+  // Unified diff hunks; missing for binary files and very large diffs
+  patch?: string;
+}
+
+export interface FileCommit {
+  sha: string;
+  message: string;
+  author: string;
+  // ISO 8601 author date
+  date: string;
+  url?: string;
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  body: string;
+  author: string;
+  url: string;
+  base_ref: string;
+  base_sha: string;
+  head_ref: string;
+  // The repo is loaded at this commit and PR reviews are cached per head SHA
+  head_sha: string;
+  files: PullRequestFile[];
+}
+
+// Background fetches (diagram inputs, history diffs) may be held back by
+// providers with a rate-limit budget; essential ones are what the user is
+// waiting on right now.
+export type RequestPriority = 'essential' | 'background';
+
+export interface FetchOptions {
+  priority?: RequestPriority;
+  // Cancels the fetch when the work that needed it is abandoned
+  signal?: AbortSignal;
+}
+
+export interface SourceProvider {
+  readonly id: string;
+  readonly kind: ProviderKind;
+  readonly label: string;
+
+  setToken(token: string | null): void;
+  // Whether this provider serves the given host (e.g. "github.com")
+  matchesHost(host: string): boolean;
+  parseUrl(url: string): ParsedSourceUrl;
+
+  getDefaultBranch(repo: RepoCoordinates): Promise<string>;
+  resolveRef(repo: RepoCoordinates, ref: string): Promise<string>;
+  listRefs(repo: RepoCoordinates): Promise<SourceRef[]>;
+  getTree(repo: RepoCoordinates, ref: string, options?: FetchOptions): Promise<RepoTree>;
+  listDir(repo: RepoCoordinates, path: string, ref?: string): Promise<SourceFile[]>;
+  readFile(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<string>;
+  // Raw bytes, for images and other binary files
+  readFileBlob(repo: RepoCoordinates, path: string, ref?: string, options?: FetchOptions): Promise<Blob>;
+  // Only implemented by hosts with pull/merge requests
+  getPullRequest?(repo: RepoCoordinates, pullNumber: number): Promise<PullRequest>;
+  // Git history, unavailable for local sources. Commits are newest first.
+  listFileCommits?(repo: RepoCoordinates, path: string, ref: string): Promise<FileCommit[]>;
+  getCommitFileDiff?(repo: RepoCoordinates, sha: string, path: string, options?: FetchOptions): Promise<PullRequestFile | null>;
+}
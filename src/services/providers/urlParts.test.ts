@@ -0,0 +1,110 @@
+import { parseGitHubUrl } from '../githubApi';
+import { GitLabProvider } from './gitlab';
+import { GiteaProvider } from './gitea';
+import { getUrlHost, normalizeUrl, parseLineAnchor, splitUrlPath } from './urlParts';
+
+describe('parseLineAnchor', () => {
+  test.each([
+    ['L40', { start: 40, end: 40 }],
+    ['L40-60', { start: 40, end: 60 }],
+    ['L40-L60', { start: 40, end: 60 }],
+    ['L40C5-L60C12', { start: 40, end: 60 }],
+    ['L7C3', { start: 7, end: 7 }],
+    ['', undefined],
+    ['readme', undefined],
+    ['40-60', undefined],
+  ])('%p', (hash, expected) => {
+    expect(parseLineAnchor(hash)).toEqual(expected);
+  });
+});
+
+describe('URL helpers', () => {
+  test.each([
+    ['gitlab.com/group/project', 'https://gitlab.com/group/project'],
+    ['  https://github.com/o/r ', 'https://github.com/o/r'],
+    ['HTTP://example.com', 'HTTP://example.com'],
+  ])('normalizeUrl(%p)', (url, expected) => {
+    expect(normalizeUrl(url)).toBe(expected);
+  });
+
+  test.each([
+    ['GitHub.com/o/r', 'github.com'],
+    ['https://git.example.com:3000/o/r', 'git.example.com:3000'],
+    ['https://', null],
+  ])('getUrlHost(%p)', (url, expected) => {
+    expect(getUrlHost(url)).toBe(expected);
+  });
+
+  test('splitUrlPath strips a base path prefix and decodes segments', () => {
+    expect(splitUrlPath('https://example.com/git/o/my%20repo/src/branch/main#L3', 'https://example.com/git')).toEqual({
+      segments: ['o', 'my repo', 'src', 'branch', 'main'],
+      hash: 'L3',
+    });
+  });
+});
+
+describe('parseGitHubUrl', () => {
+  test.each([
+    ['https://github.com/o/r', { owner: 'o', name: 'r', kind: 'repo', refAndPath: [] }],
+    ['github.com/o/r.git', { owner: 'o', name: 'r', kind: 'repo', refAndPath: [] }],
+    ['https://github.com/o/r/tree/feature/x/src', { owner: 'o', name: 'r', kind: 'tree', refAndPath: ['feature', 'x', 'src'] }],
+    [
+      'https://github.com/o/r/blob/main/src/a.ts?plain=1#L10-L20',
+      { owner: 'o', name: 'r', kind: 'blob', refAndPath: ['main', 'src', 'a.ts'], lineRange: { start: 10, end: 20 } },
+    ],
+    [
+      'https://github.com/o/r/blob/main/a.ts#L4C2-L9C1',
+      { owner: 'o', name: 'r', kind: 'blob', refAndPath: ['main', 'a.ts'], lineRange: { start: 4, end: 9 } },
+    ],
+    ['https://github.com/o/r/pull/123/files', { owner: 'o', name: 'r', kind: 'pull', refAndPath: [], pullNumber: 123 }],
+  ])('%p', (url, expected) => {
+    expect(parseGitHubUrl(url)).toEqual(expected);
+  });
+
+  test.each(['https://gitlab.com/o/r', 'https://github.com/o'])('rejects %p', url => {
+    expect(() => parseGitHubUrl(url)).toThrow('Invalid GitHub URL');
+  });
+});
+
+describe('GitLabProvider.parseUrl', () => {
+  const gitlab = new GitLabProvider('https://gitlab.com');
+
+  test.each([
+    ['gitlab.com/group/sub/project', { owner: 'group/sub', name: 'project', kind: 'repo', refAndPath: [], lineRange: undefined }],
+    [
+      'https://gitlab.com/group/project/-/blob/main/src/a.ts#L10-20',
+      { owner: 'group', name: 'project', kind: 'blob', refAndPath: ['main', 'src', 'a.ts'], lineRange: { start: 10, end: 20 } },
+    ],
+    [
+      'https://gitlab.com/group/project/-/tree/release/1.0/docs',
+      { owner: 'group', name: 'project', kind: 'tree', refAndPath: ['release', '1.0', 'docs'], lineRange: undefined },
+    ],
+    ['https://gitlab.com/group/project/-/merge_requests/12', { owner: 'group', name: 'project', kind: 'pull', refAndPath: [], pullNumber: 12 }],
+  ])('%p', (url, expected) => {
+    expect(gitlab.parseUrl(url)).toEqual(expected);
+  });
+
+  test('rejects a URL without a project', () => {
+    expect(() => gitlab.parseUrl('https://gitlab.com/group')).toThrow('Invalid GitLab URL');
+  });
+});
+
+describe('GiteaProvider.parseUrl', () => {
+  const gitea = new GiteaProvider('https://codeberg.org');
+
+  test.each([
+    ['https://codeberg.org/o/r.git', { owner: 'o', name: 'r', kind: 'repo', refAndPath: [], lineRange: undefined }],
+    [
+      'https://codeberg.org/o/r/src/branch/dev/lib/a.go#L5-L8',
+      { owner: 'o', name: 'r', kind: 'path', refAndPath: ['dev', 'lib', 'a.go'], lineRange: { start: 5, end: 8 } },
+    ],
+    [
+      'https://codeberg.org/o/r/src/commit/abc123/README.md',
+      { owner: 'o', name: 'r', kind: 'path', refAndPath: ['abc123', 'README.md'], lineRange: undefined },
+    ],
+    // Older links without the branch/tag/commit marker
+    ['https://codeberg.org/o/r/src/main/a.go', { owner: 'o', name: 'r', kind: 'path', refAndPath: ['main', 'a.go'], lineRange: undefined }],
+  ])('%p', (url, expected) => {
+    expect(gitea.parseUrl(url)).toEqual(expected);
+  });
+});
@@ -0,0 +1,46 @@
+import { LineRange } from './types';
+
+// Accepts pasted URLs with or without a scheme ("gitlab.com/group/project")
+export const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+export const getUrlHost = (url: string): string | null => {
+  try {
+    return new URL(normalizeUrl(url)).host.toLowerCase();
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Splits a repository URL into decoded path segments relative to the
+ * provider's base URL (which may live under a path prefix), plus the hash.
+ */
+export const splitUrlPath = (url: string, baseUrl: string): { segments: string[]; hash: string } => {
+  const parsed = new URL(normalizeUrl(url));
+  const basePath = new URL(baseUrl).pathname.replace(/\/+$/, '');
+
+  let path = parsed.pathname;
+  if (basePath && path.startsWith(basePath)) {
+    path = path.substring(basePath.length);
+  }
+
+  return {
+    segments: path.split('/').filter(Boolean).map(decodeURIComponent),
+    hash: parsed.hash.replace(/^#/, ''),
+  };
+};
+
+// Line anchors: L40, L40-60 (GitLab) and L40-L60 (GitHub, Gitea). GitHub
+// adds columns when a selection starts or ends mid-line (L40C5-L60C12);
+// they are ignored.
+export const parseLineAnchor = (hash: string): LineRange | undefined => {
+  const match = hash.match(/^L(\d+)(?:C\d+)?(?:-L?(\d+)(?:C\d+)?)?/);
+  if (!match) return undefined;
+
+  return { start: parseInt(match[1], 10), end: parseInt(match[2] || match[1], 10) };
+};
+
+export const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
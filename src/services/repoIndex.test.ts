@@ -0,0 +1,126 @@
+import { RepoIndex, buildRepoIndex, selectIndexFiles } from './repoIndex';
+import { RepoTreeNode, buildTreeFromEntries } from './treeLoader';
+
+// Long enough that the index (2000-character chunks) splits the file per function
+const filler = Array.from({ length: 12 }, (_, i) => `  // step ${i}: ${'.'.repeat(70)}`);
+const createSession = [
+  'export function createSession(user: string) {',
+  ...filler,
+  '  return { user, token: hash(user) };',
+  '}',
+  '',
+];
+const verifyToken = [
+  'export function verifyToken(token: string) {',
+  ...filler,
+  '  return token.length > 0;',
+  '}',
+];
+const sessionLines = ["import { hash } from '../crypto';", '', ...createSession, ...verifyToken];
+// 1-based line where verifyToken starts
+const VERIFY_START = sessionLines.length - verifyToken.length + 1;
+
+const corpus: Record<string, string> = {
+  'src/auth/session.ts': sessionLines.join('\n'),
+  'src/crypto.ts': 'export const hash = (value: string) => value.split("").reverse().join("");',
+  'src/ui/LoginForm.tsx': [
+    "import { createSession } from '../auth/session';",
+    '',
+    'export const LoginForm = () => {',
+    '  // Submits the password and starts a session',
+    '  return null;',
+    '};',
+  ].join('\n'),
+  'docs/guide.md': '# Guide\n\nRun the app and sign in.',
+};
+
+const buildIndex = () => {
+  const index = new RepoIndex(Object.keys(corpus).length);
+  Object.entries(corpus).forEach(([path, content]) => index.addFile(path, content));
+  return index;
+};
+
+describe('RepoIndex.search', () => {
+  test('ranks the chunk declaring a named symbol first, with its line range', () => {
+    const [best] = buildIndex().search('Where is verifyToken implemented?', 1, 10000);
+    expect(best).toMatchObject({ path: 'src/auth/session.ts', start: VERIFY_START, end: sessionLines.length, symbols: ['verifyToken'] });
+    expect(best.text).toBe(verifyToken.join('\n'));
+  });
+
+  test('matches path terms and returns results grouped by file in line order', () => {
+    const results = buildIndex().search('How does auth create a session?', 3, 10000);
+    expect(results.map(chunk => `${chunk.path}:${chunk.start}-${chunk.end}`)).toEqual([
+      `src/auth/session.ts:1-${VERIFY_START - 1}`,
+      `src/auth/session.ts:${VERIFY_START}-${sessionLines.length}`,
+      'src/ui/LoginForm.tsx:1-6',
+    ]);
+  });
+
+  test('respects the character budget but always returns the best chunk', () => {
+    const index = buildIndex();
+    expect(index.search('session token hash', 10, 1)).toHaveLength(1);
+    expect(index.search('nothing matches xyzzy', 10, 10000)).toEqual([]);
+  });
+
+  test('counts files and chunks', () => {
+    const index = buildIndex();
+    expect(index.paths).toEqual(Object.keys(corpus));
+    expect(index.chunkCount).toBe(5);
+  });
+});
+
+describe('selectIndexFiles', () => {
+  test('skips vendored, lock and binary files and puts source code first', () => {
+    const root: RepoTreeNode = buildTreeFromEntries(
+      [
+        'README.md',
+        'package-lock.json',
+        'logo.png',
+        'node_modules/lib/index.js',
+        'src/deep/nested/util.ts',
+        'src/app.ts',
+        'dist/app.min.js',
+      ].map(path => ({ path, type: 'file' as const, size: 100 })),
+      'repo'
+    );
+
+    expect(selectIndexFiles(root)).toEqual({
+      files: [
+        expect.objectContaining({ path: 'src/app.ts' }),
+        expect.objectContaining({ path: 'src/deep/nested/util.ts' }),
+        expect.objectContaining({ path: 'README.md' }),
+      ],
+      total: 3,
+    });
+  });
+});
+
+describe('buildRepoIndex', () => {
+  test('indexes what loads, skips failures and reports progress', async () => {
+    const files = Object.keys(corpus).concat('src/broken.ts').map(path => ({ name: path, path, type: 'file' as const }));
+    const progress: number[] = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const index = await buildRepoIndex(
+      files,
+      files.length,
+      async path => {
+        if (!(path in corpus)) throw new Error('not found');
+        return corpus[path];
+      },
+      done => progress.push(done)
+    );
+
+    expect(index.paths).toEqual(Object.keys(corpus));
+    expect(progress).toEqual([5]);
+  });
+
+  test('stops on abort', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(buildRepoIndex([], 0, async () => '', () => {}, controller.signal)).resolves.toBeDefined();
+    await expect(
+      buildRepoIndex([{ name: 'a.ts', path: 'a.ts', type: 'file' }], 1, async () => '', () => {}, controller.signal)
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,206 @@
+// Local search over the whole repository, for questions that aren't about a
+// single file: BM25 over symbol-sized chunks of the indexed files, plus an
+// index of the symbols each chunk declares.
+import { CodeChunk, chunkBySymbols, questionTerms, terms } from './codeChunks';
+import { staticAnalysisService } from './staticAnalysis';
+import { RepoTreeNode } from './treeLoader';
+import { LARGE_FILE_BYTES, classifyByPath, classifyContent } from './fileKinds';
+import { getExtensionTemplates } from './promptTemplates';
+import { isAbortError, throwIfAborted } from './abort';
+
+export interface RepoChunk extends CodeChunk {
+  path: string;
+}
+
+// Each indexed file is one request to the host, so large repos are sampled
+export const MAX_INDEXED_FILES = 300;
+const INDEX_CHUNK_MAX_CHARS = 2000;
+const INDEX_CONCURRENCY = 6;
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// A chunk declaring a symbol named in the question beats one that only mentions it
+const SYMBOL_MATCH_BOOST = 8;
+const SYMBOL_TERM_BOOST = 1.5;
+
+// Generated, vendored and lock files say little about how the code works
+const SKIPPED_DIRS = new Set(['node_modules', 'vendor', 'dist', 'build', 'out', 'target', 'coverage', '.git', '.next', '__pycache__']);
+const SKIPPED_FILE_PATTERN = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|composer\.lock|go\.sum)$|\.min\.(js|css)$|\.map$/;
+
+const EXPORT_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function|class|const|let|var|interface|type|enum)\s+/;
+
+// Source code first, then docs, then the rest; shallow paths before deep ones
+const indexRank = (path: string): number => {
+  const extension = path.split('/').pop()?.split('.').pop()?.toLowerCase() || '';
+  const template = getExtensionTemplates()[extension];
+  const kindRank = template === 'instructions_code' ? 0 : template === 'instructions_docs' ? 1 : 2;
+  return kindRank * 100 + path.split('/').length;
+};
+
+/**
+ * Text files worth indexing, best first, capped at MAX_INDEXED_FILES.
+ * `total` counts every candidate, so the UI can say how much was sampled.
+ */
+export const selectIndexFiles = (root: RepoTreeNode): { files: RepoTreeNode[]; total: number } => {
+  const candidates: RepoTreeNode[] = [];
+  const visit = (node: RepoTreeNode) => {
+    (node.children || []).forEach(child => {
+      if (child.type === 'dir') {
+        if (!SKIPPED_DIRS.has(child.name)) visit(child);
+      } else if (
+        !SKIPPED_FILE_PATTERN.test(child.path) &&
+        classifyByPath(child.path, child.size).kind === 'text' &&
+        (child.size === undefined || child.size <= LARGE_FILE_BYTES)
+      ) {
+        candidates.push(child);
+      }
+    });
+  };
+  visit(root);
+
+  const files = candidates
+    .sort((a, b) => indexRank(a.path) - indexRank(b.path) || a.path.localeCompare(b.path))
+    .slice(0, MAX_INDEXED_FILES);
+  return { files, total: candidates.length };
+};
+
+export class RepoIndex {
+  private chunks: RepoChunk[] = [];
+  // Term → chunk index → occurrences
+  private postings = new Map<string, Map<number, number>>();
+  private lengths: number[] = [];
+  private totalLength = 0;
+  // Lowercased symbol name → chunks declaring it
+  private symbols = new Map<string, number[]>();
+  // Words of the symbol names → chunks declaring them
+  private symbolTerms = new Map<string, Set<number>>();
+  readonly paths: string[] = [];
+
+  constructor(
+    // Text files in the repository, of which `paths` were indexed
+    readonly totalFiles: number
+  ) {}
+
+  get chunkCount(): number {
+    return this.chunks.length;
+  }
+
+  addFile(path: string, content: string) {
+    // Exports found by static analysis are declarations the chunker may have
+    // missed (indented, or after a decorator)
+    const exported = /\.[cm]?[jt]sx?$/.test(path) ? staticAnalysisService.analyzeFile(content, path).exports : [];
+    // The path counts as part of every chunk, so "auth" finds src/auth/*
+    const pathTerms = terms(path);
+
+    chunkBySymbols(content, INDEX_CHUNK_MAX_CHARS).forEach(chunk => {
+      const id = this.chunks.length;
+      const declared = chunk.symbols.concat(exported.filter(name =>
+        !chunk.symbols.includes(name) &&
+        chunk.text.split('\n').some(line => EXPORT_DECLARATION.test(line.trim()) && new RegExp(`\\b${name}\\b`).test(line))
+      ));
+      this.chunks.push({ ...chunk, symbols: declared, path });
+
+      const words = terms(chunk.text).concat(pathTerms);
+      this.lengths.push(words.length);
+      this.totalLength += words.length;
+      words.forEach(word => {
+        let postings = this.postings.get(word);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(word, postings);
+        }
+        postings.set(id, (postings.get(id) || 0) + 1);
+      });
+
+      declared.forEach(name => {
+        const key = name.toLowerCase();
+        this.symbols.set(key, [...(this.symbols.get(key) || []), id]);
+        terms(name).forEach(term => {
+          if (!this.symbolTerms.has(term)) this.symbolTerms.set(term, new Set());
+          this.symbolTerms.get(term)!.add(id);
+        });
+      });
+    });
+    this.paths.push(path);
+  }
+
+  /**
+   * The `limit` chunks most relevant to a question, within `maxChars`,
+   * grouped by file in line order.
+   */
+  search(question: string, limit: number, maxChars: number): RepoChunk[] {
+    const wanted = questionTerms(question);
+    // Identifiers quoted as they appear in the code
+    const identifiers = question.match(/[A-Za-z_$][\w$]{2,}/g) || [];
+    const averageLength = this.totalLength / Math.max(1, this.chunks.length) || 1;
+    const scores = new Map<number, number>();
+    const add = (id: number, score: number) => scores.set(id, (scores.get(id) || 0) + score);
+
+    wanted.forEach(term => {
+      const postings = this.postings.get(term);
+      if (!postings) return;
+      const idf = Math.log(1 + (this.chunks.length - postings.size + 0.5) / (postings.size + 0.5));
+      postings.forEach((count, id) => {
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * this.lengths[id] / averageLength);
+        add(id, idf * (count * (BM25_K1 + 1)) / (count + norm));
+      });
+      this.symbolTerms.get(term)?.forEach(id => add(id, SYMBOL_TERM_BOOST));
+    });
+    identifiers.forEach(identifier => {
+      (this.symbols.get(identifier.toLowerCase()) || []).forEach(id => add(id, SYMBOL_MATCH_BOOST));
+    });
+
+    const picked: number[] = [];
+    let size = 0;
+    Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([id]) => {
+        const length = this.chunks[id].text.length;
+        if (picked.length < limit && (size + length <= maxChars || picked.length === 0)) {
+          picked.push(id);
+          size += length;
+        }
+      });
+
+    return picked
+      .map(id => this.chunks[id])
+      .sort((a, b) => a.path.localeCompare(b.path) || a.start - b.start);
+  }
+}
+
+/**
+ * Reads and indexes the given files a few at a time. Files that fail to load
+ * or turn out not to be text are left out; an abort stops the whole build.
+ */
+export const buildRepoIndex = async (
+  files: RepoTreeNode[],
+  totalFiles: number,
+  readFile: (path: string) => Promise<string>,
+  onProgress: (done: number) => void,
+  signal?: AbortSignal
+): Promise<RepoIndex> => {
+  const index = new RepoIndex(totalFiles);
+
+  for (let i = 0; i < files.length; i += INDEX_CONCURRENCY) {
+    throwIfAborted(signal);
+    const batch = files.slice(i, i + INDEX_CONCURRENCY);
+    const contents = await Promise.all(batch.map(async file => {
+      try {
+        const content = await readFile(file.path);
+        return classifyContent(file.path, content, file.size).kind === 'text' ? content : null;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn(`Skipping ${file.path} in the repository index:`, err);
+        return null;
+      }
+    }));
+    batch.forEach((file, j) => {
+      const content = contents[j];
+      if (content) index.addFile(file.path, content);
+    });
+    onProgress(i + batch.length);
+  }
+
+  return index;
+};
@@ -0,0 +1,144 @@
+// IndexedDB store of repository sessions: the tree, fetched file contents,
+// explanations, Q&A and the diagram, per provider/owner/repo/commit. Lets a
+// session survive reloads and be reopened without any network access.
+import { Explanation } from './geminiApi';
+import { Thread } from './conversations';
+import { SourceRepo } from './providers/types';
+
+const DB_NAME = 'explainhub';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+// Oldest snapshots beyond this count are dropped
+const MAX_SNAPSHOTS = 20;
+
+export interface RepoSnapshot {
+  id: string;
+  repo: SourceRepo;
+  fileContents: Record<string, string>;
+  // File and directory explanations plus repository Q&A, keyed as in ExplanationContext
+  explanations: Record<string, Explanation>;
+  architectureDiagram: string | null;
+  // Per-package diagrams of a monorepo; absent in snapshots saved before they existed
+  packageDiagrams?: Record<string, string>;
+  // Q&A conversations per file; absent in snapshots saved before threads existed
+  threads?: Record<string, Thread>;
+  // Explanation settings the explanations were written with (explanationSettingsKey)
+  outputStyle?: string;
+  updatedAt: number;
+}
+
+// One snapshot per commit: a branch that moves gets a new snapshot
+export const getSnapshotId = (repo: SourceRepo): string =>
+  `${repo.provider_id}/${repo.owner}/${repo.name}@${repo.commit_sha || repo.ref || repo.default_branch}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await run(tx.objectStore(STORE_NAME));
+  await done;
+  return result;
+};
+
+const emptySnapshot = (repo: SourceRepo): RepoSnapshot => ({
+  id: getSnapshotId(repo),
+  repo,
+  fileContents: {},
+  explanations: {},
+  architectureDiagram: null,
+  updatedAt: Date.now(),
+});
+
+const pruneOldSnapshots = async () => {
+  await withStore('readwrite', async store => {
+    const keys = await requestToPromise(store.index('updatedAt').getAllKeys());
+    // Index keys come back oldest first
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).map(key => requestToPromise(store.delete(key))));
+  });
+};
+
+export const snapshotStore = {
+  get: async (id: string): Promise<RepoSnapshot | null> => {
+    try {
+      return (await withStore('readonly', store => requestToPromise(store.get(id)))) || null;
+    } catch (error) {
+      console.error('Snapshot Retrieval Error:', error);
+      return null;
+    }
+  },
+
+  // Most recently used first
+  list: async (): Promise<RepoSnapshot[]> => {
+    try {
+      const snapshots: RepoSnapshot[] = await withStore('readonly', store => requestToPromise(store.getAll()));
+      return snapshots.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error('Snapshot List Error:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Merges part of a session into its snapshot. Repo state and explanation
+   * state are saved by different contexts, so each write only replaces the
+   * fields it owns; read and write happen in one transaction.
+   */
+  update: async (repo: SourceRepo, patch: Partial<Omit<RepoSnapshot, 'id' | 'updatedAt'>>): Promise<void> => {
+    try {
+      const id = getSnapshotId(repo);
+      await withStore('readwrite', async store => {
+        const existing: RepoSnapshot | undefined = await requestToPromise(store.get(id));
+        await requestToPromise(store.put({ ...(existing || emptySnapshot(repo)), ...patch, id, updatedAt: Date.now() }));
+      });
+      await pruneOldSnapshots();
+    } catch (error) {
+      console.error('Snapshot Save Error:', error);
+    }
+  },
+
+  remove: async (id: string): Promise<void> => {
+    try {
+      await withStore('readwrite', store => requestToPromise(store.delete(id)));
+    } catch (error) {
+      console.error('Snapshot Delete Error:', error);
+    }
+  },
+};
@@ -0,0 +1,57 @@
+import { RepoTree, buildTreeFromEntries, findTreeNode, listTreeChildren } from './treeLoader';
+
+const entries = [
+  { path: 'README.md', type: 'file' as const, size: 10, sha: 'r' },
+  { path: 'src', type: 'dir' as const, sha: 'd1' },
+  { path: 'src/index.ts', type: 'file' as const, size: 20 },
+  // Parent directories missing from the listing are created on the way
+  { path: 'src/lib/deep/util.ts', type: 'file' as const, size: 30 },
+  { path: 'empty', type: 'dir' as const },
+];
+
+describe('buildTreeFromEntries', () => {
+  const root = buildTreeFromEntries(entries, 'repo');
+
+  test('nests entries under their directories in listing order', () => {
+    expect(root).toMatchObject({ name: 'repo', type: 'dir', path: '' });
+    expect(root.children!.map(child => child.path)).toEqual(['README.md', 'src', 'empty']);
+    expect(findTreeNode(root, 'src')!.children!.map(child => child.path)).toEqual(['src/index.ts', 'src/lib']);
+  });
+
+  test('keeps sizes and SHAs, including those of directories', () => {
+    expect(findTreeNode(root, 'README.md')).toEqual({ name: 'README.md', type: 'file', path: 'README.md', size: 10, sha: 'r' });
+    expect(findTreeNode(root, 'src')!.sha).toBe('d1');
+  });
+
+  test.each([
+    ['', ''],
+    ['/src/lib/', 'src/lib'],
+    ['src/lib/deep/util.ts', 'src/lib/deep/util.ts'],
+  ])('findTreeNode(%p)', (path, expected) => {
+    expect(findTreeNode(root, path)!.path).toBe(expected);
+  });
+
+  test.each(['missing', 'src/index.ts/x', 'src/lib/nope'])('findTreeNode(%p) is null', path => {
+    expect(findTreeNode(root, path)).toBeNull();
+  });
+});
+
+describe('listTreeChildren', () => {
+  const tree = (truncated: boolean): RepoTree => ({ root: buildTreeFromEntries(entries, 'repo'), sha: 'head', truncated });
+
+  test('lists a directory as source files', () => {
+    expect(listTreeChildren(tree(false), 'src')).toEqual([
+      { name: 'index.ts', path: 'src/index.ts', type: 'file', size: 20, sha: undefined },
+      { name: 'lib', path: 'src/lib', type: 'dir', size: undefined, sha: undefined },
+    ]);
+  });
+
+  test.each([
+    [false, 'empty', []],
+    [true, 'empty', null],
+    [false, 'README.md', null],
+    [true, 'missing', null],
+  ])('truncated=%p, %p', (truncated, path, expected) => {
+    expect(listTreeChildren(tree(truncated), path)).toEqual(expected);
+  });
+});
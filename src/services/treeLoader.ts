@@ -0,0 +1,105 @@
+// Builds and queries the nested file tree every source provider loads in one pass
+import { SourceFile } from './providers/types';
+
+export interface RepoTreeNode {
+  name: string;
+  type: 'file' | 'dir';
+  path: string;
+  size?: number;
+  sha?: string;
+  children?: RepoTreeNode[];
+}
+
+export interface RepoTree {
+  root: RepoTreeNode;
+  sha: string;
+  // Providers cut very large recursive listings off (GitHub above ~100k
+  // entries / 7 MB). When set, directories may be missing children and
+  // need a list-dir call.
+  truncated: boolean;
+}
+
+// One flat listing entry as returned by a provider's recursive tree API
+export interface TreeEntry {
+  path: string;
+  type: 'file' | 'dir';
+  sha?: string;
+  size?: number;
+}
+
+/**
+ * Turns the flat, path-sorted entry list into the nested
+ * { name, type, path, children } shape used across the app.
+ */
+export const buildTreeFromEntries = (entries: TreeEntry[], rootName: string): RepoTreeNode => {
+  const root: RepoTreeNode = { name: rootName, type: 'dir', path: '', children: [] };
+  const dirs: Record<string, RepoTreeNode> = { '': root };
+
+  const ensureDir = (path: string): RepoTreeNode => {
+    if (dirs[path]) return dirs[path];
+
+    const slash = path.lastIndexOf('/');
+    const parent = ensureDir(slash === -1 ? '' : path.substring(0, slash));
+    const node: RepoTreeNode = { name: path.substring(slash + 1), type: 'dir', path, children: [] };
+    parent.children!.push(node);
+    dirs[path] = node;
+    return node;
+  };
+
+  entries.forEach(entry => {
+    if (entry.type === 'dir') {
+      ensureDir(entry.path).sha = entry.sha;
+      return;
+    }
+
+    const slash = entry.path.lastIndexOf('/');
+    const parent = ensureDir(slash === -1 ? '' : entry.path.substring(0, slash));
+    parent.children!.push({
+      name: entry.path.substring(slash + 1),
+      type: 'file',
+      path: entry.path,
+      size: entry.size,
+      sha: entry.sha,
+    });
+  });
+
+  return root;
+};
+
+export const findTreeNode = (root: RepoTreeNode, path: string): RepoTreeNode | null => {
+  const normalized = path.replace(/^\/+|\/+$/g, '');
+  if (!normalized) return root;
+
+  let current: RepoTreeNode | undefined = root;
+  for (const segment of normalized.split('/')) {
+    current = current.children?.find(child => child.name === segment);
+    if (!current) return null;
+  }
+  return current;
+};
+
+export const treeNodeToFile = (node: RepoTreeNode): SourceFile => ({
+  name: node.name,
+  path: node.path,
+  type: node.type,
+  size: node.size,
+  sha: node.sha,
+});
+
+/**
+ * Lists a directory from the loaded tree. Returns null when the tree cannot
+ * answer reliably (path missing from a truncated tree), so callers can fall
+ * back to a contents API call.
+ */
+export const listTreeChildren = (tree: RepoTree, path: string): SourceFile[] | null => {
+  const node = findTreeNode(tree.root, path);
+
+  if (!node || node.type !== 'dir') {
+    return null;
+  }
+  if (tree.truncated && (node.children || []).length === 0) {
+    return null;
+  }
+
+  return (node.children || []).map(treeNodeToFile);
+};
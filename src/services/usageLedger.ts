@@ -0,0 +1,161 @@
+// Token usage of every LLM call made in this browser session, the daily total
+// across sessions and the optional daily budget that stops new calls.
+import { LLMUsage } from './llm';
+
+export type UsagePurpose =
+  | 'file_explanation'
+  | 'directory_explanation'
+  | 'metadata_explanation'
+  | 'repo_overview'
+  | 'question'
+  | 'repo_question'
+  | 'batch_functions'
+  | 'architecture'
+  | 'pr_review'
+  | 'pr_narrative'
+  | 'file_history';
+
+export const USAGE_PURPOSE_LABELS: Record<UsagePurpose, string> = {
+  file_explanation: 'File explanation',
+  directory_explanation: 'Directory explanation',
+  metadata_explanation: 'Metadata explanation',
+  repo_overview: 'Repository overview',
+  question: 'Q&A',
+  repo_question: 'Repository Q&A',
+  batch_functions: 'Function summaries',
+  architecture: 'Architecture',
+  pr_review: 'PR file review',
+  pr_narrative: 'PR overview',
+  file_history: 'File history',
+};
+
+// What a call was for, and the file it was about when there is one
+export interface UsageTag {
+  purpose: UsagePurpose;
+  path?: string;
+}
+
+export interface UsageEntry extends UsageTag, LLMUsage {
+  at: number;
+  model: string;
+  // The provider reported no usage, so the counts are estimated from the text
+  estimated: boolean;
+  // Served from the cache: the tokens were saved, not spent
+  cached: boolean;
+}
+
+interface DailyTotal {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  tokens: number;
+}
+
+const DAILY_TOTAL_KEY = 'explainhub_usage_daily';
+const DAILY_BUDGET_KEY = 'explainhub_token_budget';
+
+// List prices in USD per million tokens (input, output). Models missing here
+// show token counts only; local models cost nothing.
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gemini-3-flash-preview': [0.5, 3],
+  'gemini-2.5-flash': [0.3, 2.5],
+  'gemini-2.5-pro': [1.25, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'claude-3-5-haiku-latest': [0.8, 4],
+  'claude-sonnet-4-0': [3, 15],
+};
+
+export const estimateCost = (entry: Pick<UsageEntry, 'model' | 'promptTokens' | 'outputTokens'>): number | null => {
+  const price = MODEL_PRICES[entry.model];
+  if (!price) return null;
+  return (entry.promptTokens * price[0] + entry.outputTokens * price[1]) / 1_000_000;
+};
+
+const today = (): string => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+type LedgerListener = (entries: UsageEntry[]) => void;
+
+class UsageLedger {
+  private entries: UsageEntry[] = [];
+  private listeners = new Set<LedgerListener>();
+
+  getEntries(): UsageEntry[] {
+    return this.entries;
+  }
+
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  record(tag: UsageTag, model: string, usage: LLMUsage, estimated: boolean) {
+    this.add({ ...tag, ...usage, model, estimated, cached: false, at: Date.now() });
+
+    const total = this.readDailyTotal();
+    try {
+      localStorage.setItem(DAILY_TOTAL_KEY, JSON.stringify({ day: total.day, tokens: total.tokens + usage.promptTokens + usage.outputTokens }));
+    } catch (error) {
+      console.warn('Could not save the daily token total:', error);
+    }
+  }
+
+  // A cached answer reused; its original usage counts as savings
+  recordCacheHit(tag: UsageTag, model: string, usage: LLMUsage) {
+    this.add({ ...tag, ...usage, model, estimated: false, cached: true, at: Date.now() });
+  }
+
+  // Tokens spent today, across every session in this browser
+  getDailyTotal(): number {
+    return this.readDailyTotal().tokens;
+  }
+
+  getDailyBudget(): number | null {
+    const stored = localStorage.getItem(DAILY_BUDGET_KEY);
+    const budget = stored ? parseInt(stored, 10) : NaN;
+    return budget > 0 ? budget : null;
+  }
+
+  setDailyBudget(budget: number | null) {
+    if (budget && budget > 0) {
+      localStorage.setItem(DAILY_BUDGET_KEY, String(budget));
+    } else {
+      localStorage.removeItem(DAILY_BUDGET_KEY);
+    }
+    this.notify();
+  }
+
+  isOverBudget(): boolean {
+    const budget = this.getDailyBudget();
+    return budget !== null && this.getDailyTotal() >= budget;
+  }
+
+  private readDailyTotal(): DailyTotal {
+    try {
+      const stored = JSON.parse(localStorage.getItem(DAILY_TOTAL_KEY) || 'null') as DailyTotal | null;
+      if (stored && stored.day === today()) {
+        return stored;
+      }
+    } catch {
+      // Unreadable totals start the day over
+    }
+    return { day: today(), tokens: 0 };
+  }
+
+  private add(entry: UsageEntry) {
+    this.entries = [...this.entries, entry];
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
+
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,315 @@
+import { Workspace, WorkspacePackage, detectWorkspace, getDependents, scopeTree } from './workspaces';
+import { RepoTreeNode, buildTreeFromEntries } from './treeLoader';
+
+const treeOf = (paths: string[]): RepoTreeNode =>
+  buildTreeFromEntries([...paths].sort().map(path => ({ path, type: 'file' as const })), 'repo');
+
+// Detects the workspace of a repository holding exactly these files
+const detect = (files: Record<string, string>) =>
+  detectWorkspace(treeOf(Object.keys(files)), async path => {
+    if (!(path in files)) throw new Error(`404: ${path}`);
+    return files[path];
+  });
+
+// [path, name, internal dependencies] per package
+const summarize = (workspace: Workspace | null) =>
+  workspace && {
+    tools: workspace.tools,
+    packages: workspace.packages.map(pkg => [pkg.path, pkg.name, pkg.dependencies]),
+  };
+
+const packageJson = (name: string, dependencies: Record<string, string> = {}, devDependencies: Record<string, string> = {}) =>
+  JSON.stringify({ name, version: '1.0.0', dependencies, devDependencies });
+
+const filePaths = (node: RepoTreeNode): string[] =>
+  node.type === 'file' ? [node.path] : (node.children || []).flatMap(filePaths);
+
+describe('detectWorkspace', () => {
+  test.each([
+    {
+      name: 'npm workspaces with an excluded directory',
+      files: {
+        'package.json': JSON.stringify({ private: true, workspaces: ['packages/*', '!packages/legacy'] }),
+        'packages/core/package.json': packageJson('@acme/core'),
+        'packages/ui/package.json': packageJson('@acme/ui', { '@acme/core': '^1.0.0', react: '^18.2.0' }),
+        'packages/legacy/package.json': packageJson('@acme/legacy', { '@acme/core': '^0.9.0' }),
+        'docs/package.json': packageJson('docs', { '@acme/ui': '*' }),
+      },
+      expected: {
+        tools: ['npm'],
+        packages: [
+          ['packages/core', '@acme/core', []],
+          ['packages/ui', '@acme/ui', ['@acme/core']],
+        ],
+      },
+    },
+    {
+      name: 'yarn workspaces in the object form',
+      files: {
+        'package.json': JSON.stringify({ private: true, workspaces: { packages: ['apps/*'], nohoist: ['**/react-native'] } }),
+        'yarn.lock': '',
+        'apps/mobile/package.json': packageJson('mobile', {}, { web: 'workspace:*' }),
+        'apps/web/package.json': packageJson('web'),
+      },
+      expected: {
+        tools: ['yarn'],
+        packages: [
+          ['apps/mobile', 'mobile', ['web']],
+          ['apps/web', 'web', []],
+        ],
+      },
+    },
+    {
+      name: 'pnpm-workspace.yaml with quotes, comments and a negated glob',
+      files: {
+        'package.json': packageJson('monorepo'),
+        'pnpm-workspace.yaml': [
+          'packages:',
+          "  - 'apps/*'",
+          '  - "libs/**" # nested libraries too',
+          "  - '!**/test/**'",
+          'catalog:',
+          '  react: ^18.2.0',
+        ].join('\n'),
+        'apps/site/package.json': packageJson('@acme/site', { '@acme/utils': 'workspace:*' }),
+        'libs/utils/package.json': packageJson('@acme/utils'),
+        'libs/utils/test/fixture/package.json': packageJson('fixture', { '@acme/utils': 'workspace:*' }),
+      },
+      expected: {
+        tools: ['pnpm'],
+        packages: [
+          ['apps/site', '@acme/site', ['@acme/utils']],
+          ['libs/utils', '@acme/utils', []],
+        ],
+      },
+    },
+    {
+      name: 'Lerna with its default packages/* glob',
+      files: {
+        'lerna.json': JSON.stringify({ version: 'independent' }),
+        'packages/cli/package.json': packageJson('cli', { core: '^2.0.0' }),
+        'packages/core/package.json': packageJson('core'),
+      },
+      expected: {
+        tools: ['lerna'],
+        packages: [
+          ['packages/cli', 'cli', ['core']],
+          ['packages/core', 'core', []],
+        ],
+      },
+    },
+    {
+      name: 'Nx projects without a package.json of their own',
+      files: {
+        'nx.json': JSON.stringify({ npmScope: 'acme' }),
+        'apps/api/project.json': JSON.stringify({ name: 'api', implicitDependencies: ['shared'] }),
+        'libs/shared/project.json': JSON.stringify({ name: 'shared' }),
+      },
+      expected: {
+        tools: ['nx'],
+        packages: [
+          ['apps/api', 'api', ['shared']],
+          ['libs/shared', 'shared', []],
+        ],
+      },
+    },
+    {
+      name: 'a Cargo workspace with a root crate, excluded members and dependency tables',
+      files: {
+        'Cargo.toml': [
+          '[workspace]',
+          'members = [',
+          '  "crates/*",',
+          '  "cli",',
+          ']',
+          'exclude = ["crates/experimental"]',
+          '',
+          '[package]',
+          'name = "app"',
+          'version = "0.1.0"',
+          '',
+          '[dependencies]',
+          'cli = { path = "cli" }',
+        ].join('\n'),
+        'cli/Cargo.toml': [
+          '[package]',
+          'name = "cli"',
+          '',
+          '[dependencies]',
+          'parser = { path = "../crates/parser" }',
+          'clap = "4"',
+          '',
+          "[target.'cfg(unix)'.dependencies]",
+          'core = { path = "../crates/core" }',
+        ].join('\n'),
+        'crates/core/Cargo.toml': '[package]\nname = "core"\n\n[dependencies]\nserde = "1"\n',
+        'crates/parser/Cargo.toml': [
+          '[package]',
+          "name = 'parser'",
+          '',
+          '[dependencies.core]',
+          'path = "../core"',
+          '',
+          '[dev-dependencies]',
+          'tempfile = "3"',
+        ].join('\n'),
+        'crates/experimental/Cargo.toml': '[package]\nname = "experimental"\n',
+      },
+      expected: {
+        tools: ['cargo'],
+        packages: [
+          ['', 'app', ['cli']],
+          ['cli', 'cli', ['parser', 'core']],
+          ['crates/core', 'core', []],
+          ['crates/parser', 'parser', ['core']],
+        ],
+      },
+    },
+    {
+      name: 'go.work with a use block and a single use directive',
+      files: {
+        'go.work': ['go 1.22', '', 'use (', '\t./api', '\t./pkg/shared // shared code', ')', '', 'use ./tools'].join('\n'),
+        'api/go.mod': [
+          'module example.com/api',
+          '',
+          'go 1.22',
+          '',
+          'require (',
+          '\texample.com/shared v0.0.0',
+          '\tgithub.com/google/uuid v1.6.0',
+          ')',
+        ].join('\n'),
+        'pkg/shared/go.mod': 'module example.com/shared\n\ngo 1.22\n',
+        'tools/go.mod': 'module example.com/tools\n\nrequire example.com/api v0.0.0\n',
+        'scratch/go.mod': 'module example.com/scratch\n',
+      },
+      expected: {
+        tools: ['go'],
+        packages: [
+          ['api', 'example.com/api', ['example.com/shared']],
+          ['pkg/shared', 'example.com/shared', []],
+          ['tools', 'example.com/tools', ['example.com/api']],
+        ],
+      },
+    },
+    {
+      name: 'several Go modules without go.work',
+      files: {
+        'server/go.mod': 'module example.com/server\n\nrequire example.com/proto v0.1.0\n',
+        'proto/go.mod': 'module example.com/proto\n',
+      },
+      expected: {
+        tools: ['go'],
+        packages: [
+          ['proto', 'example.com/proto', []],
+          ['server', 'example.com/server', ['example.com/proto']],
+        ],
+      },
+    },
+    {
+      name: 'a broken manifest, which is skipped',
+      files: {
+        'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+        'packages/broken/package.json': '{ "name": "broken", ',
+        'packages/ok/package.json': packageJson('ok'),
+      },
+      expected: { tools: ['npm'], packages: [['packages/ok', 'ok', []]] },
+    },
+    {
+      name: 'a single-package repository',
+      files: {
+        'package.json': packageJson('app', { react: '^18.2.0' }),
+        'src/index.ts': 'export {};',
+      },
+      expected: null,
+    },
+    {
+      name: 'a single Cargo crate',
+      files: { 'Cargo.toml': '[package]\nname = "tool"\n' },
+      expected: null,
+    },
+  ])('$name', async ({ files, expected }) => {
+    expect(summarize(await detect(files))).toEqual(expected);
+  });
+
+  test('records the manifest and ecosystem of each package', async () => {
+    const workspace = await detect({
+      'nx.json': '{}',
+      'package.json': JSON.stringify({ workspaces: ['packages/*'] }),
+      'packages/web/package.json': packageJson('web'),
+      'packages/api/project.json': JSON.stringify({ implicitDependencies: [] }),
+    });
+
+    expect(workspace?.tools).toEqual(['npm', 'nx']);
+    expect(workspace?.packages).toEqual([
+      { name: 'api', path: 'packages/api', manifest: 'packages/api/project.json', ecosystem: 'node', dependencies: [] },
+      { name: 'web', path: 'packages/web', manifest: 'packages/web/package.json', ecosystem: 'node', dependencies: [] },
+    ]);
+  });
+});
+
+const pkg = (name: string, dependencies: string[] = [], path = `packages/${name}`): WorkspacePackage =>
+  ({ name, path, manifest: `${path}/package.json`, ecosystem: 'node', dependencies });
+
+describe('getDependents', () => {
+  const workspace: Workspace = {
+    tools: ['npm'],
+    packages: [
+      pkg('core'),
+      pkg('ui', ['core']),
+      pkg('app', ['ui']),
+      pkg('admin', ['core', 'app']),
+      pkg('docs'),
+      pkg('ping', ['pong']),
+      pkg('pong', ['ping']),
+    ],
+  };
+
+  test.each([
+    ['core', ['ui', 'app', 'admin']],
+    ['ui', ['app', 'admin']],
+    ['admin', []],
+    ['docs', []],
+    // A cycle leads back to the package without listing it
+    ['ping', ['pong']],
+    ['unknown', []],
+  ])('%s', (name, expected) => {
+    expect(getDependents(workspace, name).map(p => p.name)).toEqual(expected);
+  });
+});
+
+describe('scopeTree', () => {
+  const root = treeOf([
+    'README.md',
+    'apps/web/src/main.tsx',
+    'apps/web/package.json',
+    'packages/core/src/index.ts',
+    'packages/core/package.json',
+    'packages/ui/src/Button.tsx',
+  ]);
+
+  test.each([
+    {
+      name: 'one package',
+      packages: [pkg('core')],
+      expected: ['packages/core/package.json', 'packages/core/src/index.ts'],
+    },
+    {
+      name: 'packages in different directories',
+      packages: [pkg('core'), pkg('web', [], 'apps/web')],
+      expected: ['apps/web/package.json', 'apps/web/src/main.tsx', 'packages/core/package.json', 'packages/core/src/index.ts'],
+    },
+    {
+      name: 'a package at the root, which keeps everything',
+      packages: [pkg('root', [], '')],
+      expected: filePaths(root),
+    },
+    {
+      name: 'no packages',
+      packages: [],
+      expected: [],
+    },
+  ])('$name', ({ packages, expected }) => {
+    expect(filePaths(scopeTree(root, packages)).sort()).toEqual([...expected].sort());
+  });
+});
@@ -0,0 +1,329 @@
+// Detects monorepo layouts (npm/yarn/pnpm workspaces, Lerna, Nx, Turborepo,
+// Cargo workspaces, Go multi-module repos) from the tree and the manifests,
+// and works out which packages depend on which.
+import { RepoTreeNode } from './treeLoader';
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'nx' | 'turbo' | 'cargo' | 'go';
+
+export type PackageEcosystem = 'node' | 'rust' | 'go';
+
+export interface WorkspacePackage {
+  name: string;
+  // Package directory; '' for a package at the repository root
+  path: string;
+  manifest: string;
+  ecosystem: PackageEcosystem;
+  // Other packages of the same workspace this one depends on
+  dependencies: string[];
+}
+
+export interface Workspace {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+}
+
+// Manifests read per repository; huge monorepos are cut off here
+const MAX_MANIFESTS = 80;
+
+type ReadFile = (path: string) => Promise<string>;
+
+const collectPaths = (node: RepoTreeNode, files: Set<string>, dirs: string[]) => {
+  (node.children || []).forEach(child => {
+    if (child.type === 'dir') {
+      dirs.push(child.path);
+      collectPaths(child, files, dirs);
+    } else {
+      files.add(child.path);
+    }
+  });
+};
+
+const joinPath = (dir: string, name: string) => (dir ? `${dir}/${name}` : name);
+
+const dirName = (path: string) => (path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '');
+
+// Workspace globs ("packages/*", "apps/**", "./tools/cli") as directory matchers
+const globToRegExp = (pattern: string): RegExp => {
+  const normalized = pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  const source = normalized
+    .split('**').map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+};
+
+const matchDirs = (dirs: string[], patterns: string[]): string[] => {
+  const include = patterns.filter(p => !p.startsWith('!')).map(globToRegExp);
+  const exclude = patterns.filter(p => p.startsWith('!')).map(p => globToRegExp(p.substring(1)));
+  return dirs.filter(dir => include.some(re => re.test(dir)) && !exclude.some(re => re.test(dir)));
+};
+
+const parseJson = (content: string): any => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+};
+
+// The "packages:" list of pnpm-workspace.yaml; the file has no other list we need
+const parsePnpmPackages = (content: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+  content.split('\n').forEach(line => {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      return;
+    }
+    if (inPackages) {
+      const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  });
+  return patterns;
+};
+
+// A string array assigned in TOML, e.g. members = ["crates/*", "cli"]
+const parseTomlArray = (content: string, key: string): string[] => {
+  const match = content.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  if (!match) return [];
+  return Array.from(match[1].matchAll(/["']([^"']+)["']/g)).map(m => m[1]);
+};
+
+const tomlSection = (content: string, header: RegExp): string => {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => header.test(line.trim()));
+  if (start === -1) return '';
+  const end = lines.findIndex((line, i) => i > start && /^\s*\[/.test(line));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+};
+
+// go.work "use" directives, single or in a block
+const parseGoWork = (content: string): string[] => {
+  const dirs: string[] = [];
+  const block = content.match(/^use\s*\(([\s\S]*?)\)/m);
+  if (block) {
+    block[1].split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(Boolean).forEach(dir => dirs.push(dir));
+  }
+  Array.from(content.matchAll(/^use\s+([^\s(]+)/gm)).forEach(m => dirs.push(m[1]));
+  return dirs.map(dir => dir.replace(/^\.\/?/, '').replace(/\/+$/, ''));
+};
+
+const readNodePackage = async (dir: string, files: Set<string>, readFile: ReadFile): Promise<WorkspacePackage | null> => {
+  const manifest = joinPath(dir, 'package.json');
+  if (files.has(manifest)) {
+    const pkg = parseJson(await readFile(manifest));
+    if (!pkg) return null;
+    const dependencies = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
+      .flatMap(field => Object.keys(pkg[field] || {}));
+    return { name: pkg.name || dir, path: dir, manifest, ecosystem: 'node', dependencies };
+  }
+
+  // Nx projects without a package.json of their own
+  const project = joinPath(dir, 'project.json');
+  if (files.has(project)) {
+    const config = parseJson(await readFile(project));
+    if (!config) return null;
+    return { name: config.name || dir.split('/').pop() || dir, path: dir, manifest: project, ecosystem: 'node', dependencies: config.implicitDependencies || [] };
+  }
+  return null;
+};
+
+const readCargoPackage = async (dir: string, readFile: ReadFile): Promise<WorkspacePackage | null> => {
+  const manifest = joinPath(dir, 'Cargo.toml');
+  const content = await readFile(manifest);
+  const name = tomlSection(content, /^\[package\]$/).match(/^\s*name\s*=\s*["']([^"']+)["']/m);
+  if (!name) return null;
+
+  const dependencies = new Set<string>();
+  let inDependencies = false;
+  content.split('\n').forEach(line => {
+    const header = line.trim().match(/^\[(.+)\]$/);
+    if (header) {
+      // [dependencies.foo] names the dependency in the header itself
+      const table = header[1].match(/^(?:.+\.)?(?:dev-|build-)?dependencies\.([\w-]+)$/);
+      if (table) dependencies.add(table[1]);
+      inDependencies = /(^|\.)(dev-|build-)?dependencies$/.test(header[1]);
+      return;
+    }
+    const key = inDependencies ? line.match(/^\s*([\w-]+)\s*=/) : null;
+    if (key) dependencies.add(key[1]);
+  });
+
+  return { name: name[1], path: dir, manifest, ecosystem: 'rust', dependencies: Array.from(dependencies) };
+};
+
+const readGoModule = async (dir: string, readFile: ReadFile): Promise<WorkspacePackage | null> => {
+  const manifest = joinPath(dir, 'go.mod');
+  const content = await readFile(manifest);
+  const moduleName = content.match(/^module\s+(\S+)/m);
+  if (!moduleName) return null;
+
+  const requires: string[] = [];
+  const block = content.match(/^require\s*\(([\s\S]*?)\)/m);
+  if (block) {
+    block[1].split('\n').map(line => line.trim().split(/\s+/)[0]).filter(Boolean).forEach(mod => requires.push(mod));
+  }
+  Array.from(content.matchAll(/^require\s+([^\s(]+)/gm)).forEach(m => requires.push(m[1]));
+
+  return { name: moduleName[1], path: dir, manifest, ecosystem: 'go', dependencies: requires };
+};
+
+/**
+ * Finds the workspace packages of a repository. Returns null for single-package
+ * repos. Manifests that fail to load or parse are skipped.
+ */
+export const detectWorkspace = async (root: RepoTreeNode, readFile: ReadFile): Promise<Workspace | null> => {
+  const files = new Set<string>();
+  const dirs: string[] = [];
+  collectPaths(root, files, dirs);
+
+  const tools: WorkspaceTool[] = [];
+  const safeRead: ReadFile = path => readFile(path).catch(() => '');
+
+  // JavaScript: workspace globs come from package.json, pnpm or Lerna;
+  // Nx and Turborepo sit on top of those
+  const nodePatterns: string[] = [];
+  if (files.has('package.json')) {
+    const rootPkg = parseJson(await safeRead('package.json'));
+    const workspaces = rootPkg?.workspaces;
+    const patterns: string[] = Array.isArray(workspaces) ? workspaces : workspaces?.packages || [];
+    if (patterns.length > 0) {
+      tools.push(files.has('yarn.lock') ? 'yarn' : 'npm');
+      nodePatterns.push(...patterns);
+    }
+  }
+  if (files.has('pnpm-workspace.yaml')) {
+    tools.push('pnpm');
+    nodePatterns.push(...parsePnpmPackages(await safeRead('pnpm-workspace.yaml')));
+  }
+  if (files.has('lerna.json')) {
+    tools.push('lerna');
+    const lerna = parseJson(await safeRead('lerna.json'));
+    nodePatterns.push(...(lerna?.packages || ['packages/*']));
+  }
+  const nxProjectDirs: string[] = [];
+  if (files.has('nx.json')) {
+    tools.push('nx');
+    files.forEach(path => {
+      if (path.endsWith('/project.json')) nxProjectDirs.push(dirName(path));
+    });
+  }
+  if (files.has('turbo.json')) {
+    tools.push('turbo');
+  }
+
+  const nodeDirs = Array.from(new Set([...matchDirs(dirs, nodePatterns), ...nxProjectDirs]))
+    .filter(dir => files.has(joinPath(dir, 'package.json')) || files.has(joinPath(dir, 'project.json')));
+
+  // Rust: [workspace] members in the root Cargo.toml
+  let cargoDirs: string[] = [];
+  if (files.has('Cargo.toml')) {
+    const cargo = await safeRead('Cargo.toml');
+    const workspaceSection = tomlSection(cargo, /^\[workspace\]$/);
+    if (/^\[workspace\]/m.test(cargo)) {
+      tools.push('cargo');
+      const members = parseTomlArray(workspaceSection, 'members');
+      const excluded = parseTomlArray(workspaceSection, 'exclude').map(p => `!${p}`);
+      cargoDirs = matchDirs(dirs, [...members, ...excluded]).filter(dir => files.has(joinPath(dir, 'Cargo.toml')));
+      // A root crate can be a member of its own workspace
+      if (/^\[package\]/m.test(cargo)) cargoDirs.unshift('');
+    }
+  }
+
+  // Go: go.work, or several go.mod files without one
+  let goDirs: string[] = [];
+  const goModDirs = Array.from(files).filter(path => path === 'go.mod' || path.endsWith('/go.mod')).map(dirName);
+  if (files.has('go.work')) {
+    tools.push('go');
+    goDirs = parseGoWork(await safeRead('go.work')).filter(dir => files.has(joinPath(dir, 'go.mod')));
+  } else if (goModDirs.length > 1) {
+    tools.push('go');
+    goDirs = goModDirs;
+  }
+
+  const readers: Array<() => Promise<WorkspacePackage | null>> = [
+    ...nodeDirs.map(dir => () => readNodePackage(dir, files, safeRead)),
+    ...cargoDirs.map(dir => () => readCargoPackage(dir, safeRead)),
+    ...goDirs.map(dir => () => readGoModule(dir, safeRead)),
+  ].slice(0, MAX_MANIFESTS);
+
+  const packages = (await Promise.all(readers.map(read => read().catch(() => null))))
+    .filter((pkg): pkg is WorkspacePackage => pkg !== null);
+
+  if (tools.length === 0 || packages.length === 0) {
+    return null;
+  }
+
+  // Only dependencies on sibling packages matter here
+  const names = new Set(packages.map(pkg => pkg.name));
+  packages.forEach(pkg => {
+    pkg.dependencies = Array.from(new Set(pkg.dependencies.filter(dep => names.has(dep) && dep !== pkg.name)));
+  });
+  packages.sort((a, b) => a.path.localeCompare(b.path));
+
+  return { tools, packages };
+};
+
+// The innermost package a path belongs to
+export const findPackageForPath = (workspace: Workspace, path: string): WorkspacePackage | null =>
+  workspace.packages
+    .filter(pkg => pkg.path === '' || path === pkg.path || path.startsWith(`${pkg.path}/`))
+    .sort((a, b) => b.path.length - a.path.length)[0] || null;
+
+// Packages that depend on the given one, directly or through other packages
+export const getDependents = (workspace: Workspace, name: string): WorkspacePackage[] => {
+  const found = new Set<string>();
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    workspace.packages.forEach(pkg => {
+      if (pkg.dependencies.includes(current) && !found.has(pkg.name) && pkg.name !== name) {
+        found.add(pkg.name);
+        queue.push(pkg.name);
+      }
+    });
+  }
+  return workspace.packages.filter(pkg => found.has(pkg.name));
+};
+
+// A package together with its internal dependents
+export const getPackageScope = (workspace: Workspace, name: string): WorkspacePackage[] => {
+  const pkg = workspace.packages.find(p => p.name === name);
+  return pkg ? [pkg, ...getDependents(workspace, name)] : [];
+};
+
+// Only the directories of the given packages, for scoped diagrams
+export const scopeTree = (root: RepoTreeNode, packages: WorkspacePackage[]): RepoTreeNode => {
+  if (packages.some(pkg => pkg.path === '')) return root;
+
+  const keep = (node: RepoTreeNode): RepoTreeNode | null => {
+    if (packages.some(pkg => node.path === pkg.path)) return node;
+    if (node.type !== 'dir' || !packages.some(pkg => pkg.path.startsWith(`${node.path}/`) || node.path === '')) return null;
+    const children = (node.children || []).map(keep).filter((child): child is RepoTreeNode => child !== null);
+    return { ...node, children };
+  };
+  return keep(root) || { ...root, children: [] };
+};
+
+// A few sentences placing a file or directory in its workspace, for prompts
+export const describePackageContext = (workspace: Workspace, path: string): string | null => {
+  const pkg = findPackageForPath(workspace, path);
+  if (!pkg) return null;
+
+  const dependents = getDependents(workspace, pkg.name).map(p => p.name);
+  return [
+    `This belongs to the "${pkg.name}" package (${pkg.path || 'repository root'}) of a ${workspace.tools.join('/')} monorepo with ${workspace.packages.length} packages.`,
+    pkg.dependencies.length > 0 ? `It depends on the internal packages: ${pkg.dependencies.join(', ')}.` : 'It depends on no other internal package.',
+    dependents.length > 0 ? `Internal packages that depend on it: ${dependents.join(', ')}.` : 'No other internal package depends on it.',
+  ].join(' ');
+};
+
+// One line per package with its internal dependencies, for diagram prompts
+export const describePackages = (packages: WorkspacePackage[]): string =>
+  packages.map(pkg =>
+    `  - ${pkg.name} (${pkg.path || '.'}, ${pkg.ecosystem})${pkg.dependencies.length > 0 ? `: depends on ${pkg.dependencies.join(', ')}` : ''}`
+  ).join('\n');
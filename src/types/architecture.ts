@@ -1,16 +1,21 @@
 
+// Allowed enum values; the JSON schema sent to the model is built from these too
+export const COMPONENT_TYPES = ['service', 'controller', 'model', 'view', 'utility', 'component', 'context', 'hook'] as const;
+export const COMPONENT_LAYERS = ['presentation', 'state', 'services', 'data', 'infrastructure', 'external'] as const;
+export const RELATIONSHIP_TYPES = ['calls', 'depends_on', 'imports', 'inherits', 'uses', 'provides'] as const;
+
 export interface ArchitectureComponent {
   id: string;
   name: string;
-  type: 'service' | 'controller' | 'model' | 'view' | 'utility' | 'component' | 'context' | 'hook';
-  layer: 'presentation' | 'state' | 'services' | 'data' | 'infrastructure' | 'external';
+  type: typeof COMPONENT_TYPES[number];
+  layer: typeof COMPONENT_LAYERS[number];
   responsibilities: string[];
 }
 
 export interface ArchitectureRelationship {
   from: string;
   to: string;
-  type: 'calls' | 'depends_on' | 'imports' | 'inherits' | 'uses' | 'provides';
+  type: typeof RELATIONSHIP_TYPES[number];
   description?: string;
 }
 